@@ -4,6 +4,7 @@ import Sidebar from "@/components/sidebar"
 import OverviewDashboard from "@/components/dashboards/overview-dashboard"
 import ForecastDashboard from "@/components/dashboards/forecast-dashboard"
 import AnalysisDashboard from "@/components/dashboards/analysis-dashboard"
+import StormDashboard from "@/components/dashboards/storm-dashboard"
 import InsightsDashboard from "@/components/dashboards/insights-dashboard"
 import ComparisonDashboard from "@/components/dashboards/comparison-dashboard"
 import SimulatorDashboard from "@/components/dashboards/simulator-dashboard"
@@ -19,6 +20,8 @@ export default function Home() {
         return <ForecastDashboard />
       case "analysis":
         return <AnalysisDashboard />
+      case "storm":
+        return <StormDashboard />
       case "insights":
         return <InsightsDashboard />
       case "comparison":
@@ -17,7 +17,9 @@ import { Slider } from "@/components/ui/slider";
 import { Badge } from "@/components/ui/badge";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 import { Loader2, Info } from "lucide-react";
-import { getAnalysisData } from "@/lib/actions/analysis";
+import { getCachedAnalysisData, refreshAnalysisData } from "@/lib/actions/analysis";
+import RefreshButton from "@/components/refresh-button";
+import FreshnessBadge from "@/components/freshness-badge";
 import type { AnalysisData } from "@/lib/actions/analysis";
 
 export default function AnalysisDashboard() {
@@ -35,9 +37,9 @@ export default function AnalysisDashboard() {
     }
   }, [correlationWindow]);
 
-  const fetchAnalysisDataFromServer = async () => {
+  const fetchAnalysisDataFromServer = async (refresh = false) => {
     try {
-      const result = await getAnalysisData();
+      const result = await (refresh ? refreshAnalysisData : getCachedAnalysisData)();
       setData(result);
     } catch (err) {
       console.error("Error fetching analysis:", err);
@@ -56,9 +58,17 @@ export default function AnalysisDashboard() {
       summary: {
         totalFlareEvents: 15,
         totalTradingDays: 30,
+        flareAggregate: "max",
+        flareLinkage: "all",
+        flareLocation: "all",
+        adjustedPrices: false,
+        flareAlignment: "strict",
+        volatilityEstimator: "range-change",
         avgFlareIntensity: 3.2,
         avgVolatility: 7.8,
-        maxFlareIntensity: 8.5,
+        maxFlareIntensity: 5.5,
+        maxFlareFlux: 3.2e-4,
+        peakFlareClass: "X3.2",
         maxVolatility: 15.2,
         totalVolume: 1500000,
         correlationCoefficient: 0.42,
@@ -66,7 +76,7 @@ export default function AnalysisDashboard() {
       flareAnalysis: {
         byClass: { X: 2, M: 5, C: 8 },
         byIntensityRange: { Low: 5, Medium: 7, High: 2, Extreme: 1 },
-        mostActiveDay: { date: "2024-02-05", intensity: 8.5 },
+        mostActiveDay: { date: "2024-02-05", intensity: 5.5 },
       },
       volatilityAnalysis: {
         highVolatilityDays: 12,
@@ -79,6 +89,25 @@ export default function AnalysisDashboard() {
         direction: "positive",
         coefficient: 0.42,
       },
+      durationAnalysis: {
+        flaresWithDuration: 14,
+        avgRiseMinutes: 11.5,
+        avgDecayMinutes: 24.8,
+        avgDurationMinutes: 36.3,
+        totalFluence: 0.42,
+        longDurationEvents: 3,
+        longDurationDays: 3,
+        avgVolatilityLongDurationDays: 10.4,
+        avgVolatilityOtherDays: 7.1,
+        longDurationCorrelation: 0.47,
+      },
+      solarIndexAnalysis: {
+        tradingDaysWithIndices: 30,
+        avgSunspotNumber: 142,
+        avgF107: 168.5,
+        sunspotCorrelation: 0.21,
+        f107Correlation: 0.24,
+      },
       timeSeriesData: [],
     });
   };
@@ -176,6 +205,14 @@ export default function AnalysisDashboard() {
   const lagConfidence = lagData.length > 0 ? lagData[bestLag].correlation : 0.85;
 
   // Calculate window-specific correlations
+  const durationAnalysis = data?.durationAnalysis;
+  const longDurationData = durationAnalysis
+    ? [
+        { group: "Long-Duration Days", volatility: durationAnalysis.avgVolatilityLongDurationDays },
+        { group: "Other Flare Days", volatility: durationAnalysis.avgVolatilityOtherDays },
+      ]
+    : [];
+
   const correlation3d = data ? Math.abs(data.correlationAnalysis.coefficient) : 0.42;
   const correlation5d =
     data && data.timeSeriesData.length >= 5
@@ -209,6 +246,10 @@ export default function AnalysisDashboard() {
 
   return (
     <div className="p-6 space-y-6">
+      <div className="flex items-center justify-end gap-2">
+        <FreshnessBadge provenance={data?.provenance} />
+        <RefreshButton onRefresh={() => fetchAnalysisDataFromServer(true)} />
+      </div>
       <TooltipProvider>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card className="border-l-4 border-l-primary">
@@ -409,6 +450,63 @@ export default function AnalysisDashboard() {
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Long-Duration Events</CardTitle>
+          <CardDescription>
+            Flares lasting 60 minutes or more, which are closely associated with CMEs
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Events</span>
+              <Badge variant="outline">{durationAnalysis?.longDurationEvents ?? 0}</Badge>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Avg Rise / Decay</span>
+              <span className="text-sm font-medium">
+                {(durationAnalysis?.avgRiseMinutes ?? 0).toFixed(0)} /{" "}
+                {(durationAnalysis?.avgDecayMinutes ?? 0).toFixed(0)} min
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Avg Duration</span>
+              <span className="text-sm font-medium">
+                {(durationAnalysis?.avgDurationMinutes ?? 0).toFixed(0)} min
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">Total Fluence</span>
+              <span className="text-sm font-medium">
+                {(durationAnalysis?.totalFluence ?? 0).toExponential(2)} J/m²
+              </span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-muted-foreground">LDE Correlation</span>
+              <span className="text-sm font-bold">
+                {(durationAnalysis?.longDurationCorrelation ?? 0).toFixed(2)}
+              </span>
+            </div>
+          </div>
+          <div className="lg:col-span-2 h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={longDurationData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" />
+                <XAxis dataKey="group" stroke="var(--color-muted-foreground)" />
+                <YAxis stroke="var(--color-muted-foreground)" />
+                <Bar
+                  dataKey="volatility"
+                  fill="var(--color-chart-1)"
+                  radius={[8, 8, 0, 0]}
+                  name="Avg Volatility %"
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
       <Card>
         <CardHeader>
           <CardTitle>Lag Pattern Insights</CardTitle>
@@ -5,12 +5,16 @@ import { LineChart, Line, XAxis, YAxis, CartesianGrid, Legend, ResponsiveContain
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
-import { Loader2, Info } from "lucide-react"
-import { getComparisonData } from "@/lib/actions/comparison"
+import { Loader2, Info, Search, Plus } from "lucide-react"
+import { getCachedComparisonData, refreshComparisonData } from "@/lib/actions/comparison"
+import RefreshButton from "@/components/refresh-button"
+import FreshnessBadge from "@/components/freshness-badge"
 import type { ComparisonData } from "@/lib/actions/comparison"
+import { getSymbolListing, normalizeSymbol, searchSymbols, SYMBOL_PATTERN } from "@/lib/utils/symbol-directory"
 
-const STOCKS = ["AAPL", "TSLA", "GOOGL", "BTC-USD", "^NSEI"]
+const DEFAULT_STOCKS = ["AAPL", "TSLA", "GOOGL", "BTC-USD", "^NSEI"]
 const STOCK_LABELS: Record<string, string> = {
   "AAPL": "AAPL",
   "TSLA": "TSLA",
@@ -19,8 +23,15 @@ const STOCK_LABELS: Record<string, string> = {
   "^NSEI": "NIFTY"
 }
 
+// Colors for symbols added from search, after the five defaults
+const EXTRA_COLORS = ["#ec4899", "#14b8a6", "#eab308", "#6366f1", "#84cc16", "#f97316"]
+
+const labelFor = (symbol: string) => STOCK_LABELS[symbol] ?? symbol
+
 export default function ComparisonDashboard() {
+  const [stocks, setStocks] = useState(DEFAULT_STOCKS)
   const [selectedStocks, setSelectedStocks] = useState(["AAPL", "TSLA"])
+  const [query, setQuery] = useState("")
   const [data, setData] = useState<ComparisonData | null>(null)
   const [loading, setLoading] = useState(true)
 
@@ -28,23 +39,23 @@ export default function ComparisonDashboard() {
     fetchComparisonDataFromServer()
   }, [])
 
-  const fetchComparisonDataFromServer = async () => {
+  const fetchComparisonDataFromServer = async (symbols: string[] = stocks, refresh = false) => {
     try {
-      const result = await getComparisonData({ symbols: STOCKS })
+      const result = await (refresh ? refreshComparisonData : getCachedComparisonData)({ symbols })
       console.log("Fetched comparison data:", result)
       setData(result)
     } catch (err) {
       console.error("Error fetching comparison:", err)
-      setSampleComparisonData()
+      setSampleComparisonData(symbols)
     } finally {
       setLoading(false)
     }
   }
 
-  const setSampleComparisonData = () => {
+  const setSampleComparisonData = (symbols: string[] = stocks) => {
     setData({
-      symbols: STOCKS,
-      comparisons: STOCKS.map(symbol => ({
+      symbols,
+      comparisons: symbols.map(symbol => ({
         symbol,
         avgVolatility: Math.random() * 10,
         maxVolatility: Math.random() * 15,
@@ -62,6 +73,7 @@ export default function ComparisonDashboard() {
         { date: "02-07", AAPL: 12.7, TSLA: 15.3, GOOGL: 11.2, "BTC-USD": 16.5, "^NSEI": 8.1 },
         { date: "02-08", AAPL: 10.2, TSLA: 12.1, GOOGL: 9.5, "BTC-USD": 13.2, "^NSEI": 6.8 },
       ],
+      volatilityEstimator: 'range-change',
       summary: {
         mostVolatile: 'BTC-USD',
         leastVolatile: '^NSEI',
@@ -98,6 +110,23 @@ export default function ComparisonDashboard() {
     setSelectedStocks((prev) => (prev.includes(stock) ? prev.filter((s) => s !== stock) : [...prev, stock]))
   }
 
+  // Directory matches for the search box; unlisted symbols can still be added as typed
+  const searchResults = searchSymbols(query, { limit: 8 })
+  const typedSymbol = normalizeSymbol(query)
+  const canAddTyped = SYMBOL_PATTERN.test(typedSymbol) && !searchResults.some((r) => r.symbol === typedSymbol)
+
+  const addStock = (symbol: string) => {
+    const normalized = normalizeSymbol(symbol)
+    setQuery("")
+    setSelectedStocks((prev) => (prev.includes(normalized) ? prev : [...prev, normalized]))
+    if (stocks.includes(normalized)) {
+      return
+    }
+    const nextStocks = [...stocks, normalized]
+    setStocks(nextStocks)
+    fetchComparisonDataFromServer(nextStocks)
+  }
+
   // Generate dynamic key observations from actual data
   const getKeyObservations = () => {
     if (!data?.summary || !data?.comparisons) {
@@ -116,7 +145,7 @@ export default function ComparisonDashboard() {
     if (mostVolatile) {
       observations.push({
         title: "🚀 Highest Volatility",
-        description: `${STOCK_LABELS[mostVolatile.symbol]} demonstrates the highest volatility among all tracked assets, with an average volatility of ${mostVolatile.avgVolatility.toFixed(2)}% and reaching peak volatility of ${mostVolatile.maxVolatility.toFixed(2)}%. This makes it the most reactive asset to market movements.`,
+        description: `${labelFor(mostVolatile.symbol)} demonstrates the highest volatility among all tracked assets, with an average volatility of ${mostVolatile.avgVolatility.toFixed(2)}% and reaching peak volatility of ${mostVolatile.maxVolatility.toFixed(2)}%. This makes it the most reactive asset to market movements.`,
         color: "blue"
       })
     }
@@ -126,7 +155,7 @@ export default function ComparisonDashboard() {
     if (leastVolatile) {
       observations.push({
         title: "🛡️ Most Stable Asset",
-        description: `${STOCK_LABELS[leastVolatile.symbol]} shows the lowest volatility with an average of ${leastVolatile.avgVolatility.toFixed(2)}%, making it an ideal choice for conservative investors seeking stable returns and portfolio hedging against market turbulence.`,
+        description: `${labelFor(leastVolatile.symbol)} shows the lowest volatility with an average of ${leastVolatile.avgVolatility.toFixed(2)}%, making it an ideal choice for conservative investors seeking stable returns and portfolio hedging against market turbulence.`,
         color: "green"
       })
     }
@@ -136,7 +165,7 @@ export default function ComparisonDashboard() {
     if (highestPrice) {
       observations.push({
         title: "💰 Highest Price Point",
-        description: `${STOCK_LABELS[highestPrice.symbol]} is currently trading at the highest average price of $${highestPrice.avgClose.toFixed(2)} among all compared assets, with a maximum closing price of $${highestPrice.maxClose.toFixed(2)} during the analysis period.`,
+        description: `${labelFor(highestPrice.symbol)} is currently trading at the highest average price of $${highestPrice.avgClose.toFixed(2)} among all compared assets, with a maximum closing price of $${highestPrice.maxClose.toFixed(2)} during the analysis period.`,
         color: "purple"
       })
     }
@@ -146,7 +175,7 @@ export default function ComparisonDashboard() {
     if (lowestPrice) {
       observations.push({
         title: "📊 Most Accessible Entry",
-        description: `${STOCK_LABELS[lowestPrice.symbol]} offers the lowest entry point at an average price of $${lowestPrice.avgClose.toFixed(2)}, making it the most accessible asset for investors with smaller capital allocation while maintaining ${lowestPrice.dataPoints} days of trading data.`,
+        description: `${labelFor(lowestPrice.symbol)} offers the lowest entry point at an average price of $${lowestPrice.avgClose.toFixed(2)}, making it the most accessible asset for investors with smaller capital allocation while maintaining ${lowestPrice.dataPoints} days of trading data.`,
         color: "orange"
       })
     }
@@ -171,27 +200,80 @@ export default function ComparisonDashboard() {
     "BTC-USD": "#f59e0b", // Orange
     "^NSEI": "#8b5cf6", // Purple
   }
+  const colorFor = (stock: string) =>
+    colors[stock] ?? EXTRA_COLORS[Math.max(0, stocks.indexOf(stock) - DEFAULT_STOCKS.length) % EXTRA_COLORS.length]
 
   return (
     <div className="p-6 space-y-6">
+      <div className="flex items-center justify-end gap-2">
+        <FreshnessBadge provenance={data?.provenance} />
+        <RefreshButton onRefresh={() => fetchComparisonDataFromServer(stocks, true)} />
+      </div>
       <Card>
         <CardHeader>
           <CardTitle>Stock Selector</CardTitle>
           <CardDescription>Compare how different assets respond to solar activity</CardDescription>
         </CardHeader>
-        <CardContent>
+        <CardContent className="space-y-4">
           <div className="flex flex-wrap gap-2">
-            {STOCKS.map((stock) => (
+            {stocks.map((stock) => (
               <Button
                 key={stock}
                 variant={selectedStocks.includes(stock) ? "default" : "outline"}
                 onClick={() => toggleStock(stock)}
                 className="rounded-full"
               >
-                {STOCK_LABELS[stock]}
+                {labelFor(stock)}
               </Button>
             ))}
           </div>
+          <div className="relative max-w-md">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && (searchResults[0] || canAddTyped)) {
+                  addStock(searchResults[0]?.symbol ?? typedSymbol)
+                }
+              }}
+              placeholder="Search symbols, e.g. RELIANCE, bitcoin, BRK-B"
+              className="pl-9"
+              aria-label="Search symbols"
+            />
+            {query && (searchResults.length > 0 || canAddTyped) && (
+              <div className="absolute z-10 mt-1 w-full rounded-md border bg-popover shadow-md">
+                {searchResults.map((result) => (
+                  <button
+                    key={result.symbol}
+                    type="button"
+                    onClick={() => addStock(result.symbol)}
+                    className="flex w-full items-center justify-between gap-2 px-3 py-2 text-left text-sm hover:bg-accent"
+                  >
+                    <span>
+                      <span className="font-semibold">{result.symbol}</span>
+                      <span className="ml-2 text-muted-foreground">{result.name}</span>
+                    </span>
+                    <span className="flex gap-1">
+                      <Badge variant="outline">{result.exchange}</Badge>
+                      <Badge variant="outline">{result.currency}</Badge>
+                      <Badge variant="secondary">{result.assetClass}</Badge>
+                    </span>
+                  </button>
+                ))}
+                {canAddTyped && (
+                  <button
+                    type="button"
+                    onClick={() => addStock(typedSymbol)}
+                    className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm hover:bg-accent"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add &quot;{typedSymbol}&quot;
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -208,7 +290,7 @@ export default function ComparisonDashboard() {
               <YAxis stroke="var(--color-muted-foreground)" />
               <Legend />
               {selectedStocks.map((stock) => (
-                <Line key={stock} type="monotone" dataKey={stock} stroke={colors[stock]} strokeWidth={2} name={STOCK_LABELS[stock]} />
+                <Line key={stock} type="monotone" dataKey={stock} stroke={colorFor(stock)} strokeWidth={2} name={labelFor(stock)} />
               ))}
             </LineChart>
           </ResponsiveContainer>
@@ -217,7 +299,7 @@ export default function ComparisonDashboard() {
 
       <TooltipProvider>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
-          {STOCKS.map((stock) => {
+          {stocks.map((stock) => {
             const stockDescriptions: Record<string, string> = {
               "AAPL": "Apple Inc. - Technology giant known for iPhone, iPad, and Mac products. Tracks how solar activity affects tech sector volatility.",
               "TSLA": "Tesla Inc. - Electric vehicle and clean energy company. High-growth stock with sensitivity to market sentiment and solar patterns.",
@@ -225,18 +307,22 @@ export default function ComparisonDashboard() {
               "BTC-USD": "Bitcoin - Leading cryptocurrency and digital asset. Known for high volatility and potential sensitivity to cosmic events.",
               "^NSEI": "NIFTY 50 - India's benchmark stock index representing top 50 companies. Provides international market perspective on solar correlations."
             }
+            const listing = getSymbolListing(stock)
+            const description = stockDescriptions[stock] ?? (listing
+              ? `${listing.name} - ${listing.assetClass} on ${listing.exchange}, quoted in ${listing.currency}.`
+              : `${stock} - not in the symbol directory; data comes straight from the stock providers.`)
             
             return (
               <Card key={stock} className={selectedStocks.includes(stock) ? "ring-2 ring-primary" : ""}>
                 <CardHeader className="pb-2">
                   <CardTitle className="text-sm flex items-center gap-2">
-                    {STOCK_LABELS[stock]}
+                    {labelFor(stock)}
                     <Tooltip>
                       <TooltipTrigger asChild>
                         <Info className="w-3 h-3 cursor-help" />
                       </TooltipTrigger>
                       <TooltipContent>
-                        <p className="max-w-xs">{stockDescriptions[stock]}</p>
+                        <p className="max-w-xs">{description}</p>
                       </TooltipContent>
                     </Tooltip>
                   </CardTitle>
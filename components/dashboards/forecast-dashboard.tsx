@@ -6,7 +6,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { Loader2, Info } from "lucide-react"
-import { getForecastData } from "@/lib/actions/forecast"
+import { getCachedForecastData, refreshForecastData } from "@/lib/actions/forecast"
+import RefreshButton from "@/components/refresh-button"
+import FreshnessBadge from "@/components/freshness-badge"
 import type { ForecastData } from "@/lib/api/types"
 
 interface ForecastState {
@@ -26,9 +28,9 @@ export default function ForecastDashboard() {
     fetchForecastDataFromServer()
   }, [])
 
-  const fetchForecastDataFromServer = async () => {
+  const fetchForecastDataFromServer = async (refresh = false) => {
     try {
-      const result = await getForecastData()
+      const result = await (refresh ? refreshForecastData : getCachedForecastData)()
       console.log("Fetched forecast data:", result)
       
       // Transform predictions into chart data format
@@ -78,6 +80,7 @@ export default function ForecastDashboard() {
         confidence: 0.78,
         trend: "declining",
         predictions: [],
+        volatilityEstimator: "range-change",
       },
       chartData: [...historical, ...forecast],
       loading: false,
@@ -96,6 +99,10 @@ export default function ForecastDashboard() {
 
   return (
     <div className="p-6 space-y-6">
+      <div className="flex items-center justify-end gap-2">
+        <FreshnessBadge provenance={state.data?.provenance} />
+        <RefreshButton onRefresh={() => fetchForecastDataFromServer(true)} />
+      </div>
       <TooltipProvider>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card className="border-l-4 border-l-primary">
@@ -6,7 +6,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { AlertCircle } from "lucide-react"
 import { Loader2 } from "lucide-react"
-import { getInsightsData } from "@/lib/actions/insights"
+import { getCachedInsightsData, refreshInsightsData } from "@/lib/actions/insights"
+import RefreshButton from "@/components/refresh-button"
+import FreshnessBadge from "@/components/freshness-badge"
 import type { InsightsData } from "@/lib/actions/insights"
 
 export default function InsightsDashboard() {
@@ -17,9 +19,9 @@ export default function InsightsDashboard() {
     fetchInsightsDataFromServer()
   }, [])
 
-  const fetchInsightsDataFromServer = async () => {
+  const fetchInsightsDataFromServer = async (refresh = false) => {
     try {
-      const result = await getInsightsData()
+      const result = await (refresh ? refreshInsightsData : getCachedInsightsData)()
       setData(result)
     } catch (err) {
       console.error("Error fetching insights:", err)
@@ -72,6 +74,7 @@ export default function InsightsDashboard() {
         totalInsights: 4,
         highSeverityCount: 1,
         avgConfidence: 0.74,
+        volatilityEstimator: "range-change",
       },
       generatedAt: new Date().toISOString(),
     })
@@ -105,6 +108,10 @@ export default function InsightsDashboard() {
 
   return (
     <div className="p-6 space-y-6">
+      <div className="flex items-center justify-end gap-2">
+        <FreshnessBadge provenance={data?.provenance} />
+        <RefreshButton onRefresh={() => fetchInsightsDataFromServer(true)} />
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card className="border-l-4 border-l-destructive md:col-span-2">
           <CardHeader>
@@ -19,7 +19,10 @@ import {
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Loader2 } from "lucide-react"
-import { getDashboardData } from "@/lib/actions/dashboard"
+import { getCachedDashboardData, refreshDashboardData } from "@/lib/actions/dashboard"
+import RefreshButton from "@/components/refresh-button"
+import FreshnessBadge from "@/components/freshness-badge"
+import { fluxToClass } from "@/lib/utils/goes-flux"
 import type { DashboardData } from "@/lib/api/types"
 
 interface DashboardState extends DashboardData {
@@ -39,7 +42,11 @@ export default function ModernDashboard() {
       totalTrades: 0,
       correlation: 0,
       maxFlare: 0,
+      maxFlux: 0,
       maxVolatility: 0,
+      sunspotCorrelation: 0,
+      f107Correlation: 0,
+      volatilityEstimator: "range-change",
     },
     loading: true,
     error: null,
@@ -49,10 +56,10 @@ export default function ModernDashboard() {
     fetchDashboardData()
   }, [])
 
-  const fetchDashboardData = async () => {
+  const fetchDashboardData = async (refresh = false) => {
     try {
-      setData((prev) => ({ ...prev, loading: true, error: null }))
-      const result = await getDashboardData()
+      setData((prev) => ({ ...prev, loading: !refresh, error: null }))
+      const result = await (refresh ? refreshDashboardData : getCachedDashboardData)()
       setData({
         ...result,
         loading: false,
@@ -107,7 +114,11 @@ export default function ModernDashboard() {
         totalTrades: 10200,
         correlation: 0.38,
         maxFlare: 4.9,
+        maxFlux: 7.9e-5,
         maxVolatility: 12.7,
+        sunspotCorrelation: 0.21,
+        f107Correlation: 0.24,
+        volatilityEstimator: "range-change",
       },
       loading: false,
       error: null,
@@ -124,13 +135,17 @@ export default function ModernDashboard() {
 
   return (
     <div className="p-6 space-y-6">
+      <div className="flex items-center justify-end gap-2">
+        <FreshnessBadge provenance={data.provenance} />
+        <RefreshButton onRefresh={() => fetchDashboardData(true)} />
+      </div>
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card className="border-l-4 border-l-primary">
           <CardHeader className="pb-2">
             <CardTitle className="text-sm text-muted-foreground">Latest Flare</CardTitle>
           </CardHeader>
           <CardContent>
-            <p className="text-2xl font-bold">X{data.stats.maxFlare?.toFixed(1) || "2.8"}</p>
+            <p className="text-2xl font-bold">{data.stats.maxFlux ? fluxToClass(data.stats.maxFlux) : "M7.9"}</p>
             <Badge className="mt-2 bg-primary/20 text-primary border-primary/30">Active</Badge>
           </CardContent>
         </Card>
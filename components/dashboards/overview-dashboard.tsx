@@ -19,7 +19,11 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { Loader2, Info } from "lucide-react"
-import { getDashboardData } from "@/lib/actions/dashboard"
+import { getCachedDashboardData, refreshDashboardData } from "@/lib/actions/dashboard"
+import RefreshButton from "@/components/refresh-button"
+import FreshnessBadge from "@/components/freshness-badge"
+import { fluxToClass } from "@/lib/utils/goes-flux"
+import type { DataProvenance } from "@/lib/api/types"
 
 interface DashboardData {
   composedData: any[]
@@ -27,6 +31,7 @@ interface DashboardData {
   distributionData: any[]
   heatmapData: any[]
   stats: any
+  provenance?: DataProvenance
   loading: boolean
   error: string | null
 }
@@ -46,10 +51,10 @@ export default function OverviewDashboard() {
     fetchDashboardData()
   }, [])
 
-  const fetchDashboardData = async () => {
+  const fetchDashboardData = async (refresh = false) => {
     try {
-      setData((prev) => ({ ...prev, loading: true, error: null }))
-      const result = await getDashboardData()
+      setData((prev) => ({ ...prev, loading: !refresh, error: null }))
+      const result = await (refresh ? refreshDashboardData : getCachedDashboardData)()
       setData({
         ...result,
         loading: false,
@@ -100,6 +105,7 @@ export default function OverviewDashboard() {
         totalTrades: 10200,
         correlation: 0.38,
         maxFlare: 4.9,
+        maxFlux: 7.9e-5,
         maxVolatility: 12.7,
       },
       loading: false,
@@ -117,6 +123,10 @@ export default function OverviewDashboard() {
 
   return (
     <div className="p-6 space-y-6">
+      <div className="flex items-center justify-end gap-2">
+        <FreshnessBadge provenance={data.provenance} />
+        <RefreshButton onRefresh={() => fetchDashboardData(true)} />
+      </div>
       <TooltipProvider>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card className="border-l-4 border-l-primary">
@@ -128,13 +138,13 @@ export default function OverviewDashboard() {
                     <Info className="w-3 h-3 cursor-help" />
                   </TooltipTrigger>
                   <TooltipContent>
-                    <p className="max-w-xs">Most recent solar flare intensity classification (X, M, or C class)</p>
+                    <p className="max-w-xs">Strongest GOES X-ray flare class in the period (X, M, C, B, or A class)</p>
                   </TooltipContent>
                 </Tooltip>
               </CardTitle>
             </CardHeader>
             <CardContent>
-              <p className="text-2xl font-bold">X{data.stats.maxFlare?.toFixed(1) || "2.8"}</p>
+              <p className="text-2xl font-bold">{data.stats.maxFlux ? fluxToClass(data.stats.maxFlux) : "M7.9"}</p>
               <Badge className="mt-2 bg-primary/20 text-primary border-primary/30">Active</Badge>
             </CardContent>
           </Card>
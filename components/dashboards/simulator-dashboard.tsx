@@ -8,7 +8,9 @@ import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { Loader2, Info } from "lucide-react"
-import { getSimulatorData } from "@/lib/actions/simulator"
+import { getCachedSimulatorData, refreshSimulatorData } from "@/lib/actions/simulator"
+import RefreshButton from "@/components/refresh-button"
+import FreshnessBadge from "@/components/freshness-badge"
 import type { SimulatorData, ScenarioType } from "@/lib/actions/simulator"
 
 export default function SimulatorDashboard() {
@@ -37,10 +39,10 @@ export default function SimulatorDashboard() {
     return 'baseline'
   }
 
-  const fetchSimulatorDataFromServer = async (scenario: ScenarioType = 'baseline') => {
+  const fetchSimulatorDataFromServer = async (scenario: ScenarioType = 'baseline', refresh = false) => {
     try {
-      setLoading(true)
-      const result = await getSimulatorData({ scenario, days: 14 })
+      setLoading(!refresh)
+      const result = await (refresh ? refreshSimulatorData : getCachedSimulatorData)({ scenario, days: 14 })
       console.log("Fetched simulator data:", result)
       setData(result)
     } catch (err) {
@@ -61,6 +63,7 @@ export default function SimulatorDashboard() {
         avgVolatility: 5.0,
         totalVolume: 1000000,
         riskLevel: 'medium',
+        volatilityEstimator: 'range-change',
       },
       assumptions: ['Sample data'],
     })
@@ -95,6 +98,10 @@ export default function SimulatorDashboard() {
 
   return (
     <div className="p-6 space-y-6">
+      <div className="flex items-center justify-end gap-2">
+        <FreshnessBadge provenance={data?.provenance} />
+        <RefreshButton onRefresh={() => fetchSimulatorDataFromServer(currentScenario, true)} />
+      </div>
       <TooltipProvider>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card className="border-l-4 border-l-primary md:col-span-2">
@@ -0,0 +1,267 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import {
+  Line,
+  Bar,
+  Scatter,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Legend,
+  ResponsiveContainer,
+  ComposedChart,
+  ScatterChart,
+  BarChart,
+} from "recharts"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { Loader2, Info } from "lucide-react"
+import { getCachedStormData, refreshStormData } from "@/lib/actions/storm"
+import RefreshButton from "@/components/refresh-button"
+import FreshnessBadge from "@/components/freshness-badge"
+import type { StormData } from "@/lib/actions/storm"
+
+export default function StormDashboard() {
+  const [data, setData] = useState<StormData | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchStormDataFromServer()
+  }, [])
+
+  const fetchStormDataFromServer = async (refresh = false) => {
+    try {
+      const result = await (refresh ? refreshStormData : getCachedStormData)()
+      setData(result)
+    } catch (err) {
+      console.error("Error fetching storm data:", err)
+      setSampleStormData()
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const setSampleStormData = () => {
+    const timeSeriesData = [
+      { date: "02-02", kp: null, volatility: 2.1, volume: 1200000 },
+      { date: "02-03", kp: 5.33, volatility: 3.4, volume: 1500000 },
+      { date: "02-04", kp: 6.67, volatility: 4.8, volume: 1900000 },
+      { date: "02-05", kp: 5.0, volatility: 3.1, volume: 1400000 },
+      { date: "02-06", kp: null, volatility: 2.3, volume: 1100000 },
+      { date: "02-07", kp: null, volatility: 1.9, volume: 1000000 },
+      { date: "02-08", kp: 7.33, volatility: 5.6, volume: 2300000 },
+    ]
+
+    setData({
+      summary: {
+        stormDays: 4,
+        tradingDaysWithStorm: 4,
+        maxKp: 7.33,
+        avgKp: 6.08,
+        avgVolatilityStormDays: 4.2,
+        avgVolatilityQuietDays: 2.1,
+        kpCorrelation: 0.61,
+        flareCorrelation: 0.38,
+        volatilityEstimator: "range-change",
+      },
+      byStormLevel: { None: 0, G1: 2, G2: 1, G3: 1, G4: 0, G5: 0 },
+      kpSeries: [],
+      timeSeriesData,
+      correlationData: timeSeriesData
+        .filter((d) => d.kp !== null)
+        .map((d) => ({ kp: d.kp as number, volatility: d.volatility })),
+    })
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-96">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    )
+  }
+
+  const summary = data?.summary
+  const stormLevelData = data
+    ? Object.entries(data.byStormLevel)
+        .filter(([level]) => level !== "None")
+        .map(([level, count]) => ({ level, count }))
+    : []
+  const volatilityUplift =
+    summary && summary.avgVolatilityQuietDays > 0
+      ? ((summary.avgVolatilityStormDays - summary.avgVolatilityQuietDays) / summary.avgVolatilityQuietDays) * 100
+      : 0
+  const strongerDriver =
+    summary && Math.abs(summary.kpCorrelation) > Math.abs(summary.flareCorrelation) ? "Kp Index" : "Solar Flares"
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-end gap-2">
+        <FreshnessBadge provenance={data?.provenance} />
+        <RefreshButton onRefresh={() => fetchStormDataFromServer(true)} />
+      </div>
+      <TooltipProvider>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <Card className="border-l-4 border-l-primary">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground flex items-center gap-2">
+                Peak Kp
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Info className="w-3 h-3 cursor-help" />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p className="max-w-xs">Highest planetary Kp index recorded during a geomagnetic storm in the period</p>
+                  </TooltipContent>
+                </Tooltip>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">{summary?.maxKp.toFixed(2) ?? "0.00"}</p>
+              <Badge className="mt-2 bg-primary/20 text-primary border-primary/30">
+                {summary?.stormDays ?? 0} Storm Days
+              </Badge>
+            </CardContent>
+          </Card>
+
+          <Card className="border-l-4 border-l-accent">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground flex items-center gap-2">
+                Kp Correlation
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Info className="w-3 h-3 cursor-help" />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p className="max-w-xs">Pearson correlation between daily max Kp and volatility on storm trading days</p>
+                  </TooltipContent>
+                </Tooltip>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">{summary?.kpCorrelation.toFixed(2) ?? "0.00"}</p>
+              <Badge className="mt-2 bg-accent/20 text-accent border-accent/30">
+                {summary?.tradingDaysWithStorm ?? 0} Trading Days
+              </Badge>
+            </CardContent>
+          </Card>
+
+          <Card className="border-l-4 border-l-secondary">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground flex items-center gap-2">
+                Flare Correlation
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Info className="w-3 h-3 cursor-help" />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p className="max-w-xs">Pearson correlation between flare intensity and volatility, for comparison</p>
+                  </TooltipContent>
+                </Tooltip>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">{summary?.flareCorrelation.toFixed(2) ?? "0.00"}</p>
+              <Badge className="mt-2 bg-secondary/20 text-secondary border-secondary/30">
+                Stronger: {strongerDriver}
+              </Badge>
+            </CardContent>
+          </Card>
+
+          <Card className="border-l-4 border-l-chart-1">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-sm text-muted-foreground flex items-center gap-2">
+                Storm-Day Volatility
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <Info className="w-3 h-3 cursor-help" />
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    <p className="max-w-xs">Average volatility on storm trading days compared with quiet trading days</p>
+                  </TooltipContent>
+                </Tooltip>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-2xl font-bold">{summary?.avgVolatilityStormDays.toFixed(1) ?? "0.0"}%</p>
+              <Badge className="mt-2 bg-chart-1/20 text-chart-1 border-chart-1/30">
+                {volatilityUplift >= 0 ? "+" : ""}
+                {volatilityUplift.toFixed(0)}% vs Quiet
+              </Badge>
+            </CardContent>
+          </Card>
+        </div>
+      </TooltipProvider>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Kp Index vs Volatility</CardTitle>
+          <CardDescription>Daily max Kp from DONKI geomagnetic storms against market volatility</CardDescription>
+        </CardHeader>
+        <CardContent className="h-80">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data?.timeSeriesData || []}>
+              <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" />
+              <XAxis dataKey="date" stroke="var(--color-muted-foreground)" />
+              <YAxis stroke="var(--color-muted-foreground)" yAxisId="left" domain={[0, 9]} />
+              <YAxis stroke="var(--color-muted-foreground)" yAxisId="right" orientation="right" />
+              <Legend />
+              <Bar dataKey="kp" fill="var(--color-primary)" yAxisId="left" name="Max Kp" radius={[4, 4, 0, 0]} />
+              <Line
+                type="monotone"
+                dataKey="volatility"
+                stroke="var(--color-accent)"
+                strokeWidth={2}
+                yAxisId="right"
+                name="Volatility %"
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Kp Correlation</CardTitle>
+            <CardDescription>Storm trading days: Kp vs volatility</CardDescription>
+          </CardHeader>
+          <CardContent className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" />
+                <XAxis type="number" dataKey="kp" name="Kp" domain={[0, 9]} stroke="var(--color-muted-foreground)" />
+                <YAxis type="number" dataKey="volatility" name="Volatility %" stroke="var(--color-muted-foreground)" />
+                <Scatter
+                  name="Storm Days"
+                  data={data?.correlationData || []}
+                  fill="var(--color-primary)"
+                  fillOpacity={0.6}
+                />
+              </ScatterChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Storm Levels</CardTitle>
+            <CardDescription>Storm days by NOAA G-scale</CardDescription>
+          </CardHeader>
+          <CardContent className="h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={stormLevelData}>
+                <CartesianGrid strokeDasharray="3 3" stroke="var(--color-border)" />
+                <XAxis dataKey="level" stroke="var(--color-muted-foreground)" />
+                <YAxis stroke="var(--color-muted-foreground)" allowDecimals={false} />
+                <Bar dataKey="count" fill="var(--color-accent)" radius={[8, 8, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+"use client"
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import type { DataProvenance, SourceProvenance } from "@/lib/api/types"
+
+const SOURCE_LABELS: Record<string, string> = {
+  flares: "Flares",
+  stock: "Stock",
+  "solar-indices": "Solar indices",
+  "kp-index": "Kp index",
+  "event-graph": "Event links",
+}
+
+/**
+ * Age of an ISO time, e.g. "just now", "12m ago", "3h ago"
+ */
+function formatAge(time: string, now: number): string {
+  const minutes = Math.max(0, Math.floor((now - Date.parse(time)) / 60000))
+  if (minutes < 1) return "just now"
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.floor(minutes / 60)
+  return hours < 48 ? `${hours}h ago` : `${Math.floor(hours / 24)}d ago`
+}
+
+function describeSource(source: SourceProvenance): string {
+  const label = `${SOURCE_LABELS[source.source] || source.source}${source.symbol ? ` ${source.symbol}` : ""}`
+  const origin = source.providers.length > 0
+    ? source.providers.join(", ")
+    : source.store === "hit" ? "local store" : "no provider"
+  const notes = [
+    source.fallback ? "fallback" : "",
+    source.failedProviders.length > 0 ? `${source.failedProviders.join(", ")} failed` : "",
+  ].filter(Boolean)
+
+  return `${label}: ${source.recordCount} records from ${origin}${notes.length > 0 ? ` (${notes.join("; ")})` : ""}`
+}
+
+/**
+ * Shows how fresh a dashboard's data is and where it came from, built
+ * from the provenance envelope of the action response
+ */
+export default function FreshnessBadge({ provenance }: { provenance?: DataProvenance }) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60 * 1000)
+    return () => clearInterval(timer)
+  }, [])
+
+  if (!provenance) {
+    return <Badge variant="outline">Sample data</Badge>
+  }
+
+  const status = provenance.degraded
+    ? { label: provenance.partial ? "Partial" : "Degraded", className: "bg-destructive/20 text-destructive border-destructive/30" }
+    : provenance.cache === "hit"
+      ? { label: "Cached", className: "bg-secondary/20 text-secondary border-secondary/30" }
+      : { label: "Live", className: "bg-primary/20 text-primary border-primary/30" }
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge className={`cursor-help ${status.className}`}>
+            {status.label} · {formatAge(provenance.generatedAt, now)}
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent>
+          <div className="max-w-xs space-y-1">
+            <p>
+              Built {new Date(provenance.generatedAt).toLocaleString()}
+              {provenance.cache === "hit" ? ", served from cache" : ""}
+            </p>
+            {provenance.sources.map((source) => (
+              <p key={`${source.source}-${source.symbol || ""}`}>{describeSource(source)}</p>
+            ))}
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  )
+}
@@ -0,0 +1,82 @@
+"use client"
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { getQuotaStatus, QuotaStatus as QuotaStatusData } from "@/lib/actions/quota"
+
+const POLL_INTERVAL = 30 * 1000
+
+const PROVIDER_LABELS: Record<string, string> = {
+  donki: "NASA DONKI",
+  yahoo: "Yahoo Finance",
+  alphavantage: "Alpha Vantage",
+  finnhub: "Finnhub",
+}
+
+export default function QuotaStatus() {
+  const [status, setStatus] = useState<QuotaStatusData | null>(null)
+
+  useEffect(() => {
+    const fetchStatus = async () => {
+      try {
+        setStatus(await getQuotaStatus())
+      } catch (err) {
+        console.error("[v0] Error fetching quota status:", err)
+      }
+    }
+
+    fetchStatus()
+    const timer = setInterval(fetchStatus, POLL_INTERVAL)
+    return () => clearInterval(timer)
+  }, [])
+
+  if (!status || status.rateLimits.length === 0) {
+    return null
+  }
+
+  const circuitFor = (provider: string) => status.circuits.find((circuit) => circuit.provider === provider)
+
+  return (
+    <div className="mt-4 px-4 py-4 rounded-lg border border-border mx-2 space-y-3">
+      <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">API Quota</p>
+      {status.rateLimits.map((quota) => {
+        const circuit = circuitFor(quota.provider)
+        // Prefer the provider's own count when it reports one
+        const used = quota.reportedLimit !== undefined && quota.remaining !== undefined
+          ? { left: quota.remaining, of: quota.reportedLimit }
+          : { left: quota.available, of: quota.limit }
+
+        return (
+          <div key={quota.provider} className="space-y-1">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs font-medium">{PROVIDER_LABELS[quota.provider] || quota.provider}</p>
+              <p className="text-xs text-muted-foreground">
+                {used.left}/{used.of}
+              </p>
+            </div>
+            <Progress
+              value={used.of > 0 ? (used.left / used.of) * 100 : 0}
+              className={quota.nearLimit ? "bg-destructive/20" : undefined}
+            />
+            <div className="flex flex-wrap gap-1">
+              {quota.nearLimit && (
+                <Badge className="bg-destructive/20 text-destructive border-destructive/30 text-[10px]">Near limit</Badge>
+              )}
+              {quota.queued > 0 && (
+                <Badge className="bg-secondary/20 text-secondary border-secondary/30 text-[10px]">{quota.queued} queued</Badge>
+              )}
+              {quota.shed > 0 && (
+                <Badge className="bg-muted text-muted-foreground text-[10px]">{quota.shed} shed</Badge>
+              )}
+              {circuit && circuit.state !== "closed" && (
+                <Badge className="bg-destructive/20 text-destructive border-destructive/30 text-[10px]">
+                  Circuit {circuit.state}
+                </Badge>
+              )}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+"use client"
+import { useState } from "react"
+import { RefreshCw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+
+interface RefreshButtonProps {
+  onRefresh: () => Promise<void>
+}
+
+/**
+ * Forces a dashboard to reload from the providers instead of the cache
+ */
+export default function RefreshButton({ onRefresh }: RefreshButtonProps) {
+  const [refreshing, setRefreshing] = useState(false)
+
+  const handleClick = async () => {
+    setRefreshing(true)
+    try {
+      await onRefresh()
+    } finally {
+      setRefreshing(false)
+    }
+  }
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleClick} disabled={refreshing}>
+      <RefreshCw className={refreshing ? "w-4 h-4 animate-spin" : "w-4 h-4"} />
+      {refreshing ? "Refreshing..." : "Refresh"}
+    </Button>
+  )
+}
@@ -1,6 +1,7 @@
 "use client"
-import { BarChart3, TrendingUp, Zap, Brain, GitCompare, Wand2 } from "lucide-react"
+import { BarChart3, TrendingUp, Zap, Magnet, Brain, GitCompare, Wand2 } from "lucide-react"
 import { cn } from "@/lib/utils"
+import QuotaStatus from "@/components/quota-status"
 
 interface SidebarProps {
   activePage: string
@@ -12,6 +13,7 @@ export default function Sidebar({ activePage, onPageChange }: SidebarProps) {
     { id: "overview", label: "Overview", icon: BarChart3, description: "Core metrics & activity" },
     { id: "forecast", label: "Forecast", icon: TrendingUp, description: "Predictions & trends" },
     { id: "analysis", label: "Analysis", icon: Zap, description: "Lag & correlation" },
+    { id: "storm", label: "Storms", icon: Magnet, description: "Kp index vs volatility" },
     { id: "insights", label: "Insights", icon: Brain, description: "AI patterns & alerts" },
     { id: "comparison", label: "Comparison", icon: GitCompare, description: "Multi-stock view" },
     { id: "simulator", label: "Simulator", icon: Wand2, description: "What-if scenarios" },
@@ -50,6 +52,8 @@ export default function Sidebar({ activePage, onPageChange }: SidebarProps) {
         })}
       </nav>
 
+      <QuotaStatus />
+
       <div className="mt-8 px-4 py-4 bg-primary/5 rounded-lg border border-primary/20 mx-2">
         <p className="text-xs font-semibold text-primary mb-1">💡 Tip</p>
         <p className="text-xs text-muted-foreground">Each tab reveals different insights into solar-market dynamics.</p>
@@ -1,15 +1,29 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest'
-import { getDashboardData } from '../dashboard'
+import { revalidateTag, unstable_cache } from 'next/cache'
+import { getDashboardData, getCachedDashboardData, refreshDashboardData } from '../dashboard'
 import * as nasaModule from '../../api/nasa'
 import * as stockModule from '../../api/stock'
+import * as solarIndicesModule from '../../api/solar-indices'
 
 // Mock the API client modules
 vi.mock('../../api/nasa')
 vi.mock('../../api/stock')
+vi.mock('../../api/solar-indices')
+vi.mock('next/cache', () => ({
+  revalidateTag: vi.fn(),
+  unstable_cache: vi.fn((fn: () => Promise<unknown>) => fn),
+}))
 
 describe('getDashboardData', () => {
   beforeEach(() => {
     vi.clearAllMocks()
+    // Read straight from the mocked clients instead of the on-disk store
+    vi.stubEnv('TIMESERIES_STORE', 'off')
+
+    vi.mocked(solarIndicesModule.SolarIndexClient).mockImplementation(function (this: any) {
+      this.getSolarIndices = vi.fn().mockResolvedValue([])
+      return this
+    } as any)
   })
 
   it('should return dashboard data with default parameters', async () => {
@@ -75,7 +89,10 @@ describe('getDashboardData', () => {
       return this
     } as any)
 
-    const result = await getDashboardData()
+    // The default range is the last 30 days, so it has to include the mocked day
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-01-15T12:00:00Z'))
+    const result = await getDashboardData().finally(() => vi.useRealTimers())
 
     expect(result).toBeDefined()
     expect(result.composedData).toHaveLength(1)
@@ -84,6 +101,7 @@ describe('getDashboardData', () => {
       flare: 2.5,
       volatility: 4.6,
       trades: 1000000,
+      flareCount: 1,
     })
     expect(result.stats.avgFlare).toBe(2.5)
     expect(result.stats.avgVolatility).toBe(4.6)
@@ -211,6 +229,56 @@ describe('getDashboardData', () => {
     })
 
     expect(mockGetFlareEvents).toHaveBeenCalledWith('2024-01-01', '2024-01-31')
-    expect(mockGetStockData).toHaveBeenCalledWith('TSLA', '1mo')
+    expect(mockGetStockData).toHaveBeenCalledWith('TSLA', { startDate: '2024-01-01', endDate: '2024-01-31' })
+  })
+})
+
+describe('dashboard cache invalidation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('TIMESERIES_STORE', 'off')
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    vi.mocked(nasaModule.NASAClient).mockImplementation(function (this: any) {
+      this.getFlareEvents = vi.fn().mockResolvedValue([])
+      this.transformFlareData = vi.fn().mockReturnValue([])
+      return this
+    } as any)
+
+    vi.mocked(stockModule.StockClient).mockImplementation(function (this: any) {
+      this.getStockData = vi.fn().mockResolvedValue([])
+      this.calculateVolatility = vi.fn().mockReturnValue([])
+      this.config = { provider: 'yahoo' }
+      return this
+    } as any)
+
+    vi.mocked(solarIndicesModule.SolarIndexClient).mockImplementation(function (this: any) {
+      this.getSolarIndices = vi.fn().mockResolvedValue([])
+      return this
+    } as any)
+  })
+
+  it('should tag cached entries by symbol and data source', async () => {
+    await getCachedDashboardData({ stockSymbol: 'tsla' })
+
+    const [, keyParts, cacheOptions] = vi.mocked(unstable_cache).mock.calls[0]
+    expect(keyParts).toEqual(['dashboard-data', JSON.stringify({ stockSymbol: 'tsla' })])
+    expect(cacheOptions?.tags).toEqual(expect.arrayContaining([
+      'dashboard',
+      'dashboard:TSLA',
+      'symbol:TSLA',
+      'source:nasa',
+      'source:stock',
+      'source:solar-indices',
+    ]))
+  })
+
+  it('should expire the symbol\'s dashboard entries before reloading', async () => {
+    const data = await refreshDashboardData({ stockSymbol: 'TSLA' })
+
+    expect(revalidateTag).toHaveBeenCalledWith('dashboard:TSLA', { expire: 0 })
+    expect(revalidateTag).toHaveBeenCalledTimes(1)
+    expect(data.provenance).toMatchObject({ cache: 'miss', degraded: false })
+    expect(data.provenance?.sources.map(source => source.source)).toEqual(['flares', 'stock', 'solar-indices'])
   })
 })
@@ -2,9 +2,10 @@
 
 import { unstable_cache } from 'next/cache'
 import { cache } from 'react'
-import { NASAClient } from '../api/nasa'
-import { StockClient } from '../api/stock'
-import { mergeDatasets } from '../utils/data-transform'
+import { refreshData } from './refresh'
+import { loadMarketDataset } from '../api/market-data'
+import { buildDataProvenance, withCacheStatus } from '../api/provenance'
+import { mergeSolarIndicesWithStock } from '../utils/data-transform'
 import { calculateCorrelation } from '../utils/correlation'
 import {
   calculateAverage,
@@ -12,7 +13,10 @@ import {
   calculateSum,
   categorizeIntensity,
 } from '../utils/statistics'
-import { FlareData, StockData } from '../api/types'
+import { intensityToFlux, fluxToClass } from '../utils/goes-flux'
+import { isLongDurationEvent } from '../utils/flare-timing'
+import { DataProvenance, FlareAggregate, FlareAlignment, FlareData, FlareLinkage, FlareLocationFilter, SolarIndexData, StockData, VolatilityEstimator } from '../api/types'
+import { getCacheTags } from '../utils/cache-tags'
 import { logError, logInfo } from '../utils/error-handling'
 
 /**
@@ -22,6 +26,15 @@ export interface AnalysisOptions {
   startDate?: string
   endDate?: string
   stockSymbol?: string
+  flareAggregate?: FlareAggregate
+  flareLinkage?: FlareLinkage
+  flareLocation?: FlareLocationFilter
+  adjustedPrices?: boolean
+  flareAlignment?: FlareAlignment
+  maxGapDays?: number  // Maximum flare age in days for 'asof' alignment
+  volatilityEstimator?: VolatilityEstimator
+  volatilityWindow?: number  // Rolling window in trading days for window estimators
+  annualizeVolatility?: boolean
 }
 
 /**
@@ -31,9 +44,17 @@ export interface AnalysisData {
   summary: {
     totalFlareEvents: number
     totalTradingDays: number
+    flareAggregate: FlareAggregate
+    flareLinkage: FlareLinkage
+    flareLocation: FlareLocationFilter
+    adjustedPrices: boolean
+    flareAlignment: FlareAlignment
+    volatilityEstimator: VolatilityEstimator
     avgFlareIntensity: number
     avgVolatility: number
     maxFlareIntensity: number
+    maxFlareFlux: number
+    peakFlareClass: string
     maxVolatility: number
     totalVolume: number
     correlationCoefficient: number
@@ -60,12 +81,38 @@ export interface AnalysisData {
     direction: 'positive' | 'negative' | 'none'
     coefficient: number
   }
+  durationAnalysis: {
+    flaresWithDuration: number
+    avgRiseMinutes: number
+    avgDecayMinutes: number
+    avgDurationMinutes: number
+    totalFluence: number
+    longDurationEvents: number
+    longDurationDays: number
+    avgVolatilityLongDurationDays: number
+    avgVolatilityOtherDays: number
+    longDurationCorrelation: number
+  }
+  solarIndexAnalysis: {
+    tradingDaysWithIndices: number
+    avgSunspotNumber: number
+    avgF107: number
+    sunspotCorrelation: number
+    f107Correlation: number
+  }
   timeSeriesData: Array<{
     date: string
     flare: number
+    flux: number
+    flareCount: number
+    longDurationCount: number
+    fluence: number
     volatility: number
     volume: number
+    sunspotNumber?: number
+    f107?: number
   }>
+  provenance?: DataProvenance  // Set by the server action; absent on client-side sample data
 }
 
 /**
@@ -97,55 +144,40 @@ async function getAnalysisDataInternal(
       stockSymbol,
     })
 
-    // Initialize API clients
-    const nasaClient = new NASAClient()
-    const stockClient = new StockClient()
-
-    // Fetch data from both APIs in parallel
-    const [nasaRawEvents, stockQuotes] = await Promise.all([
-      nasaClient.getFlareEvents(startDate, endDate).catch(error => {
-        logError(
-          'NASA API call failed in getAnalysisData',
-          error,
-          {
-            function: 'getAnalysisData',
-            provider: 'NASA',
-          }
-        )
-        return []
-      }),
-      stockClient.getStockData(stockSymbol, '1mo').catch(error => {
-        logError(
-          'Stock API call failed in getAnalysisData',
-          error,
-          {
-            function: 'getAnalysisData',
-            provider: stockClient['config'].provider,
-            symbol: stockSymbol,
-          }
-        )
-        return []
-      }),
-    ])
-
-    // Transform data
-    const flareData = nasaClient.transformFlareData(nasaRawEvents)
-    const stockData = stockClient.calculateVolatility(stockQuotes)
+    const flareLinkage = options?.flareLinkage || 'all'
+    const flareLocation = options?.flareLocation || 'all'
 
-    // Merge datasets
-    const composedData = mergeDatasets(flareData, stockData)
+    // Flares, volatility and solar indices come from the shared loader, which
+    // coalesces identical fetches across actions and never rejects
+    const { flareData, stockData, composedData, solarIndices, sources } = await loadMarketDataset({
+      ...options,
+      startDate,
+      endDate,
+      stockSymbol,
+      solarIndices: true,
+    })
 
     // Calculate summary statistics
     const flareValues = composedData.map(d => d.flare)
+    const fluxValues = composedData.map(d => d.flux ?? intensityToFlux(d.flare))
     const volatilityValues = composedData.map(d => d.volatility)
     const volumeValues = composedData.map(d => d.trades)
+    const maxFlareFlux = calculateMax(fluxValues)
 
     const summary = {
       totalFlareEvents: flareData.length,
       totalTradingDays: stockData.length,
+      flareAggregate: options?.flareAggregate || 'max',
+      flareLinkage,
+      flareLocation,
+      adjustedPrices: Boolean(options?.adjustedPrices),
+      flareAlignment: options?.flareAlignment || 'strict',
+      volatilityEstimator: options?.volatilityEstimator || 'range-change',
       avgFlareIntensity: calculateAverage(flareValues),
       avgVolatility: calculateAverage(volatilityValues),
       maxFlareIntensity: calculateMax(flareValues),
+      maxFlareFlux,
+      peakFlareClass: fluxToClass(maxFlareFlux),
       maxVolatility: calculateMax(volatilityValues),
       totalVolume: calculateSum(volumeValues),
       correlationCoefficient: calculateCorrelation(flareValues, volatilityValues),
@@ -160,12 +192,24 @@ async function getAnalysisDataInternal(
     // Analyze correlation
     const correlationAnalysis = analyzeCorrelation(summary.correlationCoefficient)
 
+    // Analyze flare durations, with long-duration events as their own driver
+    const durationAnalysis = analyzeDurations(flareData, composedData)
+
+    // Analyze sunspot number and F10.7 against volatility
+    const solarIndexAnalysis = analyzeSolarIndices(solarIndices, stockData)
+
     // Prepare time series data
     const timeSeriesData = composedData.map(item => ({
       date: item.date,
       flare: item.flare,
+      flux: item.flux ?? intensityToFlux(item.flare),
+      flareCount: item.flareCount ?? 1,
+      longDurationCount: item.longDurationCount ?? 0,
+      fluence: item.fluence ?? 0,
       volatility: item.volatility,
       volume: item.trades,
+      ...(item.sunspotNumber !== undefined && { sunspotNumber: item.sunspotNumber }),
+      ...(item.f107 !== undefined && { f107: item.f107 }),
     }))
 
     const analysisData: AnalysisData = {
@@ -173,7 +217,10 @@ async function getAnalysisDataInternal(
       flareAnalysis,
       volatilityAnalysis,
       correlationAnalysis,
+      durationAnalysis,
+      solarIndexAnalysis,
       timeSeriesData,
+      provenance: buildDataProvenance(sources),
     }
 
     logInfo('Successfully generated analysis data', {
@@ -195,7 +242,10 @@ async function getAnalysisDataInternal(
     )
 
     // Return empty analysis data
-    return getEmptyAnalysisData()
+    return {
+      ...getEmptyAnalysisData(),
+      provenance: buildDataProvenance([], true),
+    }
   }
 }
 
@@ -328,6 +378,69 @@ function analyzeCorrelation(
   }
 }
 
+/**
+ * Analyze flare rise/decay/duration and compare volatility on days with a
+ * long-duration event against other flare days
+ */
+function analyzeDurations(
+  flareData: FlareData[],
+  composedData: Array<{ volatility: number; longDurationCount?: number }>
+): AnalysisData['durationAnalysis'] {
+  const timedFlares = flareData.filter(flare => flare.durationMinutes !== undefined)
+  const longDurationCounts = composedData.map(item => item.longDurationCount ?? 0)
+  const longDurationVolatility = composedData
+    .filter((_, i) => longDurationCounts[i] > 0)
+    .map(item => item.volatility)
+  const otherVolatility = composedData
+    .filter((_, i) => longDurationCounts[i] === 0)
+    .map(item => item.volatility)
+
+  return {
+    flaresWithDuration: timedFlares.length,
+    avgRiseMinutes: calculateAverage(
+      flareData.filter(flare => flare.riseMinutes !== undefined).map(flare => flare.riseMinutes!)
+    ),
+    avgDecayMinutes: calculateAverage(timedFlares.map(flare => flare.decayMinutes!)),
+    avgDurationMinutes: calculateAverage(timedFlares.map(flare => flare.durationMinutes!)),
+    totalFluence: calculateSum(flareData.map(flare => flare.fluence ?? 0)),
+    longDurationEvents: flareData.filter(isLongDurationEvent).length,
+    longDurationDays: longDurationVolatility.length,
+    avgVolatilityLongDurationDays: calculateAverage(longDurationVolatility),
+    avgVolatilityOtherDays: calculateAverage(otherVolatility),
+    longDurationCorrelation: calculateCorrelation(
+      longDurationCounts,
+      composedData.map(item => item.volatility)
+    ),
+  }
+}
+
+/**
+ * Analyze sunspot number and F10.7 flux against volatility on every trading
+ * day with an index reading
+ */
+function analyzeSolarIndices(
+  solarIndices: SolarIndexData[],
+  stockData: StockData[]
+): AnalysisData['solarIndexAnalysis'] {
+  const rows = mergeSolarIndicesWithStock(solarIndices, stockData)
+  const sunspotRows = rows.filter(row => row.sunspotNumber !== undefined)
+  const f107Rows = rows.filter(row => row.f107 !== undefined)
+
+  return {
+    tradingDaysWithIndices: rows.length,
+    avgSunspotNumber: calculateAverage(sunspotRows.map(row => row.sunspotNumber!)),
+    avgF107: calculateAverage(f107Rows.map(row => row.f107!)),
+    sunspotCorrelation: calculateCorrelation(
+      sunspotRows.map(row => row.sunspotNumber!),
+      sunspotRows.map(row => row.volatility)
+    ),
+    f107Correlation: calculateCorrelation(
+      f107Rows.map(row => row.f107!),
+      f107Rows.map(row => row.volatility)
+    ),
+  }
+}
+
 /**
  * Get empty analysis data structure
  */
@@ -336,9 +449,17 @@ function getEmptyAnalysisData(): AnalysisData {
     summary: {
       totalFlareEvents: 0,
       totalTradingDays: 0,
+      flareAggregate: 'max',
+      flareLinkage: 'all',
+      flareLocation: 'all',
+      adjustedPrices: false,
+      flareAlignment: 'strict',
+      volatilityEstimator: 'range-change',
       avgFlareIntensity: 0,
       avgVolatility: 0,
       maxFlareIntensity: 0,
+      maxFlareFlux: 0,
+      peakFlareClass: 'N/A',
       maxVolatility: 0,
       totalVolume: 0,
       correlationCoefficient: 0,
@@ -364,6 +485,25 @@ function getEmptyAnalysisData(): AnalysisData {
       direction: 'none',
       coefficient: 0,
     },
+    durationAnalysis: {
+      flaresWithDuration: 0,
+      avgRiseMinutes: 0,
+      avgDecayMinutes: 0,
+      avgDurationMinutes: 0,
+      totalFluence: 0,
+      longDurationEvents: 0,
+      longDurationDays: 0,
+      avgVolatilityLongDurationDays: 0,
+      avgVolatilityOtherDays: 0,
+      longDurationCorrelation: 0,
+    },
+    solarIndexAnalysis: {
+      tradingDaysWithIndices: 0,
+      avgSunspotNumber: 0,
+      avgF107: 0,
+      sunspotCorrelation: 0,
+      f107Correlation: 0,
+    },
     timeSeriesData: [],
   }
 }
@@ -406,16 +546,44 @@ export async function getAnalysisData(
 /**
  * Cached version of getAnalysisData with 1800s (30 minutes) revalidation.
  * 
+ * Each options set is its own entry, tagged with the action, the symbol
+ * and the data sources it was built from (see getCacheTags), so
+ * refreshAnalysisData or refreshData can invalidate it without flushing
+ * unrelated entries.
+ * 
  * Requirements: 6.1
  */
-export const getCachedAnalysisData = unstable_cache(
-  async (options?: AnalysisOptions) => {
-    const optionsKey = options ? JSON.stringify(options) : ''
-    return getAnalysisDataDeduplicated(optionsKey)
-  },
-  ['analysis-data'],
-  {
-    revalidate: 1800, // 30 minutes (1800 seconds)
-    tags: ['analysis', 'analysis-data'],
-  }
-)
+export async function getCachedAnalysisData(
+  options?: AnalysisOptions
+): Promise<AnalysisData> {
+  const optionsKey = options ? JSON.stringify(options) : ''
+  const requestedAt = new Date().toISOString()
+
+  const data = await unstable_cache(
+    async () => getAnalysisDataDeduplicated(optionsKey),
+    ['analysis-data', optionsKey],
+    {
+      revalidate: 1800, // 30 minutes (1800 seconds)
+      tags: getCacheTags('analysis', {
+        symbols: [options?.stockSymbol || 'AAPL'],
+        sources: ['nasa', 'stock', 'solar-indices'],
+      }),
+    }
+  )()
+
+  return withCacheStatus(data, requestedAt)
+}
+
+/**
+ * Refresh analysis data for the requested symbol, skipping the remaining
+ * revalidation window, and return the freshly loaded data.
+ * 
+ * @param options - Same options as getCachedAnalysisData
+ * @returns Freshly loaded analysis data
+ */
+export async function refreshAnalysisData(
+  options?: AnalysisOptions
+): Promise<AnalysisData> {
+  await refreshData({ action: 'analysis', symbol: options?.stockSymbol || 'AAPL' })
+  return getCachedAnalysisData(options)
+}
@@ -2,10 +2,17 @@
 
 import { unstable_cache } from 'next/cache'
 import { cache } from 'react'
-import { StockClient } from '../api/stock'
+import { refreshData } from './refresh'
+import { loadStockSeries } from '../api/market-data'
+import { buildDataProvenance, withCacheStatus } from '../api/provenance'
+import { DataProvenance, SourceProvenance, VolatilityEstimator } from '../api/types'
 import { calculateAverage, calculateMax } from '../utils/statistics'
+import { normalizeSymbol } from '../utils/symbol-directory'
+import { getCacheTags } from '../utils/cache-tags'
 import { logError, logInfo } from '../utils/error-handling'
 
+const DEFAULT_COMPARISON_SYMBOLS = ['AAPL', 'MSFT', 'GOOGL']
+
 /**
  * Options for getComparisonData server function
  */
@@ -13,6 +20,10 @@ export interface ComparisonOptions {
   symbols?: string[]
   startDate?: string
   endDate?: string
+  adjustedPrices?: boolean
+  volatilityEstimator?: VolatilityEstimator
+  volatilityWindow?: number  // Rolling window in trading days for window estimators
+  annualizeVolatility?: boolean
 }
 
 /**
@@ -43,12 +54,14 @@ export interface ComparisonData {
   symbols: string[]
   comparisons: StockComparison[]
   timeSeriesData: ComparisonTimeSeriesPoint[]
+  volatilityEstimator: VolatilityEstimator
   summary: {
     mostVolatile: string
     leastVolatile: string
     highestPrice: string
     lowestPrice: string
   }
+  provenance?: DataProvenance  // Set by the server action; absent on client-side sample data
 }
 
 /**
@@ -65,28 +78,35 @@ async function getComparisonDataInternal(
 ): Promise<ComparisonData> {
   try {
     // Use sensible defaults
-    const symbols = options?.symbols || ['AAPL', 'MSFT', 'GOOGL']
-    const range = '1mo'
+    const symbols = Array.from(new Set((options?.symbols || DEFAULT_COMPARISON_SYMBOLS).map(normalizeSymbol)))
+
+    // Default to last 30 days if not specified
+    const endDate = options?.endDate || new Date().toISOString().split('T')[0]
+    const startDate = options?.startDate || (() => {
+      const date = new Date()
+      date.setDate(date.getDate() - 30)
+      return date.toISOString().split('T')[0]
+    })()
 
     logInfo('Generating comparison data', {
       function: 'getComparisonData',
       symbols,
+      startDate,
+      endDate,
     })
 
-    // Initialize stock client
-    const stockClient = new StockClient()
-
-    // Fetch data for all symbols in parallel
+    // Fetch data for all symbols in parallel through the shared loader, so a
+    // symbol another action is loading for the same range is fetched once.
     // Use Promise.allSettled to handle individual failures gracefully
     const results = await Promise.allSettled(
       symbols.map(async (symbol) => {
         try {
-          const quotes = await stockClient.getStockData(symbol, range)
-          const stockData = stockClient.calculateVolatility(quotes)
+          const { records: stockData, provenance } = await loadStockSeries(symbol, { startDate, endDate }, options)
           
           return {
             symbol,
             stockData,
+            provenance,
             success: true,
           }
         } catch (error) {
@@ -101,6 +121,7 @@ async function getComparisonDataInternal(
           return {
             symbol,
             stockData: [],
+            provenance: undefined,
             success: false,
           }
         }
@@ -110,16 +131,20 @@ async function getComparisonDataInternal(
     // Process results and preserve symbol order
     const comparisons: StockComparison[] = []
     const stockDataMap = new Map<string, any[]>()
+    const sources: SourceProvenance[] = []
     
     for (let i = 0; i < symbols.length; i++) {
       const symbol = symbols[i]
       const result = results[i]
       
       if (result.status === 'fulfilled' && result.value.success) {
-        const { stockData } = result.value
+        const { stockData, provenance } = result.value
         
         // Store stock data for time series generation
         stockDataMap.set(symbol, stockData)
+        if (provenance) {
+          sources.push(provenance)
+        }
         
         // Calculate metrics for this symbol
         const volatilityValues = stockData.map(d => d.volatility)
@@ -159,7 +184,9 @@ async function getComparisonDataInternal(
       symbols,
       comparisons,
       timeSeriesData,
+      volatilityEstimator: options?.volatilityEstimator || 'range-change',
       summary,
+      provenance: buildDataProvenance(sources),
     }
 
     logInfo('Successfully generated comparison data', {
@@ -181,7 +208,10 @@ async function getComparisonDataInternal(
     )
 
     // Return empty comparison data
-    return getEmptyComparisonData(options?.symbols || [])
+    return {
+      ...getEmptyComparisonData(options?.symbols || []),
+      provenance: buildDataProvenance([], true),
+    }
   }
 }
 
@@ -299,6 +329,7 @@ function getEmptyComparisonData(symbols: string[]): ComparisonData {
       dataPoints: 0,
     })),
     timeSeriesData: [],
+    volatilityEstimator: 'range-change',
     summary: {
       mostVolatile: 'N/A',
       leastVolatile: 'N/A',
@@ -346,16 +377,45 @@ export async function getComparisonData(
 /**
  * Cached version of getComparisonData with 1800s (30 minutes) revalidation.
  * 
+ * Each options set is its own entry, tagged with the action, the symbols
+ * and the data sources it was built from (see getCacheTags), so
+ * refreshComparisonData or refreshData can invalidate it without flushing
+ * unrelated entries.
+ * 
  * Requirements: 6.1
  */
-export const getCachedComparisonData = unstable_cache(
-  async (options?: ComparisonOptions) => {
-    const optionsKey = options ? JSON.stringify(options) : ''
-    return getComparisonDataDeduplicated(optionsKey)
-  },
-  ['comparison-data'],
-  {
-    revalidate: 1800, // 30 minutes (1800 seconds)
-    tags: ['comparison', 'comparison-data'],
-  }
-)
+export async function getCachedComparisonData(
+  options?: ComparisonOptions
+): Promise<ComparisonData> {
+  const optionsKey = options ? JSON.stringify(options) : ''
+  const requestedAt = new Date().toISOString()
+
+  const data = await unstable_cache(
+    async () => getComparisonDataDeduplicated(optionsKey),
+    ['comparison-data', optionsKey],
+    {
+      revalidate: 1800, // 30 minutes (1800 seconds)
+      tags: getCacheTags('comparison', {
+        symbols: options?.symbols || DEFAULT_COMPARISON_SYMBOLS,
+        sources: ['stock'],
+      }),
+    }
+  )()
+
+  return withCacheStatus(data, requestedAt)
+}
+
+/**
+ * Refresh comparison data for the requested symbols, skipping the remaining
+ * revalidation window, and return the freshly loaded data.
+ * 
+ * @param options - Same options as getCachedComparisonData
+ * @returns Freshly loaded comparison data
+ */
+export async function refreshComparisonData(
+  options?: ComparisonOptions
+): Promise<ComparisonData> {
+  const symbols = options?.symbols || DEFAULT_COMPARISON_SYMBOLS
+  await Promise.all(symbols.map(symbol => refreshData({ action: 'comparison', symbol })))
+  return getCachedComparisonData(options)
+}
@@ -2,9 +2,10 @@
 
 import { unstable_cache } from 'next/cache'
 import { cache } from 'react'
-import { NASAClient } from '../api/nasa'
-import { StockClient } from '../api/stock'
-import { mergeDatasets } from '../utils/data-transform'
+import { refreshData } from './refresh'
+import { loadMarketDataset } from '../api/market-data'
+import { buildDataProvenance, withCacheStatus } from '../api/provenance'
+import { mergeSolarIndicesWithStock } from '../utils/data-transform'
 import { calculateCorrelation } from '../utils/correlation'
 import {
   calculateAverage,
@@ -12,14 +13,18 @@ import {
   calculateSum,
   categorizeIntensity,
 } from '../utils/statistics'
+import { intensityToFlux } from '../utils/goes-flux'
 import {
   DashboardData,
-  ComposedData,
   CorrelationData,
   DistributionData,
-  FlareData,
-  StockData,
+  FlareAggregate,
+  FlareAlignment,
+  FlareLinkage,
+  FlareLocationFilter,
+  VolatilityEstimator,
 } from '../api/types'
+import { getCacheTags } from '../utils/cache-tags'
 import {
   logError,
   logInfo,
@@ -33,12 +38,21 @@ export interface DashboardOptions {
   startDate?: string
   endDate?: string
   stockSymbol?: string
+  flareAggregate?: FlareAggregate
+  flareLinkage?: FlareLinkage
+  flareLocation?: FlareLocationFilter
+  adjustedPrices?: boolean
+  flareAlignment?: FlareAlignment
+  maxGapDays?: number  // Maximum flare age in days for 'asof' alignment
+  volatilityEstimator?: VolatilityEstimator
+  volatilityWindow?: number  // Rolling window in trading days for window estimators
+  annualizeVolatility?: boolean
 }
 
 /**
  * Internal implementation of getDashboardData.
- * This function fetches from NASA and Stock APIs in parallel,
- * merges the data, and calculates statistics.
+ * This function loads NASA and stock data in parallel through the shared
+ * market data loader, merges the data, and calculates statistics.
  * 
  * This function implements parallel API call independence - if one API fails,
  * the other's data is still returned with partial results.
@@ -70,99 +84,15 @@ async function getDashboardDataInternal(
       stockSymbol,
     })
 
-    // Initialize API clients
-    const nasaClient = new NASAClient()
-    const stockClient = new StockClient()
-
-    // Fetch data from both APIs in parallel
-    // This ensures NASA API failure doesn't block stock API and vice versa
-    const [nasaRawEvents, stockQuotes] = await Promise.all([
-      nasaClient.getFlareEvents(startDate, endDate).catch(error => {
-        logError(
-          'NASA API call failed in getDashboardData',
-          error,
-          {
-            function: 'getDashboardData',
-            provider: 'NASA',
-            startDate,
-            endDate,
-          }
-        )
-        // Return empty array to allow partial data
-        return []
-      }),
-      stockClient.getStockData(stockSymbol, '1mo').catch(error => {
-        logError(
-          'Stock API call failed in getDashboardData',
-          error,
-          {
-            function: 'getDashboardData',
-            provider: stockClient['config'].provider,
-            symbol: stockSymbol,
-          }
-        )
-        // Return empty array to allow partial data
-        return []
-      }),
-    ])
-
-    // Transform NASA data
-    let flareData: FlareData[] = []
-    try {
-      flareData = nasaClient.transformFlareData(nasaRawEvents)
-      logInfo('Transformed NASA data', {
-        function: 'getDashboardData',
-        flareCount: flareData.length,
-      })
-    } catch (error) {
-      logError(
-        'Failed to transform NASA data',
-        error,
-        {
-          function: 'getDashboardData',
-          rawEventCount: nasaRawEvents.length,
-        }
-      )
-    }
-
-    // Transform stock data
-    let stockData: StockData[] = []
-    try {
-      stockData = stockClient.calculateVolatility(stockQuotes)
-      logInfo('Transformed stock data', {
-        function: 'getDashboardData',
-        stockDataCount: stockData.length,
-      })
-    } catch (error) {
-      logError(
-        'Failed to transform stock data',
-        error,
-        {
-          function: 'getDashboardData',
-          quoteCount: stockQuotes.length,
-        }
-      )
-    }
-
-    // Merge datasets by date
-    let composedData: ComposedData[] = []
-    try {
-      composedData = mergeDatasets(flareData, stockData)
-      logInfo('Merged datasets', {
-        function: 'getDashboardData',
-        composedDataCount: composedData.length,
-      })
-    } catch (error) {
-      logError(
-        'Failed to merge datasets',
-        error,
-        {
-          function: 'getDashboardData',
-          flareDataCount: flareData.length,
-          stockDataCount: stockData.length,
-        }
-      )
-    }
+    // Flares, volatility and solar indices come from the shared loader, which
+    // coalesces identical fetches across actions and never rejects
+    const { stockData, composedData, solarIndices, sources } = await loadMarketDataset({
+      ...options,
+      startDate,
+      endDate,
+      stockSymbol,
+      solarIndices: true,
+    })
 
     // Generate correlation data
     const correlationData: CorrelationData[] = composedData.map(item => ({
@@ -172,6 +102,7 @@ async function getDashboardDataInternal(
 
     // Calculate statistics
     const flareValues = composedData.map(d => d.flare)
+    const fluxValues = composedData.map(d => d.flux ?? intensityToFlux(d.flare))
     const volatilityValues = composedData.map(d => d.volatility)
     const tradeValues = composedData.map(d => d.trades)
 
@@ -179,9 +110,24 @@ async function getDashboardDataInternal(
     const avgVolatility = calculateAverage(volatilityValues)
     const totalTrades = calculateSum(tradeValues)
     const maxFlare = calculateMax(flareValues)
+    const maxFlux = calculateMax(fluxValues)
     const maxVolatility = calculateMax(volatilityValues)
     const correlation = calculateCorrelation(flareValues, volatilityValues)
 
+    // Sunspot number and F10.7 are daily series, so correlate them over every
+    // trading day rather than only flare days
+    const indexRows = mergeSolarIndicesWithStock(solarIndices, stockData)
+    const sunspotRows = indexRows.filter(row => row.sunspotNumber !== undefined)
+    const f107Rows = indexRows.filter(row => row.f107 !== undefined)
+    const sunspotCorrelation = calculateCorrelation(
+      sunspotRows.map(row => row.sunspotNumber!),
+      sunspotRows.map(row => row.volatility)
+    )
+    const f107Correlation = calculateCorrelation(
+      f107Rows.map(row => row.f107!),
+      f107Rows.map(row => row.volatility)
+    )
+
     // Generate distribution data
     const distributionData = generateDistributionData(flareValues)
 
@@ -202,8 +148,13 @@ async function getDashboardDataInternal(
         totalTrades,
         correlation,
         maxFlare,
+        maxFlux,
         maxVolatility,
+        sunspotCorrelation,
+        f107Correlation,
+        volatilityEstimator: options?.volatilityEstimator || 'range-change',
       },
+      provenance: buildDataProvenance(sources),
     }
 
     logInfo('Successfully generated dashboard data', {
@@ -225,7 +176,10 @@ async function getDashboardDataInternal(
     )
 
     // Return empty dashboard data structure
-    return getEmptyDashboardData()
+    return {
+      ...getEmptyDashboardData(),
+      provenance: buildDataProvenance([], true),
+    }
   }
 }
 
@@ -298,37 +252,49 @@ export async function getDashboardData(
  * Cached version of getDashboardData with 1800s (30 minutes) revalidation.
  * 
  * This wraps the deduplicated function with Next.js unstable_cache for
- * persistent caching across requests and deployments.
+ * persistent caching across requests and deployments. Each options set is
+ * its own entry.
  * 
  * Cache tags allow for granular invalidation:
- * - 'dashboard': Invalidate all dashboard data
- * - 'dashboard-data': Invalidate this specific cache entry
+ * - 'dashboard' / 'dashboard-data': Invalidate all dashboard data
+ * - 'dashboard:<SYMBOL>': Invalidate dashboard data for one symbol
+ * - 'symbol:<SYMBOL>': Invalidate every action's data for one symbol
+ * - 'source:nasa' / 'source:stock' / 'source:solar-indices': Invalidate
+ *   everything built from one data source
  * 
  * Requirements: 1.5, 6.1, 6.2, 6.3
  */
-export const getCachedDashboardData = unstable_cache(
-  async (options?: DashboardOptions) => {
-    const optionsKey = options ? JSON.stringify(options) : ''
-    return getDashboardDataDeduplicated(optionsKey)
-  },
-  ['dashboard-data'],
-  {
-    revalidate: 1800, // 30 minutes (1800 seconds)
-    tags: ['dashboard', 'dashboard-data'],
-  }
-)
+export async function getCachedDashboardData(
+  options?: DashboardOptions
+): Promise<DashboardData> {
+  const optionsKey = options ? JSON.stringify(options) : ''
+  const requestedAt = new Date().toISOString()
+
+  const data = await unstable_cache(
+    async () => getDashboardDataDeduplicated(optionsKey),
+    ['dashboard-data', optionsKey],
+    {
+      revalidate: 1800, // 30 minutes (1800 seconds)
+      tags: getCacheTags('dashboard', {
+        symbols: [options?.stockSymbol || 'AAPL'],
+        sources: ['nasa', 'stock', 'solar-indices'],
+      }),
+    }
+  )()
+
+  return withCacheStatus(data, requestedAt)
+}
 
 /**
- * Refresh dashboard data by invalidating the cache.
- * This can be called manually to force a fresh fetch.
+ * Refresh dashboard data for the requested symbol, skipping the remaining
+ * revalidation window, and return the freshly loaded data.
  * 
- * Note: In production, you would use revalidateTag('dashboard') from next/cache
- * to invalidate the cache. This is a placeholder for manual cache invalidation.
+ * @param options - Same options as getCachedDashboardData
+ * @returns Freshly loaded dashboard data
  */
-export async function refreshDashboardData(): Promise<void> {
-  logInfo('Dashboard data refresh requested', {
-    function: 'refreshDashboardData',
-  })
-  // In Next.js 14+, you would call:
-  // revalidateTag('dashboard')
+export async function refreshDashboardData(
+  options?: DashboardOptions
+): Promise<DashboardData> {
+  await refreshData({ action: 'dashboard', symbol: options?.stockSymbol || 'AAPL' })
+  return getCachedDashboardData(options)
 }
@@ -2,18 +2,30 @@
 
 import { unstable_cache } from 'next/cache'
 import { cache } from 'react'
-import { NASAClient } from '../api/nasa'
-import { StockClient } from '../api/stock'
-import { ForecastData, ForecastPrediction } from '../api/types'
+import { refreshData } from './refresh'
+import { loadMarketDataset } from '../api/market-data'
+import { buildDataProvenance, withCacheStatus } from '../api/provenance'
+import { ForecastData, ForecastPrediction, VolatilityEstimator } from '../api/types'
 import { calculateAverage } from '../utils/statistics'
+import { GOES_CLASS_BASE_FLUX, fluxToIntensity } from '../utils/goes-flux'
+import { getCacheTags } from '../utils/cache-tags'
 import { logError, logInfo } from '../utils/error-handling'
 
+/**
+ * Floor for predicted flare intensity (B1.0 on the log-scaled GOES intensity)
+ */
+const MIN_PREDICTED_FLARE = fluxToIntensity(GOES_CLASS_BASE_FLUX.B)
+
 /**
  * Options for getForecastData server function
  */
 export interface ForecastOptions {
   days?: number
   stockSymbol?: string
+  adjustedPrices?: boolean
+  volatilityEstimator?: VolatilityEstimator
+  volatilityWindow?: number  // Rolling window in trading days for window estimators
+  annualizeVolatility?: boolean
 }
 
 /**
@@ -47,40 +59,14 @@ async function getForecastDataInternal(
       return date.toISOString().split('T')[0]
     })()
 
-    // Initialize API clients
-    const nasaClient = new NASAClient()
-    const stockClient = new StockClient()
-
-    // Fetch historical data in parallel
-    const [nasaRawEvents, stockQuotes] = await Promise.all([
-      nasaClient.getFlareEvents(startDate, endDate).catch(error => {
-        logError(
-          'NASA API call failed in getForecastData',
-          error,
-          {
-            function: 'getForecastData',
-            provider: 'NASA',
-          }
-        )
-        return []
-      }),
-      stockClient.getStockData(stockSymbol, '1mo').catch(error => {
-        logError(
-          'Stock API call failed in getForecastData',
-          error,
-          {
-            function: 'getForecastData',
-            provider: stockClient['config'].provider,
-            symbol: stockSymbol,
-          }
-        )
-        return []
-      }),
-    ])
-
-    // Transform data
-    const flareData = nasaClient.transformFlareData(nasaRawEvents)
-    const stockData = stockClient.calculateVolatility(stockQuotes)
+    // Flares and volatility come from the shared loader, which coalesces
+    // identical fetches across actions and never rejects
+    const { flareData, stockData, sources } = await loadMarketDataset({
+      ...options,
+      startDate,
+      endDate,
+      stockSymbol,
+    })
 
     // Calculate historical averages for trend analysis
     const historicalFlares = flareData.map(d => d.flare)
@@ -114,7 +100,7 @@ async function getForecastDataInternal(
       const randomVariation = 0.95 + Math.random() * 0.1 // 95% to 105% variation
       
       // Calculate predictions starting from last known values
-      const predictedFlare = Math.max(0.5, lastFlare * decayFactor * randomVariation)
+      const predictedFlare = Math.max(MIN_PREDICTED_FLARE, lastFlare * decayFactor * randomVariation)
       const predictedVolatility = Math.max(1.0, lastVolatility * decayFactor * randomVariation)
 
       // Calculate confidence interval (decreases with forecast distance)
@@ -147,9 +133,9 @@ async function getForecastDataInternal(
         : trend === 'rising'
         ? `Volatility may increase by ${Math.abs(volatilityChangePercent).toFixed(0)}% over next ${Math.min(3, forecastDays)} days`
         : `Volatility expected to remain stable around ${avgPredictedVolatility.toFixed(1)}%`,
-      solarActivity: avgPredictedFlare < 2.0
+      solarActivity: avgPredictedFlare < fluxToIntensity(GOES_CLASS_BASE_FLUX.M)
         ? 'Minor solar flares predicted, unlikely to affect markets'
-        : avgPredictedFlare < 4.0
+        : avgPredictedFlare < fluxToIntensity(GOES_CLASS_BASE_FLUX.X)
         ? 'Moderate solar activity expected, monitor for market impacts'
         : 'High solar flare activity predicted, potential for increased volatility',
       riskWindow: highRiskDays.length > 0
@@ -166,7 +152,9 @@ async function getForecastDataInternal(
       confidence,
       trend,
       predictions,
+      volatilityEstimator: options?.volatilityEstimator || 'range-change',
       keyPredictions,
+      provenance: buildDataProvenance(sources),
     }
 
     logInfo('Successfully generated forecast data', {
@@ -188,7 +176,10 @@ async function getForecastDataInternal(
     )
 
     // Return empty forecast data
-    return getEmptyForecastData(options?.days || 7)
+    return {
+      ...getEmptyForecastData(options?.days || 7),
+      provenance: buildDataProvenance([], true),
+    }
   }
 }
 
@@ -244,6 +235,7 @@ function getEmptyForecastData(days: number): ForecastData {
     confidence: 0,
     trend: 'stable',
     predictions: [],
+    volatilityEstimator: 'range-change',
   }
 }
 
@@ -285,16 +277,44 @@ export async function getForecastData(
 /**
  * Cached version of getForecastData with 7200s (2 hours) revalidation.
  * 
+ * Each options set is its own entry, tagged with the action, the symbol
+ * and the data sources it was built from (see getCacheTags), so
+ * refreshForecastData or refreshData can invalidate it without flushing
+ * unrelated entries.
+ * 
  * Requirements: 6.1
  */
-export const getCachedForecastData = unstable_cache(
-  async (options?: ForecastOptions) => {
-    const optionsKey = options ? JSON.stringify(options) : ''
-    return getForecastDataDeduplicated(optionsKey)
-  },
-  ['forecast-data'],
-  {
-    revalidate: 7200, // 2 hours (7200 seconds)
-    tags: ['forecast', 'forecast-data'],
-  }
-)
+export async function getCachedForecastData(
+  options?: ForecastOptions
+): Promise<ForecastData> {
+  const optionsKey = options ? JSON.stringify(options) : ''
+  const requestedAt = new Date().toISOString()
+
+  const data = await unstable_cache(
+    async () => getForecastDataDeduplicated(optionsKey),
+    ['forecast-data', optionsKey],
+    {
+      revalidate: 7200, // 2 hours (7200 seconds)
+      tags: getCacheTags('forecast', {
+        symbols: [options?.stockSymbol || 'AAPL'],
+        sources: ['nasa', 'stock'],
+      }),
+    }
+  )()
+
+  return withCacheStatus(data, requestedAt)
+}
+
+/**
+ * Refresh forecast data for the requested symbol, skipping the remaining
+ * revalidation window, and return the freshly loaded data.
+ * 
+ * @param options - Same options as getCachedForecastData
+ * @returns Freshly loaded forecast data
+ */
+export async function refreshForecastData(
+  options?: ForecastOptions
+): Promise<ForecastData> {
+  await refreshData({ action: 'forecast', symbol: options?.stockSymbol || 'AAPL' })
+  return getCachedForecastData(options)
+}
@@ -2,12 +2,15 @@
 
 import { unstable_cache } from 'next/cache'
 import { cache } from 'react'
-import { NASAClient } from '../api/nasa'
-import { StockClient } from '../api/stock'
-import { mergeDatasets } from '../utils/data-transform'
+import { refreshData } from './refresh'
+import { loadMarketDataset } from '../api/market-data'
+import { buildDataProvenance, withCacheStatus } from '../api/provenance'
 import { calculateCorrelation } from '../utils/correlation'
 import { calculateAverage, categorizeIntensity } from '../utils/statistics'
+import { GOES_CLASS_BASE_FLUX, intensityToFlux, fluxToClass } from '../utils/goes-flux'
+import { getCacheTags } from '../utils/cache-tags'
 import { logError, logInfo } from '../utils/error-handling'
+import { DataProvenance, FlareAggregate, FlareAlignment, FlareLinkage, FlareLocationFilter, VolatilityEstimator } from '../api/types'
 
 /**
  * Options for getInsightsData server function
@@ -16,6 +19,15 @@ export interface InsightsOptions {
   startDate?: string
   endDate?: string
   stockSymbol?: string
+  flareAggregate?: FlareAggregate
+  flareLinkage?: FlareLinkage
+  flareLocation?: FlareLocationFilter
+  adjustedPrices?: boolean
+  flareAlignment?: FlareAlignment
+  maxGapDays?: number  // Maximum flare age in days for 'asof' alignment
+  volatilityEstimator?: VolatilityEstimator
+  volatilityWindow?: number  // Rolling window in trading days for window estimators
+  annualizeVolatility?: boolean
 }
 
 /**
@@ -40,8 +52,10 @@ export interface InsightsData {
     totalInsights: number
     highSeverityCount: number
     avgConfidence: number
+    volatilityEstimator: VolatilityEstimator
   }
   generatedAt: string
+  provenance?: DataProvenance  // Set by the server action; absent on client-side sample data
 }
 
 /**
@@ -73,43 +87,14 @@ async function getInsightsDataInternal(
       stockSymbol,
     })
 
-    // Initialize API clients
-    const nasaClient = new NASAClient()
-    const stockClient = new StockClient()
-
-    // Fetch data from both APIs in parallel
-    const [nasaRawEvents, stockQuotes] = await Promise.all([
-      nasaClient.getFlareEvents(startDate, endDate).catch(error => {
-        logError(
-          'NASA API call failed in getInsightsData',
-          error,
-          {
-            function: 'getInsightsData',
-            provider: 'NASA',
-          }
-        )
-        return []
-      }),
-      stockClient.getStockData(stockSymbol, '1mo').catch(error => {
-        logError(
-          'Stock API call failed in getInsightsData',
-          error,
-          {
-            function: 'getInsightsData',
-            provider: stockClient['config'].provider,
-            symbol: stockSymbol,
-          }
-        )
-        return []
-      }),
-    ])
-
-    // Transform data
-    const flareData = nasaClient.transformFlareData(nasaRawEvents)
-    const stockData = stockClient.calculateVolatility(stockQuotes)
-
-    // Merge datasets
-    const composedData = mergeDatasets(flareData, stockData)
+    // Flares and volatility come from the shared loader, which coalesces
+    // identical fetches across actions and never rejects
+    const { stockData, composedData, sources } = await loadMarketDataset({
+      ...options,
+      startDate,
+      endDate,
+      stockSymbol,
+    })
 
     // Generate insights
     const insights: Insight[] = []
@@ -213,19 +198,20 @@ async function getInsightsDataInternal(
         type: 'anomaly',
         severity: extremeCount > 2 ? 'high' : 'medium',
         title: 'Extreme Solar Events Recorded',
-        description: `${extremeCount} extreme solar flare event${extremeCount > 1 ? 's' : ''} recorded during this period. Extreme events (intensity > 6) are rare and may have significant impacts.`,
+        description: `${extremeCount} extreme solar flare event${extremeCount > 1 ? 's' : ''} recorded during this period. Extreme events (X10 and above) are rare and may have significant impacts.`,
         confidence: 0.9,
       })
     }
 
-    // Low activity insight
-    if (flareValues.length > 0 && calculateAverage(flareValues) < 0.5) {
+    // Low activity insight (average peak flux below C5)
+    const avgFlux = calculateAverage(composedData.map(d => d.flux ?? intensityToFlux(d.flare)))
+    if (flareValues.length > 0 && avgFlux < GOES_CLASS_BASE_FLUX.C * 5) {
       insights.push({
         id: `insight-${insightId++}`,
         type: 'trend',
         severity: 'low',
         title: 'Low Solar Activity Period',
-        description: `Solar activity remains relatively quiet with an average flare intensity of ${calculateAverage(flareValues).toFixed(2)}. Low solar activity periods typically correlate with stable market conditions.`,
+        description: `Solar activity remains relatively quiet with an average peak flux of ${fluxToClass(avgFlux)} class. Low solar activity periods typically correlate with stable market conditions.`,
         confidence: 0.65,
       })
     }
@@ -242,8 +228,10 @@ async function getInsightsDataInternal(
         totalInsights: insights.length,
         highSeverityCount,
         avgConfidence,
+        volatilityEstimator: options?.volatilityEstimator || 'range-change',
       },
       generatedAt: new Date().toISOString(),
+      provenance: buildDataProvenance(sources),
     }
 
     logInfo('Successfully generated insights data', {
@@ -264,7 +252,10 @@ async function getInsightsDataInternal(
     )
 
     // Return empty insights data
-    return getEmptyInsightsData()
+    return {
+      ...getEmptyInsightsData(),
+      provenance: buildDataProvenance([], true),
+    }
   }
 }
 
@@ -278,6 +269,7 @@ function getEmptyInsightsData(): InsightsData {
       totalInsights: 0,
       highSeverityCount: 0,
       avgConfidence: 0,
+      volatilityEstimator: 'range-change',
     },
     generatedAt: new Date().toISOString(),
   }
@@ -321,16 +313,44 @@ export async function getInsightsData(
 /**
  * Cached version of getInsightsData with 1800s (30 minutes) revalidation.
  * 
+ * Each options set is its own entry, tagged with the action, the symbol
+ * and the data sources it was built from (see getCacheTags), so
+ * refreshInsightsData or refreshData can invalidate it without flushing
+ * unrelated entries.
+ * 
  * Requirements: 6.1
  */
-export const getCachedInsightsData = unstable_cache(
-  async (options?: InsightsOptions) => {
-    const optionsKey = options ? JSON.stringify(options) : ''
-    return getInsightsDataDeduplicated(optionsKey)
-  },
-  ['insights-data'],
-  {
-    revalidate: 1800, // 30 minutes (1800 seconds)
-    tags: ['insights', 'insights-data'],
-  }
-)
+export async function getCachedInsightsData(
+  options?: InsightsOptions
+): Promise<InsightsData> {
+  const optionsKey = options ? JSON.stringify(options) : ''
+  const requestedAt = new Date().toISOString()
+
+  const data = await unstable_cache(
+    async () => getInsightsDataDeduplicated(optionsKey),
+    ['insights-data', optionsKey],
+    {
+      revalidate: 1800, // 30 minutes (1800 seconds)
+      tags: getCacheTags('insights', {
+        symbols: [options?.stockSymbol || 'AAPL'],
+        sources: ['nasa', 'stock'],
+      }),
+    }
+  )()
+
+  return withCacheStatus(data, requestedAt)
+}
+
+/**
+ * Refresh insights data for the requested symbol, skipping the remaining
+ * revalidation window, and return the freshly loaded data.
+ * 
+ * @param options - Same options as getCachedInsightsData
+ * @returns Freshly loaded insights data
+ */
+export async function refreshInsightsData(
+  options?: InsightsOptions
+): Promise<InsightsData> {
+  await refreshData({ action: 'insights', symbol: options?.stockSymbol || 'AAPL' })
+  return getCachedInsightsData(options)
+}
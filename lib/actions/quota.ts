@@ -0,0 +1,40 @@
+'use server'
+
+import { getRateLimitStates, RateLimitSnapshot } from '../api/rate-limit'
+import { getCircuitBreakerStates, CircuitBreakerSnapshot } from '../api/resilience'
+import { logError } from '../utils/error-handling'
+
+/**
+ * Outbound API quota and provider health
+ */
+export interface QuotaStatus {
+  rateLimits: RateLimitSnapshot[]     // One entry per provider called since startup
+  circuits: CircuitBreakerSnapshot[]
+  timestamp: string                   // ISO time the snapshot was taken
+}
+
+/**
+ * Current rate limiter and circuit breaker state for every provider.
+ * Not cached: the point is to show live quota, and reading it makes no
+ * outbound calls.
+ *
+ * @returns Quota snapshot, empty lists on error
+ */
+export async function getQuotaStatus(): Promise<QuotaStatus> {
+  try {
+    return {
+      rateLimits: getRateLimitStates(),
+      circuits: getCircuitBreakerStates(),
+      timestamp: new Date().toISOString(),
+    }
+  } catch (error) {
+    logError('Failed to read quota status', error, {
+      function: 'getQuotaStatus',
+    })
+    return {
+      rateLimits: [],
+      circuits: [],
+      timestamp: new Date().toISOString(),
+    }
+  }
+}
@@ -0,0 +1,50 @@
+'use server'
+
+import { revalidateTag } from 'next/cache'
+import { getRefreshTags, RefreshTarget } from '../utils/cache-tags'
+import { logError, logInfo } from '../utils/error-handling'
+
+export type { RefreshTarget } from '../utils/cache-tags'
+
+/**
+ * Result of a refresh
+ */
+export interface RefreshResult {
+  tags: string[]       // Tags that were invalidated
+  timestamp: string    // ISO time of the refresh
+}
+
+/**
+ * Invalidate cached action data by action, symbol and/or data source.
+ *
+ * Entries expire immediately rather than being served stale while they
+ * revalidate, so the next getCached*Data call for them fetches from the
+ * providers. Settled history in the time-series store and parsed solar
+ * index files younger than their TTL are kept; the store's recent days are
+ * re-fetched on every load anyway.
+ *
+ * @param target - What to invalidate; empty invalidates every action
+ * @returns Invalidated tags, empty if revalidation failed
+ */
+export async function refreshData(target: RefreshTarget = {}): Promise<RefreshResult> {
+  const tags = getRefreshTags(target)
+
+  try {
+    tags.forEach(tag => revalidateTag(tag, { expire: 0 }))
+
+    logInfo('Invalidated cached data', {
+      function: 'refreshData',
+      ...target,
+      tags,
+    })
+
+    return { tags, timestamp: new Date().toISOString() }
+  } catch (error) {
+    logError('Failed to invalidate cached data', error, {
+      function: 'refreshData',
+      ...target,
+      tags,
+    })
+    return { tags: [], timestamp: new Date().toISOString() }
+  }
+}
@@ -2,9 +2,13 @@
 
 import { unstable_cache } from 'next/cache'
 import { cache } from 'react'
-import { NASAClient } from '../api/nasa'
-import { StockClient } from '../api/stock'
+import { refreshData } from './refresh'
+import { loadMarketDataset } from '../api/market-data'
+import { buildDataProvenance, withCacheStatus } from '../api/provenance'
+import { DataProvenance, VolatilityEstimator } from '../api/types'
 import { calculateAverage } from '../utils/statistics'
+import { GOES_CLASS_BASE_FLUX, fluxToIntensity } from '../utils/goes-flux'
+import { getCacheTags } from '../utils/cache-tags'
 import { logError, logInfo } from '../utils/error-handling'
 
 /**
@@ -19,6 +23,10 @@ export interface SimulatorOptions {
   scenario?: ScenarioType
   stockSymbol?: string
   days?: number
+  adjustedPrices?: boolean
+  volatilityEstimator?: VolatilityEstimator
+  volatilityWindow?: number  // Rolling window in trading days for window estimators
+  annualizeVolatility?: boolean
 }
 
 /**
@@ -44,8 +52,10 @@ export interface SimulatorData {
     avgVolatility: number
     totalVolume: number
     riskLevel: 'low' | 'medium' | 'high' | 'extreme'
+    volatilityEstimator: VolatilityEstimator
   }
   assumptions: string[]
+  provenance?: DataProvenance  // Set by the server action; absent on client-side sample data
 }
 
 /**
@@ -81,45 +91,19 @@ async function getSimulatorDataInternal(
       return date.toISOString().split('T')[0]
     })()
 
-    // Initialize API clients
-    const nasaClient = new NASAClient()
-    const stockClient = new StockClient()
-
-    // Fetch historical data in parallel
-    const [nasaRawEvents, stockQuotes] = await Promise.all([
-      nasaClient.getFlareEvents(startDate, endDate).catch(error => {
-        logError(
-          'NASA API call failed in getSimulatorData',
-          error,
-          {
-            function: 'getSimulatorData',
-            provider: 'NASA',
-          }
-        )
-        return []
-      }),
-      stockClient.getStockData(stockSymbol, '1mo').catch(error => {
-        logError(
-          'Stock API call failed in getSimulatorData',
-          error,
-          {
-            function: 'getSimulatorData',
-            provider: stockClient['config'].provider,
-            symbol: stockSymbol,
-          }
-        )
-        return []
-      }),
-    ])
-
-    // Transform data
-    const flareData = nasaClient.transformFlareData(nasaRawEvents)
-    const stockData = stockClient.calculateVolatility(stockQuotes)
+    // Flares and volatility come from the shared loader, which coalesces
+    // identical fetches across actions and never rejects
+    const { flareData, stockData, sources } = await loadMarketDataset({
+      ...options,
+      startDate,
+      endDate,
+      stockSymbol,
+    })
 
     // Calculate baseline metrics
     const baselineFlare = flareData.length > 0 
       ? calculateAverage(flareData.map(d => d.flare))
-      : 1.0
+      : fluxToIntensity(GOES_CLASS_BASE_FLUX.C)
     const baselineVolatility = stockData.length > 0
       ? calculateAverage(stockData.map(d => d.volatility))
       : 2.0
@@ -156,8 +140,10 @@ async function getSimulatorDataInternal(
         avgVolatility,
         totalVolume,
         riskLevel,
+        volatilityEstimator: options?.volatilityEstimator || 'range-change',
       },
       assumptions,
+      provenance: buildDataProvenance(sources),
     }
 
     logInfo('Successfully generated simulator data', {
@@ -179,7 +165,10 @@ async function getSimulatorDataInternal(
     )
 
     // Return empty simulator data
-    return getEmptySimulatorData(options?.scenario || 'baseline', options?.days || 14)
+    return {
+      ...getEmptySimulatorData(options?.scenario || 'baseline', options?.days || 14),
+      provenance: buildDataProvenance([], true),
+    }
   }
 }
 
@@ -357,6 +346,7 @@ function getEmptySimulatorData(scenario: ScenarioType, days: number): SimulatorD
       avgVolatility: 0,
       totalVolume: 0,
       riskLevel: 'low',
+      volatilityEstimator: 'range-change',
     },
     assumptions,
   }
@@ -400,16 +390,44 @@ export async function getSimulatorData(
 /**
  * Cached version of getSimulatorData with 1800s (30 minutes) revalidation.
  * 
+ * Each options set is its own entry, tagged with the action, the symbol
+ * and the data sources it was built from (see getCacheTags), so
+ * refreshSimulatorData or refreshData can invalidate it without flushing
+ * unrelated entries.
+ * 
  * Requirements: 6.1
  */
-export const getCachedSimulatorData = unstable_cache(
-  async (options?: SimulatorOptions) => {
-    const optionsKey = options ? JSON.stringify(options) : ''
-    return getSimulatorDataDeduplicated(optionsKey)
-  },
-  ['simulator-data'],
-  {
-    revalidate: 1800, // 30 minutes (1800 seconds)
-    tags: ['simulator', 'simulator-data'],
-  }
-)
+export async function getCachedSimulatorData(
+  options?: SimulatorOptions
+): Promise<SimulatorData> {
+  const optionsKey = options ? JSON.stringify(options) : ''
+  const requestedAt = new Date().toISOString()
+
+  const data = await unstable_cache(
+    async () => getSimulatorDataDeduplicated(optionsKey),
+    ['simulator-data', optionsKey],
+    {
+      revalidate: 1800, // 30 minutes (1800 seconds)
+      tags: getCacheTags('simulator', {
+        symbols: [options?.stockSymbol || 'AAPL'],
+        sources: ['nasa', 'stock'],
+      }),
+    }
+  )()
+
+  return withCacheStatus(data, requestedAt)
+}
+
+/**
+ * Refresh simulator data for the requested symbol, skipping the remaining
+ * revalidation window, and return the freshly loaded data.
+ * 
+ * @param options - Same options as getCachedSimulatorData
+ * @returns Freshly loaded simulator data
+ */
+export async function refreshSimulatorData(
+  options?: SimulatorOptions
+): Promise<SimulatorData> {
+  await refreshData({ action: 'simulator', symbol: options?.stockSymbol || 'AAPL' })
+  return getCachedSimulatorData(options)
+}
@@ -0,0 +1,295 @@
+'use server'
+
+import { unstable_cache } from 'next/cache'
+import { cache } from 'react'
+import { refreshData } from './refresh'
+import { loadMarketDataset } from '../api/market-data'
+import { buildDataProvenance, withCacheStatus } from '../api/provenance'
+import { mergeKpWithStock } from '../utils/data-transform'
+import { calculateCorrelation } from '../utils/correlation'
+import {
+  calculateAverage,
+  calculateMax,
+  categorizeStormLevel,
+} from '../utils/statistics'
+import { DataProvenance, FlareAggregate, FlareAlignment, KpIndexData, VolatilityEstimator } from '../api/types'
+import { getCacheTags } from '../utils/cache-tags'
+import { logError, logInfo } from '../utils/error-handling'
+
+/**
+ * Options for getStormData server function
+ */
+export interface StormOptions {
+  startDate?: string
+  endDate?: string
+  stockSymbol?: string
+  flareAggregate?: FlareAggregate
+  adjustedPrices?: boolean
+  flareAlignment?: FlareAlignment
+  maxGapDays?: number  // Maximum flare age in days for 'asof' alignment
+  volatilityEstimator?: VolatilityEstimator
+  volatilityWindow?: number  // Rolling window in trading days for window estimators
+  annualizeVolatility?: boolean
+}
+
+/**
+ * Geomagnetic storm data structure
+ */
+export interface StormData {
+  summary: {
+    stormDays: number
+    tradingDaysWithStorm: number
+    maxKp: number
+    avgKp: number
+    avgVolatilityStormDays: number
+    avgVolatilityQuietDays: number
+    kpCorrelation: number
+    flareCorrelation: number
+    volatilityEstimator: VolatilityEstimator
+  }
+  byStormLevel: Record<string, number>
+  kpSeries: KpIndexData[]
+  timeSeriesData: Array<{
+    date: string
+    kp: number | null
+    volatility: number
+    volume: number
+  }>
+  correlationData: Array<{
+    kp: number
+    volatility: number
+  }>
+  provenance?: DataProvenance  // Set by the server action; absent on client-side sample data
+}
+
+/**
+ * Internal implementation of getStormData.
+ * Fetches geomagnetic storms (Kp index), solar flares and stock data in
+ * parallel so Kp and flare intensity can be compared as volatility drivers.
+ *
+ * @param options - Optional parameters for date range and stock symbol
+ * @returns Storm data with Kp series, volatility split and correlations
+ */
+async function getStormDataInternal(
+  options?: StormOptions
+): Promise<StormData> {
+  try {
+    // Use sensible defaults
+    const stockSymbol = options?.stockSymbol || 'AAPL'
+    const endDate = options?.endDate || new Date().toISOString().split('T')[0]
+    const startDate = options?.startDate || (() => {
+      const date = new Date()
+      date.setDate(date.getDate() - 30)
+      return date.toISOString().split('T')[0]
+    })()
+
+    logInfo('Generating storm data', {
+      function: 'getStormData',
+      startDate,
+      endDate,
+      stockSymbol,
+    })
+
+    // Kp, flares and volatility come from the shared loader, which coalesces
+    // identical fetches across actions and never rejects
+    const { kpSeries, stockData, composedData, sources } = await loadMarketDataset({
+      ...options,
+      startDate,
+      endDate,
+      stockSymbol,
+      kpIndex: true,
+    })
+
+    // Kp vs volatility on trading days with a storm reading
+    const kpRows = mergeKpWithStock(kpSeries, stockData)
+    const kpValues = kpRows.map(d => d.kp)
+    const kpVolatilityValues = kpRows.map(d => d.volatility)
+
+    // Flare vs volatility for a like-for-like comparison
+    const flareCorrelation = calculateCorrelation(
+      composedData.map(d => d.flare),
+      composedData.map(d => d.volatility)
+    )
+
+    // Split volatility into storm and quiet trading days
+    const kpByDate = new Map(kpRows.map(d => [d.date, d.kp]))
+    const quietVolatility = stockData
+      .filter(d => !kpByDate.has(d.date))
+      .map(d => d.volatility)
+
+    // Count storm days by NOAA G-scale level
+    const byStormLevel: Record<string, number> = {
+      None: 0,
+      G1: 0,
+      G2: 0,
+      G3: 0,
+      G4: 0,
+      G5: 0,
+    }
+
+    for (const reading of kpSeries) {
+      byStormLevel[categorizeStormLevel(reading.kp)]++
+    }
+
+    const timeSeriesData = stockData.map(item => ({
+      date: item.date,
+      kp: kpByDate.get(item.date) ?? null,
+      volatility: item.volatility,
+      volume: item.volume,
+    }))
+
+    const stormData: StormData = {
+      summary: {
+        stormDays: kpSeries.length,
+        tradingDaysWithStorm: kpRows.length,
+        maxKp: calculateMax(kpSeries.map(d => d.kp)),
+        avgKp: calculateAverage(kpSeries.map(d => d.kp)),
+        avgVolatilityStormDays: calculateAverage(kpVolatilityValues),
+        avgVolatilityQuietDays: calculateAverage(quietVolatility),
+        kpCorrelation: calculateCorrelation(kpValues, kpVolatilityValues),
+        flareCorrelation,
+        volatilityEstimator: options?.volatilityEstimator || 'range-change',
+      },
+      byStormLevel,
+      kpSeries,
+      timeSeriesData,
+      correlationData: kpRows.map(row => ({
+        kp: row.kp,
+        volatility: row.volatility,
+      })),
+      provenance: buildDataProvenance(sources),
+    }
+
+    logInfo('Successfully generated storm data', {
+      function: 'getStormData',
+      stormDays: stormData.summary.stormDays,
+      kpCorrelation: stormData.summary.kpCorrelation,
+      flareCorrelation,
+    })
+
+    return stormData
+  } catch (error) {
+    logError(
+      'Unexpected error in getStormData',
+      error,
+      {
+        function: 'getStormData',
+        options,
+      }
+    )
+
+    // Return empty storm data
+    return {
+      ...getEmptyStormData(),
+      provenance: buildDataProvenance([], true),
+    }
+  }
+}
+
+/**
+ * Get empty storm data structure
+ */
+function getEmptyStormData(): StormData {
+  return {
+    summary: {
+      stormDays: 0,
+      tradingDaysWithStorm: 0,
+      maxKp: 0,
+      avgKp: 0,
+      avgVolatilityStormDays: 0,
+      avgVolatilityQuietDays: 0,
+      kpCorrelation: 0,
+      flareCorrelation: 0,
+      volatilityEstimator: 'range-change',
+    },
+    byStormLevel: {
+      None: 0,
+      G1: 0,
+      G2: 0,
+      G3: 0,
+      G4: 0,
+      G5: 0,
+    },
+    kpSeries: [],
+    timeSeriesData: [],
+    correlationData: [],
+  }
+}
+
+/**
+ * Request-deduplicated version of getStormData.
+ * Uses React cache() to ensure simultaneous requests share results.
+ *
+ * Requirements: 6.4
+ */
+const getStormDataDeduplicated = cache(
+  async (optionsKey: string): Promise<StormData> => {
+    const options = optionsKey ? JSON.parse(optionsKey) : undefined
+    return getStormDataInternal(options)
+  }
+)
+
+/**
+ * Get geomagnetic storm data with Next.js caching and request deduplication.
+ *
+ * This function combines:
+ * - React cache() for request deduplication (same render cycle)
+ * - unstable_cache() for persistent caching with 1800s revalidation
+ *
+ * @param options - Optional parameters for date range and stock symbol
+ * @returns Storm data with Kp series, volatility split and correlations
+ */
+export async function getStormData(
+  options?: StormOptions
+): Promise<StormData> {
+  // Create a stable key for deduplication
+  const optionsKey = options ? JSON.stringify(options) : ''
+
+  // Use the deduplicated version
+  return getStormDataDeduplicated(optionsKey)
+}
+
+/**
+ * Cached version of getStormData with 1800s (30 minutes) revalidation.
+ *
+ * Each options set is its own entry, tagged with the action, the symbol
+ * and the data sources it was built from (see getCacheTags), so
+ * refreshStormData or refreshData can invalidate it without flushing
+ * unrelated entries.
+ *
+ * Requirements: 6.1
+ */
+export async function getCachedStormData(
+  options?: StormOptions
+): Promise<StormData> {
+  const optionsKey = options ? JSON.stringify(options) : ''
+  const requestedAt = new Date().toISOString()
+
+  const data = await unstable_cache(
+    async () => getStormDataDeduplicated(optionsKey),
+    ['storm-data', optionsKey],
+    {
+      revalidate: 1800, // 30 minutes (1800 seconds)
+      tags: getCacheTags('storm', {
+        symbols: [options?.stockSymbol || 'AAPL'],
+        sources: ['nasa', 'stock'],
+      }),
+    }
+  )()
+
+  return withCacheStatus(data, requestedAt)
+}
+
+/**
+ * Refresh storm data for the requested symbol, skipping the remaining
+ * revalidation window, and return the freshly loaded data.
+ *
+ * @param options - Same options as getCachedStormData
+ * @returns Freshly loaded storm data
+ */
+export async function refreshStormData(
+  options?: StormOptions
+): Promise<StormData> {
+  await refreshData({ action: 'storm', symbol: options?.stockSymbol || 'AAPL' })
+  return getCachedStormData(options)
+}
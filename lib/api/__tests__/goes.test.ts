@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { GOESClient } from '../goes'
+
+function reading(time_tag: string, flux: number | null, energy: string = '0.1-0.8nm') {
+  return { time_tag, satellite: 16, flux, energy }
+}
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+describe('GOESClient', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should turn runs of 1-minute flux above the threshold into flares', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([
+      reading('2024-05-10T00:00:00Z', 4e-7),
+      reading('2024-05-10T06:50:00Z', 5e-7),
+      reading('2024-05-10T06:51:00Z', 3e-5),
+      reading('2024-05-10T06:52:00Z', 4e-4),
+      reading('2024-05-10T06:52:00Z', 9e-5, '0.05-0.4nm'),
+      reading('2024-05-10T06:53:00Z', 2e-5),
+      reading('2024-05-10T06:54:00Z', 6e-7),
+      reading('2024-05-10T09:00:00Z', 1.5e-6),
+      reading('2024-05-10T09:01:00Z', null),
+      reading('2024-05-12T09:00:00Z', 2e-6),
+    ]))
+    const client = new GOESClient({ baseUrl: 'https://swpc.test', resolution: '1m' })
+
+    const events = await client.getFlareEvents('2024-05-10', '2024-05-11')
+
+    expect(events.map(e => [e.classType, e.beginTime, e.peakTime, e.endTime])).toEqual([
+      ['X4.0', '2024-05-10T06:51:00Z', '2024-05-10T06:52:00Z', '2024-05-10T06:53:00Z'],
+      ['C1.5', '2024-05-10T09:00:00Z', '2024-05-10T09:00:00Z', '2024-05-10T09:00:00Z'],
+    ])
+    expect(events.every(e => e.flrID === '')).toBe(true)
+    expect(fetchMock.mock.calls[0][0]).toBe('https://swpc.test/xrays-7-day.json')
+  })
+
+  it('should make one event per active day from daily flux', async () => {
+    fetchMock.mockResolvedValue(jsonResponse([
+      reading('2024-05-10T00:00:00Z', 2e-5),
+      reading('2024-05-11T00:00:00Z', 3e-4),
+      reading('2024-05-12T00:00:00Z', 4e-7),
+    ]))
+    const client = new GOESClient({ baseUrl: 'https://swpc.test', resolution: '1d' })
+
+    const events = await client.getFlareEvents('2024-05-10', '2024-05-12')
+
+    expect(events.map(e => e.classType)).toEqual(['M2.0', 'X3.0'])
+  })
+
+  it('should throw when the feed is unavailable', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({}, 503))
+    const client = new GOESClient({ baseUrl: 'https://swpc.test' })
+
+    await expect(client.getFlareEvents('2024-05-10', '2024-05-11')).rejects.toThrow('status 503')
+  })
+
+  it('should throw for a range the feed does not cover', async () => {
+    fetchMock.mockImplementation(async () => jsonResponse([
+      reading('2024-05-10T00:00:00Z', 4e-7),
+      reading('2024-05-12T23:59:00Z', 4e-7),
+    ]))
+    const client = new GOESClient({ baseUrl: 'https://swpc.test' })
+
+    await expect(client.getFlareEvents('2024-04-01', '2024-04-30')).rejects.toThrow('do not cover')
+    await expect(client.getFlareEvents('2024-05-09', '2024-05-12')).rejects.toThrow('do not cover')
+    await expect(client.getFlareEvents('2024-05-10', '2024-05-12')).resolves.toEqual([])
+  })
+
+  it('should read recorded files from a local directory', async () => {
+    const dataDir = await mkdtemp(path.join(tmpdir(), 'goes-'))
+
+    try {
+      await writeFile(path.join(dataDir, 'a.json'), JSON.stringify([
+        reading('2024-05-10T00:00:00Z', 4e-7),
+        reading('2024-05-10T06:51:00Z', 3e-5),
+        reading('2024-05-10T06:52:00Z', 1e-4),
+      ]))
+      await writeFile(path.join(dataDir, 'b.json'), JSON.stringify([
+        reading('2024-05-10T06:52:00Z', 1.2e-4),
+        reading('2024-05-10T06:53:00Z', 5e-7),
+      ]))
+      await writeFile(path.join(dataDir, 'broken.json'), '{not json')
+      const client = new GOESClient({ dataDir })
+
+      const events = await client.getFlareEvents('2024-05-10', '2024-05-10')
+
+      expect(fetchMock).not.toHaveBeenCalled()
+      expect(events.map(e => e.classType)).toEqual(['X1.2'])
+    } finally {
+      await rm(dataDir, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import { HttpCassette, resetHttpCassette } from '../http-cassette'
+import { NASAClient } from '../nasa'
+import { AlphaVantageProvider, FinnhubProvider, YahooFinanceProvider } from '../stock-providers'
+import { APIError, StockProviderRequest } from '../types'
+import { resetCircuitBreakers } from '../resilience'
+import { resetRateLimiters } from '../rate-limit'
+
+const CASSETTE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'cassettes')
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+describe('HttpCassette', () => {
+  const fetchMock = vi.fn()
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'cassettes-'))
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('should record responses with credentials redacted and replay them offline', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ s: 'ok', t: [1] }))
+    const recorder = new HttpCassette({ mode: 'record', dir })
+
+    const live = await recorder.fetch('finnhub', 'https://finnhub.io/api/v1/stock/candle?symbol=AAPL&token=secret')
+    expect(await live.json()).toEqual({ s: 'ok', t: [1] })
+
+    const saved = await readFile(path.join(dir, 'finnhub.json'), 'utf-8')
+    expect(saved).not.toContain('secret')
+
+    fetchMock.mockRejectedValue(new Error('offline'))
+    const player = new HttpCassette({ mode: 'replay', dir })
+    const replayed = await player.fetch('finnhub', 'https://finnhub.io/api/v1/stock/candle?symbol=AAPL&token=other')
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(replayed.headers.get('content-type')).toBe('application/json')
+    expect(await replayed.json()).toEqual({ s: 'ok', t: [1] })
+  })
+
+  it('should skip error responses and fall back across date windows on replay', async () => {
+    fetchMock
+      .mockResolvedValueOnce(jsonResponse([{ flrID: 'F1' }]))
+      .mockResolvedValueOnce(jsonResponse({}, 503))
+    const recorder = new HttpCassette({ mode: 'record', dir })
+    await recorder.fetch('donki', 'https://api.nasa.gov/DONKI/FLR?startDate=2024-05-01&endDate=2024-05-07&api_key=k')
+    const outage = await recorder.fetch('donki', 'https://api.nasa.gov/DONKI/GST?startDate=2024-05-01&endDate=2024-05-07&api_key=k')
+    expect(outage.status).toBe(503)
+
+    const player = new HttpCassette({ mode: 'replay', dir })
+    const shifted = await player.fetch('donki', 'https://api.nasa.gov/DONKI/FLR?startDate=2024-05-08&endDate=2024-05-14&api_key=k')
+    expect(await shifted.json()).toEqual([{ flrID: 'F1' }])
+
+    const missing = player.fetch('donki', 'https://api.nasa.gov/DONKI/GST?startDate=2024-05-01&endDate=2024-05-07&api_key=k')
+    await expect(missing).rejects.toBeInstanceOf(APIError)
+    await expect(missing).rejects.toMatchObject({ statusCode: 404, provider: 'donki' })
+  })
+})
+
+describe('provider parsing of recorded responses', () => {
+  const request: StockProviderRequest = {
+    symbol: 'AAPL',
+    startDate: '2024-05-06',
+    endDate: '2024-05-10',
+    interval: '1d',
+    apiKey: 'replay-key',
+    timeout: 1000,
+  }
+
+  beforeEach(() => {
+    vi.stubEnv('HTTP_CASSETTE_MODE', 'replay')
+    vi.stubEnv('HTTP_CASSETTE_DIR', CASSETTE_DIR)
+    vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('network access in replay mode')))
+    resetHttpCassette()
+    resetCircuitBreakers()
+    resetRateLimiters()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+    resetHttpCassette()
+  })
+
+  it('should parse DONKI flares', async () => {
+    const client = new NASAClient({ apiKey: 'replay-key', retryDelay: 0 })
+
+    const flares = client.transformFlareData(await client.getFlareEvents('2024-05-08', '2024-05-14'))
+
+    expect(flares.map(flare => flare.class)).toEqual(['X1.0', 'X2.2', 'X3.9', 'X5.8'])
+    expect(flares[0].date).toBe('2024-05-08')
+  })
+
+  it('should parse Yahoo, Alpha Vantage and Finnhub daily bars alike', async () => {
+    const [yahoo, alphaVantage, finnhub] = await Promise.all([
+      new YahooFinanceProvider().fetchQuotes(request),
+      new AlphaVantageProvider().fetchQuotes(request),
+      new FinnhubProvider().fetchQuotes(request),
+    ])
+
+    for (const quotes of [yahoo, alphaVantage, finnhub]) {
+      expect(quotes.map(quote => quote.close)).toEqual([181.71, 182.4, 182.74, 184.57, 183.05])
+      expect(quotes[0].volume).toBe(78569700)
+    }
+    expect(yahoo[0].adjClose).toBeLessThan(yahoo[0].close)
+  })
+
+  it('should parse Yahoo dividends', async () => {
+    const actions = await new YahooFinanceProvider().fetchCorporateActions(request)
+
+    expect(actions).toEqual([
+      expect.objectContaining({ type: 'dividend', date: '2024-05-10', amount: 0.25 }),
+    ])
+  })
+})
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { coalesce, loadMarketDataset, loadStockSeries } from '../market-data'
+import * as nasaModule from '../nasa'
+import * as stockModule from '../stock'
+
+vi.mock('../nasa')
+vi.mock('../stock')
+vi.mock('../solar-indices')
+
+const range = { startDate: '2024-01-01', endDate: '2024-01-31' }
+
+describe('market data loader', () => {
+  let getFlareEvents: ReturnType<typeof vi.fn>
+  let getLinkedEvents: ReturnType<typeof vi.fn>
+  let getStockData: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.stubEnv('TIMESERIES_STORE', 'off')
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    getFlareEvents = vi.fn().mockResolvedValue([{ flrID: 'flr-1' }])
+    getLinkedEvents = vi.fn().mockResolvedValue({ cmes: [], storms: [] })
+    getStockData = vi.fn().mockResolvedValue([
+      { timestamp: Date.UTC(2024, 0, 2) / 1000, open: 100, high: 104, low: 99, close: 102, volume: 1000 },
+    ])
+
+    vi.mocked(nasaModule.NASAClient).mockImplementation(function (this: any) {
+      this.getFlareEvents = getFlareEvents
+      this.getLinkedEvents = getLinkedEvents
+      this.transformFlareData = vi.fn().mockReturnValue([
+        { id: 'flr-1', date: '2024-01-02', flare: 4, class: 'M1.0', peakTime: '2024-01-02T12:00Z', linkedEvents: ['2024-01-02T13:00:00-CME-001'] },
+        { id: 'flr-2', date: '2024-01-03', flare: 4, class: 'M2.0', peakTime: '2024-01-03T12:00Z' },
+      ])
+      return this
+    } as any)
+
+    vi.mocked(stockModule.StockClient).mockImplementation(function (this: any) {
+      this.getStockData = getStockData
+      this.calculateVolatility = vi.fn((quotes: any[]) =>
+        quotes.map(() => ({ date: '2024-01-02', open: 100, high: 104, low: 99, close: 102, volume: 1000, volatility: 5 }))
+      )
+      this.config = { provider: 'yahoo' }
+      return this
+    } as any)
+  })
+
+  it('should share an in-flight load and forget it once settled', async () => {
+    const load = vi.fn().mockResolvedValue('data')
+
+    const [first, second] = await Promise.all([coalesce('key', load), coalesce('key', load)])
+    expect(first).toBe('data')
+    expect(second).toBe('data')
+    expect(load).toHaveBeenCalledTimes(1)
+
+    await coalesce('key', load)
+    expect(load).toHaveBeenCalledTimes(2)
+  })
+
+  it('should make one NASA and one stock call for concurrent actions', async () => {
+    const [dashboard, forecast, comparison] = await Promise.all([
+      loadMarketDataset({ ...range, stockSymbol: 'AAPL', flareAggregate: 'sum' }),
+      loadMarketDataset({ ...range, stockSymbol: 'aapl', volatilityEstimator: 'parkinson' }),
+      loadStockSeries('AAPL', range),
+    ])
+
+    expect(getFlareEvents).toHaveBeenCalledTimes(1)
+    expect(getStockData).toHaveBeenCalledTimes(1)
+    expect(dashboard.flareData).toEqual(forecast.flareData)
+    expect(dashboard.composedData).toHaveLength(1)
+    expect(comparison.records).toHaveLength(1)
+  })
+
+  it('should build the event graph from the shared flare load', async () => {
+    getLinkedEvents.mockResolvedValue({
+      cmes: [],
+      storms: [{
+        gstID: '2024-01-04T06:00:00-GST-001',
+        startTime: '2024-01-04T06:00Z',
+        allKpIndex: [{ kpIndex: 7 }],
+        linkedEvents: [{ activityID: '2024-01-02T13:00:00-CME-001' }],
+      }],
+    })
+
+    const [linked, all] = await Promise.all([
+      loadMarketDataset({ ...range, stockSymbol: 'AAPL', flareLinkage: 'storm' }),
+      loadMarketDataset({ ...range, stockSymbol: 'AAPL' }),
+    ])
+
+    expect(getFlareEvents).toHaveBeenCalledTimes(1)
+    expect(getLinkedEvents).toHaveBeenCalledTimes(1)
+    expect(linked.flareData.map(flare => flare.id)).toEqual(['flr-1'])
+    expect(all.flareData).toHaveLength(2)
+  })
+
+  it('should load flares from before the range that belong to its first session', async () => {
+    vi.mocked(nasaModule.NASAClient).mockImplementation(function (this: any) {
+      this.getFlareEvents = getFlareEvents
+      this.transformFlareData = vi.fn().mockReturnValue([
+        { id: 'thu', date: '2024-01-04', flare: 4, class: 'M1.0', peakTime: '2024-01-04T22:00Z' },
+        { id: 'fri-open', date: '2024-01-05', flare: 4, class: 'M1.0', peakTime: '2024-01-05T15:00Z' },
+        { id: 'fri-close', date: '2024-01-05', flare: 4, class: 'M1.0', peakTime: '2024-01-05T22:00Z' },
+        { id: 'sat', date: '2024-01-06', flare: 4, class: 'M1.0', peakTime: '2024-01-06T12:00Z' },
+        { id: 'mon', date: '2024-01-08', flare: 4, class: 'M1.0', peakTime: '2024-01-08T15:00Z' },
+      ])
+      return this
+    } as any)
+    vi.mocked(stockModule.StockClient).mockImplementation(function (this: any) {
+      this.getStockData = getStockData
+      this.calculateVolatility = vi.fn(() => [
+        { date: '2024-01-08', open: 100, high: 104, low: 99, close: 102, volume: 1000, volatility: 5 },
+      ])
+      this.config = { provider: 'yahoo' }
+      return this
+    } as any)
+    const week = { startDate: '2024-01-08', endDate: '2024-01-12' }
+
+    const [sinceClose, nextSession] = await Promise.all([
+      loadMarketDataset({ ...week, stockSymbol: 'AAPL', flareAlignment: 'since-close' }),
+      loadMarketDataset({ ...week, stockSymbol: 'AAPL', flareAlignment: 'next-session' }),
+    ])
+
+    expect(getFlareEvents.mock.calls.map(([start]) => start).sort()).toEqual(['2024-01-05', '2024-01-06'])
+    expect(sinceClose.composedData.map(row => [row.date, row.flareCount])).toEqual([['2024-01-08', 3]])
+    expect(nextSession.composedData.map(row => [row.date, row.flareCount])).toEqual([['2024-01-08', 2]])
+    expect(sinceClose.flareData.map(flare => flare.id)).toEqual(['mon'])
+  })
+
+  it('should return the other sources when one fails', async () => {
+    getFlareEvents.mockRejectedValue(new Error('NASA API failed'))
+
+    const dataset = await loadMarketDataset({ ...range, stockSymbol: 'AAPL' })
+
+    expect(dataset.flareData).toEqual([])
+    expect(dataset.stockData).toHaveLength(1)
+    expect(dataset.sources).toEqual([
+      expect.objectContaining({ source: 'flares', failedProviders: ['donki'], recordCount: 0, degraded: true }),
+      expect.objectContaining({ source: 'stock', symbol: 'AAPL', recordCount: 1, degraded: false }),
+    ])
+  })
+})
@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { NASAClient } from '../nasa'
+import { resetCircuitBreakers } from '../resilience'
+import { resetRateLimiters } from '../rate-limit'
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+function flare(flrID: string, peakTime: string, classType: string = 'M1.0') {
+  return {
+    flrID,
+    beginTime: peakTime,
+    peakTime,
+    endTime: peakTime,
+    classType,
+    sourceLocation: 'N10W20',
+    activeRegionNum: 13000,
+    linkedEvents: [],
+  }
+}
+
+describe('NASAClient', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    resetCircuitBreakers()
+    resetRateLimiters()
+    vi.stubGlobal('fetch', fetchMock)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('getFlareEvents', () => {
+    it('should split long ranges into bounded chunks', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse([]))
+      const client = new NASAClient({ apiKey: 'test', chunkDays: 30, retryDelay: 0 })
+
+      await client.getFlareEvents('2024-01-01', '2024-03-31')
+
+      const windows = fetchMock.mock.calls.map(([url]) => {
+        const params = new URL(url as string).searchParams
+        return [params.get('startDate'), params.get('endDate')]
+      })
+      expect(windows).toEqual([
+        ['2024-01-01', '2024-01-30'],
+        ['2024-01-31', '2024-02-29'],
+        ['2024-03-01', '2024-03-30'],
+        ['2024-03-31', '2024-03-31'],
+      ])
+    })
+
+    it('should retry a failing chunk without losing the others', async () => {
+      let januaryAttempts = 0
+      fetchMock.mockImplementation(async (url: string) => {
+        const start = new URL(url).searchParams.get('startDate')
+        if (start === '2024-01-01') {
+          januaryAttempts++
+          return januaryAttempts === 1
+            ? jsonResponse({}, 503)
+            : jsonResponse([flare('F1', '2024-01-05T10:00Z')])
+        }
+        return jsonResponse({}, 500)
+      })
+      const client = new NASAClient({ apiKey: 'test', chunkDays: 31, maxRetries: 1, retryDelay: 0 })
+
+      const events = await client.getFlareEvents('2024-01-01', '2024-02-15')
+
+      expect(januaryAttempts).toBe(2)
+      expect(events.map(e => e.flrID)).toEqual(['F1'])
+    })
+
+    it('should de-duplicate events by flrID', async () => {
+      fetchMock.mockImplementation(async () =>
+        jsonResponse([flare('F1', '2024-01-05T10:00Z'), flare('F2', '2024-01-06T10:00Z')])
+      )
+      const client = new NASAClient({ apiKey: 'test', chunkDays: 10, retryDelay: 0 })
+
+      const events = await client.getFlareEvents('2024-01-01', '2024-01-20')
+
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(events.map(e => e.flrID)).toEqual(['F1', 'F2'])
+    })
+
+    it('should not retry client errors', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({}, 403))
+      const client = new NASAClient({ apiKey: 'test', maxRetries: 3, retryDelay: 0 })
+
+      const events = await client.getFlareEvents('2024-01-01', '2024-01-10')
+
+      const donkiCalls = fetchMock.mock.calls.filter(([url]) => String(url).includes('/FLR'))
+      expect(events).toEqual([])
+      expect(donkiCalls).toHaveLength(1)
+    })
+
+    it('should throw on request when every provider failed', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({}, 403))
+      const client = new NASAClient({ apiKey: 'test', maxRetries: 0, retryDelay: 0 })
+
+      await expect(client.getFlareEvents('2024-01-01', '2024-01-10', true)).rejects.toThrow('All solar flare providers failed')
+    })
+
+    it('should fall back to GOES X-ray flux when every DONKI chunk fails', async () => {
+      fetchMock.mockImplementation(async (url: string) => {
+        if (url.includes('/FLR')) {
+          return jsonResponse({}, 429)
+        }
+        return jsonResponse([
+          { time_tag: '2024-01-01T00:00:00Z', satellite: 16, flux: 4e-7, energy: '0.1-0.8nm' },
+          { time_tag: '2024-01-05T10:00:00Z', satellite: 16, flux: 2e-6, energy: '0.1-0.8nm' },
+          { time_tag: '2024-01-05T10:01:00Z', satellite: 16, flux: 5e-6, energy: '0.1-0.8nm' },
+          { time_tag: '2024-01-05T10:02:00Z', satellite: 16, flux: 8e-7, energy: '0.1-0.8nm' },
+          { time_tag: '2024-01-10T12:00:00Z', satellite: 16, flux: 4e-7, energy: '0.1-0.8nm' },
+        ])
+      })
+      const client = new NASAClient({ apiKey: 'test', maxRetries: 0, retryDelay: 0 })
+
+      const events = await client.getFlareEvents('2024-01-01', '2024-01-10')
+
+      expect(events.map(e => [e.classType, e.peakTime])).toEqual([['C5.0', '2024-01-05T10:01:00Z']])
+      expect(fetchMock.mock.calls.some(([url]) => String(url).includes('xrays-7-day.json'))).toBe(true)
+    })
+  })
+
+  describe('transformFlareData', () => {
+    it('should keep A and B class flares with their peak flux', () => {
+      const client = new NASAClient({ apiKey: 'test' })
+
+      const result = client.transformFlareData([
+        flare('F1', '2024-01-05T10:00Z', 'B7.1'),
+        flare('F2', '2024-01-05T12:00Z', 'X2.0'),
+      ])
+
+      expect(result).toHaveLength(2)
+      expect(result[0].flux).toBeCloseTo(7.1e-7, 15)
+      expect(result[1].flux).toBeCloseTo(2e-4, 15)
+    })
+
+    it('should add flare timing from begin, peak and end times', () => {
+      const client = new NASAClient({ apiKey: 'test' })
+
+      const [result] = client.transformFlareData([
+        {
+          ...flare('F1', '2024-01-05T10:00Z', 'M2.0'),
+          beginTime: '2024-01-05T09:50Z',
+          endTime: '2024-01-05T11:10Z',
+        },
+      ])
+
+      expect(result.riseMinutes).toBe(10)
+      expect(result.decayMinutes).toBe(70)
+      expect(result.durationMinutes).toBe(80)
+      expect(result.fluence).toBeCloseTo(0.5 * 2e-5 * 80 * 60, 10)
+    })
+
+    it('should parse sourceLocation into heliographic coordinates', () => {
+      const client = new NASAClient({ apiKey: 'test' })
+
+      const [located, unlocated] = client.transformFlareData([
+        { ...flare('F1', '2024-01-05T10:00Z'), sourceLocation: 'S05E12' },
+        { ...flare('F2', '2024-01-05T12:00Z'), sourceLocation: '' },
+      ])
+
+      expect(located.latitude).toBe(-5)
+      expect(located.longitude).toBe(-12)
+      expect(unlocated.latitude).toBeUndefined()
+      expect(unlocated.longitude).toBeUndefined()
+    })
+  })
+
+  describe('transformKpIndexData', () => {
+    it('should reduce Kp readings to a daily max series', () => {
+      const client = new NASAClient({ apiKey: 'test' })
+
+      const result = client.transformKpIndexData([
+        {
+          gstID: 'G1',
+          startTime: '2024-05-10T15:00Z',
+          allKpIndex: [
+            { observedTime: '2024-05-10T18:00Z', kpIndex: 7.67, source: 'NOAA' },
+            { observedTime: '2024-05-10T21:00Z', kpIndex: 9, source: 'NOAA' },
+            { observedTime: '2024-05-11T03:00Z', kpIndex: 8.33, source: 'NOAA' },
+          ],
+          linkedEvents: [],
+        },
+      ])
+
+      expect(result.map(d => [d.date, d.kp])).toEqual([
+        ['2024-05-10', 9],
+        ['2024-05-11', 8.33],
+      ])
+    })
+  })
+})
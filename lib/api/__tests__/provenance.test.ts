@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildDataProvenance,
+  recordFetch,
+  recordFetchFailure,
+  recordStoreRead,
+  trackSource,
+  withCacheStatus,
+} from '../provenance'
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1))
+
+describe('provenance', () => {
+  it('should attribute provider reports to the load that made them', async () => {
+    const [flares, stock] = await Promise.all([
+      trackSource('flares', async () => {
+        recordFetchFailure('donki')
+        await tick()
+        recordFetch('goes', true)
+        return [1, 2]
+      }),
+      trackSource('stock', async () => {
+        recordStoreRead('partial')
+        await tick()
+        recordFetch('yahoo')
+        return [1]
+      }, { symbol: 'AAPL' }),
+    ])
+
+    expect(flares.provenance).toMatchObject({
+      providers: ['goes'],
+      failedProviders: ['donki'],
+      store: 'off',
+      recordCount: 2,
+      fallback: true,
+      degraded: true,
+    })
+    expect(stock.provenance).toMatchObject({
+      symbol: 'AAPL',
+      providers: ['yahoo'],
+      failedProviders: [],
+      store: 'partial',
+      degraded: false,
+    })
+    expect(stock.provenance.fetchedAt).toBeDefined()
+
+    // Outside a tracked load, reports are ignored
+    expect(() => recordFetch('yahoo')).not.toThrow()
+  })
+
+  it('should flag partial and degraded responses', async () => {
+    const healthy = await trackSource('stock', async () => {
+      recordFetch('yahoo')
+      return []
+    })
+    const failed = await trackSource('flares', async () => {
+      recordFetchFailure('donki')
+      return []
+    })
+
+    expect(buildDataProvenance([healthy.provenance, failed.provenance])).toMatchObject({
+      cache: 'miss',
+      providers: ['yahoo'],
+      partial: true,
+      degraded: true,
+    })
+    expect(buildDataProvenance([healthy.provenance])).toMatchObject({ partial: false, degraded: false })
+    expect(buildDataProvenance([], true)).toMatchObject({ partial: false, degraded: true })
+  })
+
+  it('should report responses built before a cached read as hits', () => {
+    const data = { provenance: { ...buildDataProvenance([]), generatedAt: '2024-01-01T00:00:00.000Z' } }
+
+    expect(withCacheStatus(data, '2024-01-01T00:30:00.000Z').provenance.cache).toBe('hit')
+    expect(withCacheStatus(data, '2024-01-01T00:00:00.000Z').provenance.cache).toBe('miss')
+  })
+})
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  RateLimiter,
+  RateLimitError,
+  getRateLimiter,
+  getRateLimitStates,
+  recordRateLimitHeaders,
+  resetRateLimiters,
+} from '../rate-limit'
+import { callWithResilience, resetCircuitBreakers } from '../resilience'
+import { APIError } from '../types'
+
+describe('rate limiting', () => {
+  beforeEach(() => {
+    resetCircuitBreakers()
+    resetRateLimiters()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('RateLimiter', () => {
+    it('should queue requests behind each other once the bucket is empty', async () => {
+      vi.useFakeTimers()
+      const limiter = new RateLimiter('p', { limit: 2, interval: 1000, reserve: 0, overflow: 'queue', maxWait: 5000 })
+      const done: number[] = []
+
+      await limiter.acquire()
+      await limiter.acquire()
+      limiter.acquire().then(() => done.push(1))
+      limiter.acquire().then(() => done.push(2))
+      expect(limiter.snapshot().queued).toBe(2)
+
+      await vi.advanceTimersByTimeAsync(500)
+      expect(done).toEqual([1])
+      await vi.advanceTimersByTimeAsync(500)
+      expect(done).toEqual([1, 2])
+      expect(limiter.snapshot()).toMatchObject({ queued: 0, available: 0, nearLimit: true })
+    })
+
+    it('should shed requests that would wait longer than maxWait', async () => {
+      const limiter = new RateLimiter('p', { limit: 30, interval: 60 * 60 * 1000, reserve: 0, overflow: 'queue', maxWait: 15000 })
+      for (let i = 0; i < 30; i++) {
+        await limiter.acquire()
+      }
+
+      await expect(limiter.acquire()).rejects.toBeInstanceOf(RateLimitError)
+      expect(limiter.snapshot().shed).toBe(1)
+    })
+
+    it('should pull the bucket down to the reported remaining quota', async () => {
+      const limiter = new RateLimiter('p', { limit: 1000, interval: 60 * 60 * 1000, reserve: 2, overflow: 'shed', maxWait: 0 })
+
+      limiter.updateFromHeaders(new Headers({ 'X-RateLimit-Remaining': '3', 'X-RateLimit-Limit': '1000' }))
+
+      await limiter.acquire()
+      await expect(limiter.acquire()).rejects.toBeInstanceOf(RateLimitError)
+      expect(limiter.snapshot()).toMatchObject({ remaining: 3, reportedLimit: 1000, nearLimit: true })
+    })
+  })
+
+  describe('shared limiters', () => {
+    it('should only limit providers with a known quota', () => {
+      expect(getRateLimiter('alphavantage')?.snapshot()).toMatchObject({ limit: 5, interval: 60000 })
+      expect(getRateLimiter('csv')).toBeUndefined()
+
+      recordRateLimitHeaders('finnhub', new Headers({ 'X-Ratelimit-Remaining': '10' }))
+      expect(getRateLimitStates().map(state => state.provider)).toEqual(['alphavantage'])
+    })
+
+    it('should shed through callWithResilience without calling the provider', async () => {
+      const fn = vi.fn().mockResolvedValue('ok')
+      const options = { provider: 'limited', functionName: 'test', rateLimit: { limit: 1, overflow: 'shed' as const } }
+
+      await expect(callWithResilience(fn, options)).resolves.toBe('ok')
+      await expect(callWithResilience(fn, options)).rejects.toBeInstanceOf(RateLimitError)
+      expect(fn).toHaveBeenCalledTimes(1)
+    })
+
+    it('should empty the bucket when the provider answers 429', async () => {
+      const fn = vi.fn().mockRejectedValue(new APIError('rate limited', 429, 'finnhub'))
+
+      await expect(callWithResilience(fn, { provider: 'finnhub', functionName: 'test', maxRetries: 0 }))
+        .rejects.toThrow('rate limited')
+      expect(getRateLimiter('finnhub')?.snapshot().available).toBe(0)
+    })
+  })
+})
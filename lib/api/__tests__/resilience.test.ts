@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  callWithResilience,
+  parseRetryAfter,
+  getCircuitBreaker,
+  getCircuitBreakerStates,
+  resetCircuitBreakers,
+  CircuitOpenError,
+} from '../resilience'
+import { resetRateLimiters } from '../rate-limit'
+import { APIError } from '../types'
+
+describe('resilience', () => {
+  beforeEach(() => {
+    resetCircuitBreakers()
+    resetRateLimiters()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  describe('parseRetryAfter', () => {
+    it('should read delay seconds and HTTP dates', () => {
+      const now = Date.UTC(2024, 0, 1, 12)
+
+      expect(parseRetryAfter('2')).toBe(2000)
+      expect(parseRetryAfter('Mon, 01 Jan 2024 12:00:30 GMT', now)).toBe(30000)
+      expect(parseRetryAfter('Mon, 01 Jan 2024 11:00:00 GMT', now)).toBe(0)
+      expect(parseRetryAfter(null)).toBeUndefined()
+      expect(parseRetryAfter('soon')).toBeUndefined()
+    })
+  })
+
+  describe('callWithResilience', () => {
+    it('should retry transient failures and stop on client errors', async () => {
+      const flaky = vi.fn()
+        .mockRejectedValueOnce(new APIError('unavailable', 503, 'p'))
+        .mockRejectedValueOnce(new Error('socket hang up'))
+        .mockResolvedValueOnce('ok')
+
+      await expect(callWithResilience(flaky, { provider: 'p', functionName: 'test', baseDelay: 0 }))
+        .resolves.toBe('ok')
+      expect(flaky).toHaveBeenCalledTimes(3)
+
+      const rejected = vi.fn().mockRejectedValue(new APIError('forbidden', 403, 'p'))
+      await expect(callWithResilience(rejected, { provider: 'p', functionName: 'test', baseDelay: 0 }))
+        .rejects.toThrow('forbidden')
+      expect(rejected).toHaveBeenCalledTimes(1)
+    })
+
+    it('should wait for Retry-After instead of the backoff', async () => {
+      vi.useFakeTimers()
+      const limited = vi.fn()
+        .mockRejectedValueOnce(new APIError('rate limited', 429, 'p', 5000))
+        .mockResolvedValueOnce('ok')
+
+      const result = callWithResilience(limited, { provider: 'p', functionName: 'test', baseDelay: 0 })
+
+      await vi.advanceTimersByTimeAsync(4999)
+      expect(limited).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+      await expect(result).resolves.toBe('ok')
+      expect(limited).toHaveBeenCalledTimes(2)
+    })
+
+    it('should give up when Retry-After is longer than allowed', async () => {
+      const limited = vi.fn().mockRejectedValue(new APIError('rate limited', 429, 'p', 120000))
+
+      await expect(callWithResilience(limited, { provider: 'p', functionName: 'test', maxRetryAfter: 60000 }))
+        .rejects.toThrow('rate limited')
+      expect(limited).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('circuit breaker', () => {
+    it('should open after repeated failures and close after a half-open probe succeeds', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(10000)
+      getCircuitBreaker('dead', { failureThreshold: 2, resetTimeout: 1000 })
+      const down = vi.fn().mockRejectedValue(new APIError('bad gateway', 502, 'dead'))
+      const options = { provider: 'dead', functionName: 'test', maxRetries: 0 }
+
+      await expect(callWithResilience(down, options)).rejects.toThrow('bad gateway')
+      await expect(callWithResilience(down, options)).rejects.toThrow('bad gateway')
+      await expect(callWithResilience(down, options)).rejects.toBeInstanceOf(CircuitOpenError)
+      expect(down).toHaveBeenCalledTimes(2)
+      expect(getCircuitBreakerStates()).toEqual([
+        { provider: 'dead', state: 'open', failures: 2, openedAt: 10000 },
+      ])
+
+      // Only one probe is let through once the reset timeout has passed
+      vi.setSystemTime(11000)
+      const breaker = getCircuitBreaker('dead')
+      expect(breaker.canRequest()).toBe(true)
+      expect(breaker.canRequest()).toBe(false)
+      breaker.recordFailure()
+      expect(breaker.snapshot().state).toBe('open')
+
+      vi.setSystemTime(12000)
+      const up = vi.fn().mockResolvedValue('ok')
+      await expect(callWithResilience(up, options)).resolves.toBe('ok')
+      expect(breaker.snapshot()).toMatchObject({ state: 'closed', failures: 0 })
+    })
+  })
+})
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { SolarIndexClient, resetSolarIndexCache } from '../solar-indices'
+import { trackSource } from '../provenance'
+
+const SUNSPOT_URL = 'https://example.test/SN_d_tot_V2.0.csv'
+const F107_URL = 'https://example.test/fluxtable.txt'
+
+function textResponse(body: string, status: number = 200): Response {
+  return new Response(body, { status, headers: { 'Content-Type': 'text/plain' } })
+}
+
+describe('SolarIndexClient', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    resetSolarIndexCache()
+    vi.stubGlobal('fetch', fetchMock)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('should reuse parsed index files until the cache TTL passes', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    fetchMock.mockImplementation(async (url: string) => textResponse(
+      url === SUNSPOT_URL ? '2024;05;10;2024.355; 187; 15.4;  35;0' : 'date,f107\n2024-05-10,233.4'
+    ))
+    const client = new SolarIndexClient({ sunspotSource: SUNSPOT_URL, f107Source: F107_URL, cacheTtl: 60000 })
+
+    const first = await client.getSolarIndices('2024-05-01', '2024-05-31')
+    await new SolarIndexClient({ sunspotSource: SUNSPOT_URL, f107Source: F107_URL, cacheTtl: 60000 })
+      .getSolarIndices('2024-05-10', '2024-05-10')
+    expect(first).toEqual([{ date: '2024-05-10', sunspotNumber: 187, f107: 233.4 }])
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+
+    vi.advanceTimersByTime(60000)
+    await client.getSolarIndices('2024-05-01', '2024-05-31')
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+  })
+
+  it('should credit a reused file to its provider at the time it was downloaded', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-05-10T00:00:00Z'))
+    fetchMock.mockImplementation(async (url: string) => textResponse(
+      url === SUNSPOT_URL ? '2024;05;10;2024.355; 187; 15.4;  35;0' : 'date,f107\n2024-05-10,233.4'
+    ))
+    const client = new SolarIndexClient({ sunspotSource: SUNSPOT_URL, f107Source: F107_URL })
+    await client.getSolarIndices('2024-05-01', '2024-05-31')
+
+    vi.setSystemTime(new Date('2024-05-10T01:00:00Z'))
+    const { provenance } = await trackSource('solar-indices', () => client.getSolarIndices('2024-05-01', '2024-05-31'))
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(provenance).toMatchObject({
+      providers: ['silso', 'drao'],
+      store: 'off',
+      fetchedAt: '2024-05-10T00:00:00.000Z',
+    })
+  })
+
+  it('should not cache a source that failed to load', async () => {
+    fetchMock.mockImplementation(async (url: string) =>
+      url === SUNSPOT_URL ? textResponse('', 503) : textResponse('date,f107\n2024-05-10,233.4')
+    )
+    const client = new SolarIndexClient({ sunspotSource: SUNSPOT_URL, f107Source: F107_URL })
+
+    await client.getSolarIndices('2024-05-01', '2024-05-31')
+    await client.getSolarIndices('2024-05-01', '2024-05-31')
+
+    const sunspotCalls = fetchMock.mock.calls.filter(([url]) => url === SUNSPOT_URL)
+    expect(sunspotCalls).toHaveLength(2)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+})
@@ -0,0 +1,443 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { StockClient } from '../stock'
+import { createDefaultStockProviderRegistry, isCryptoSymbol, CSVFileProvider } from '../stock-providers'
+import { StockProvider } from '../types'
+import { resetCircuitBreakers } from '../resilience'
+import { resetRateLimiters } from '../rate-limit'
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+describe('StockClient', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    resetCircuitBreakers()
+    resetRateLimiters()
+    vi.stubGlobal('fetch', fetchMock)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('getStockData intervals', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date('2024-05-13T00:00:00Z'))
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should request intraday bars from Yahoo and shorten unsupported ranges', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({
+        chart: {
+          result: [{
+            timestamp: [1715347800, 1715348100],
+            indicators: {
+              quote: [{
+                open: [180, 181],
+                high: [181.5, 182],
+                low: [179.8, 180.6],
+                close: [181, 181.8],
+                volume: [120000, 95000],
+              }],
+            },
+          }],
+        },
+      }))
+      const client = new StockClient({ provider: 'yahoo' })
+
+      const quotes = await client.getStockData('AAPL', '1mo', '1m')
+
+      const url = new URL(fetchMock.mock.calls[0][0] as string)
+      expect(url.searchParams.get('interval')).toBe('1m')
+      // 1m bars only go back 7 days
+      expect(Number(url.searchParams.get('period1'))).toBe(Date.UTC(2024, 4, 6) / 1000)
+      expect(quotes).toHaveLength(2)
+    })
+
+    it('should convert Alpha Vantage intraday times from the exchange time zone', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({
+        'Meta Data': { '6. Time Zone': 'US/Eastern' },
+        'Time Series (5min)': {
+          '2024-05-10 09:30:00': {
+            '1. open': '180', '2. high': '181', '3. low': '179', '4. close': '180.5', '5. volume': '1000',
+          },
+        },
+      }))
+      const client = new StockClient({ provider: 'alphavantage', apiKey: 'test' })
+
+      const [quote] = await client.getStockData('AAPL', '1mo', '5m')
+
+      expect(String(fetchMock.mock.calls[0][0])).toContain('function=TIME_SERIES_INTRADAY')
+      expect(String(fetchMock.mock.calls[0][0])).toContain('interval=5min')
+      // 09:30 EDT is 13:30 UTC
+      expect(quote.timestamp).toBe(Date.UTC(2024, 4, 10, 13, 30) / 1000)
+    })
+
+    it('should pass older intraday ranges spanning several months on from Alpha Vantage', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({
+        chart: {
+          result: [{
+            timestamp: [Date.UTC(2024, 2, 29, 14) / 1000],
+            indicators: { quote: [{ open: [1], high: [1], low: [1], close: [1], volume: [1] }] },
+          }],
+        },
+      }))
+      const client = new StockClient({ provider: 'alphavantage', apiKey: 'test', maxRetries: 0 })
+
+      const quotes = await client.getStockData('AAPL', { startDate: '2024-03-25', endDate: '2024-04-05' }, '1h')
+
+      expect(fetchMock.mock.calls.some(([url]) => String(url).includes('alphavantage.co'))).toBe(false)
+      expect(String(fetchMock.mock.calls[0][0])).toContain('finance.yahoo.com')
+      expect(quotes).toHaveLength(1)
+    })
+  })
+
+  describe('getStockData date ranges', () => {
+    const from = Date.UTC(2024, 0, 2) / 1000
+    const to = Date.UTC(2024, 0, 4) / 1000 - 1
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(new Date('2024-06-01T00:00:00Z'))
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('should request explicit dates from Yahoo with period1/period2', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ chart: { result: [{ timestamp: [], indicators: { quote: [{}] } }] } }))
+      const client = new StockClient({ provider: 'yahoo' })
+
+      await client.getStockData('AAPL', { startDate: '2024-01-02', endDate: '2024-01-03' })
+
+      const url = new URL(fetchMock.mock.calls[0][0] as string)
+      expect(url.searchParams.get('period1')).toBe(String(from))
+      expect(url.searchParams.get('period2')).toBe(String(to + 1))
+      expect(url.searchParams.has('range')).toBe(false)
+    })
+
+    it('should read adjusted closes and corporate actions from Yahoo', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({
+        chart: {
+          result: [{
+            timestamp: [from + 52200, from + 138600],
+            indicators: {
+              quote: [{ open: [400, 101], high: [404, 102], low: [396, 100], close: [400, 101], volume: [10, 40] }],
+              adjclose: [{ adjclose: [100, 101] }],
+            },
+            events: {
+              splits: { [from + 138600]: { date: from + 138600, numerator: 4, denominator: 1, splitRatio: '4:1' } },
+              dividends: { [from + 52200]: { date: from + 52200, amount: 0.24 } },
+            },
+          }],
+        },
+      }))
+      const client = new StockClient({ provider: 'yahoo' })
+
+      const quotes = await client.getStockData('AAPL', { startDate: '2024-01-02', endDate: '2024-01-03' })
+      const actions = await client.getCorporateActions('AAPL', { startDate: '2024-01-02', endDate: '2024-01-03' })
+      const adjusted = await client.adjustQuotes('AAPL', quotes, { startDate: '2024-01-02', endDate: '2024-01-03' })
+
+      expect(String(fetchMock.mock.calls[0][0])).toContain('events=div%7Csplit')
+      expect(quotes[0]).toMatchObject({ close: 400, adjClose: 100, adjHigh: 101 })
+      expect(actions).toEqual([
+        { type: 'dividend', date: '2024-01-02', timestamp: from + 52200, amount: 0.24 },
+        { type: 'split', date: '2024-01-03', timestamp: from + 138600, ratio: 4 },
+      ])
+      expect(adjusted.map(quote => quote.close)).toEqual([100, 101])
+    })
+
+    it('should pass the range to Finnhub as from/to', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ s: 'no_data' }))
+      const client = new StockClient({ provider: 'finnhub', apiKey: 'test' })
+
+      await client.getStockData('AAPL', { startDate: '2024-01-02', endDate: '2024-01-03' })
+
+      const url = new URL(fetchMock.mock.calls[0][0] as string)
+      expect(url.searchParams.get('from')).toBe(String(from))
+      expect(url.searchParams.get('to')).toBe(String(to))
+    })
+
+    it('should request full Alpha Vantage output for old ranges and trim it to the window', async () => {
+      const day = (open: string) => ({
+        '1. open': open, '2. high': open, '3. low': open, '4. close': open, '5. volume': '100',
+      })
+      fetchMock.mockResolvedValue(jsonResponse({
+        'Time Series (Daily)': {
+          '2024-01-05': day('103'),
+          '2024-01-03': day('102'),
+          '2024-01-02': day('101'),
+          '2023-12-29': day('100'),
+        },
+      }))
+      const client = new StockClient({ provider: 'alphavantage', apiKey: 'test' })
+
+      const quotes = await client.getStockData('AAPL', { startDate: '2024-01-02', endDate: '2024-01-03' })
+
+      expect(String(fetchMock.mock.calls[0][0])).toContain('outputsize=full')
+      expect(quotes.map(quote => quote.close)).toEqual([101, 102])
+    })
+
+    it('should return the same window when falling back to another provider', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({}, 500))
+        .mockResolvedValueOnce(jsonResponse({
+          chart: {
+            result: [{
+              timestamp: [from - 86400, from, from + 86400, to + 1],
+              indicators: {
+                quote: [{ open: [1, 2, 3, 4], high: [1, 2, 3, 4], low: [1, 2, 3, 4], close: [1, 2, 3, 4], volume: [1, 1, 1, 1] }],
+              },
+            }],
+          },
+        }))
+      const client = new StockClient({ provider: 'finnhub', apiKey: 'test', maxRetries: 0 })
+
+      const quotes = await client.getStockData('AAPL', { startDate: '2024-01-02', endDate: '2024-01-03' })
+
+      const yahooUrl = new URL(fetchMock.mock.calls[1][0] as string)
+      expect(yahooUrl.searchParams.get('period1')).toBe(String(from))
+      expect(quotes.map(quote => quote.close)).toEqual([2, 3])
+    })
+
+    it('should throw on request when every provider failed', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({}, 404))
+      const client = new StockClient({ provider: 'yahoo', apiKey: 'test', maxRetries: 0 })
+      const range = { startDate: '2024-01-02', endDate: '2024-01-03' }
+
+      expect(await client.getStockData('AAPL', range)).toEqual([])
+      await expect(client.getStockData('AAPL', range, '1d', true)).rejects.toThrow('All stock API providers failed')
+    })
+
+    it('should treat Alpha Vantage notices and empty Yahoo charts as failures, not empty windows', async () => {
+      fetchMock.mockImplementation(async (url: string) => {
+        if (url.includes('alphavantage.co')) {
+          return jsonResponse({ Information: 'outputsize=full is a premium feature' })
+        }
+        if (url.includes('finance.yahoo.com')) {
+          return jsonResponse({ chart: { result: null, error: { code: 'Not Found', description: 'No data found' } } })
+        }
+        return jsonResponse({}, 500)
+      })
+      const client = new StockClient({ provider: 'alphavantage', apiKey: 'test', maxRetries: 0 })
+      const range = { startDate: '2023-01-02', endDate: '2023-01-03' }
+
+      await expect(client.getStockData('AAPL', range, '1d', true)).rejects.toThrow('All stock API providers failed')
+      expect(fetchMock.mock.calls.some(([url]) => String(url).includes('finance.yahoo.com'))).toBe(true)
+    })
+  })
+
+  describe('resilience', () => {
+    const chart = {
+      chart: {
+        result: [{
+          timestamp: [Date.UTC(2024, 0, 2) / 1000],
+          indicators: { quote: [{ open: [1], high: [1], low: [1], close: [1], volume: [1] }] },
+        }],
+      },
+    }
+
+    it('should retry a transient Yahoo failure instead of failing over', async () => {
+      fetchMock
+        .mockResolvedValueOnce(new Response('', { status: 503, headers: { 'Retry-After': '0' } }))
+        .mockResolvedValueOnce(jsonResponse(chart))
+      const client = new StockClient({ provider: 'yahoo', apiKey: 'test', retryDelay: 0 })
+
+      const quotes = await client.getStockData('AAPL', { startDate: '2024-01-02', endDate: '2024-01-02' })
+
+      expect(quotes).toHaveLength(1)
+      expect(fetchMock).toHaveBeenCalledTimes(2)
+      expect(fetchMock.mock.calls.every(([url]) => String(url).includes('finance.yahoo.com'))).toBe(true)
+    })
+
+    it('should skip a provider whose circuit is open', async () => {
+      fetchMock.mockImplementation(async (url: string) =>
+        url.includes('finnhub') ? jsonResponse({}, 500) : jsonResponse(chart)
+      )
+      const client = new StockClient({
+        provider: 'finnhub',
+        fallbackProviders: ['yahoo'],
+        apiKey: 'test',
+        maxRetries: 0,
+      })
+
+      for (let i = 0; i < 6; i++) {
+        await client.getStockData('AAPL', { startDate: '2024-01-02', endDate: '2024-01-02' })
+      }
+
+      // Five failures open the circuit; the sixth request goes straight to Yahoo
+      const finnhubCalls = fetchMock.mock.calls.filter(([url]) => String(url).includes('finnhub'))
+      expect(finnhubCalls).toHaveLength(5)
+    })
+  })
+
+  describe('provider registry', () => {
+    function stubProvider(name: string, priority: number, crypto: boolean = false): StockProvider {
+      return {
+        name,
+        priority,
+        capabilities: { intervals: ['1d'], crypto, adjusted: false },
+        fetchQuotes: vi.fn().mockRejectedValue(new Error(`${name} down`)),
+      }
+    }
+
+    it('should fetch from a registered custom provider', async () => {
+      const vendor = stubProvider('vendor', 5)
+      vi.mocked(vendor.fetchQuotes).mockResolvedValue([
+        { timestamp: Date.UTC(2024, 0, 2, 14) / 1000, open: 1, high: 2, low: 1, close: 2, volume: 10 },
+      ])
+      const registry = createDefaultStockProviderRegistry().register(vendor)
+      const client = new StockClient({ provider: 'vendor' }, registry)
+
+      const quotes = await client.getStockData('AAPL', { startDate: '2024-01-02', endDate: '2024-01-02' })
+
+      expect(quotes).toHaveLength(1)
+      expect(vendor.fetchQuotes).toHaveBeenCalledWith(expect.objectContaining({
+        symbol: 'AAPL',
+        startDate: '2024-01-02',
+        endDate: '2024-01-02',
+        interval: '1d',
+      }))
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('should follow the configured fallback chain and skip unsupported providers', async () => {
+      const registry = createDefaultStockProviderRegistry()
+        .register(stubProvider('a', 1))
+        .register(stubProvider('b', 2, true))
+        .register(stubProvider('c', 3, true))
+      const client = new StockClient({ provider: 'a', fallbackProviders: ['c', 'a', 'b'], retryDelay: 0 }, registry)
+
+      const quotes = await client.getStockData('BTC-USD', '5d')
+
+      expect(quotes).toEqual([])
+      // 'a' is the primary but lacks crypto support; fallbacks run in configured order
+      expect(registry.get('a')!.fetchQuotes).not.toHaveBeenCalled()
+      const cCall = vi.mocked(registry.get('c')!.fetchQuotes).mock.invocationCallOrder[0]
+      const bCall = vi.mocked(registry.get('b')!.fetchQuotes).mock.invocationCallOrder[0]
+      expect(cCall).toBeLessThan(bCall)
+    })
+
+    it('should read quotes offline from a CSV file provider', async () => {
+      const dataDir = await mkdtemp(path.join(tmpdir(), 'ohlcv-'))
+
+      try {
+        await writeFile(path.join(dataDir, 'aapl.csv'), [
+          'Date,Open,High,Low,Close,Volume',
+          '2024-01-01,1,1,1,1,1',
+          '2024-01-02,10,11,9,10.5,100',
+          '2024-01-03,11,12,10,11.5,200',
+        ].join('\n'))
+        const registry = createDefaultStockProviderRegistry().register(new CSVFileProvider({ dataDir }))
+        const client = new StockClient({ provider: 'csv', fallbackProviders: [] }, registry)
+
+        const quotes = await client.getStockData('AAPL', { startDate: '2024-01-02', endDate: '2024-01-03' })
+
+        expect(quotes.map(quote => quote.close)).toEqual([10.5, 11.5])
+        expect(fetchMock).not.toHaveBeenCalled()
+      } finally {
+        await rm(dataDir, { recursive: true, force: true })
+      }
+    })
+
+    it('should tell crypto pairs from equities with hyphens', () => {
+      expect(isCryptoSymbol('BTC-USD')).toBe(true)
+      expect(isCryptoSymbol('BRK-B')).toBe(false)
+      expect(isCryptoSymbol('AAPL')).toBe(false)
+    })
+  })
+
+  describe('validateStockSymbol', () => {
+    it('should accept long international symbols and normalize case', () => {
+      const client = new StockClient()
+
+      expect(client.validateStockSymbol('RELIANCE.NS')).toEqual({ valid: true, symbol: 'RELIANCE.NS' })
+      expect(client.validateStockSymbol('HDFCBANK.NS').valid).toBe(true)
+      expect(client.validateStockSymbol(' brk-b ')).toEqual({ valid: true, symbol: 'BRK-B' })
+      expect(client.validateStockSymbol('GC=F').valid).toBe(true)
+      expect(client.validateStockSymbol('AAPL$').valid).toBe(false)
+      expect(client.validateStockSymbol('A'.repeat(21)).valid).toBe(false)
+    })
+  })
+
+  describe('calculateVolatility', () => {
+    const start = Date.UTC(2024, 4, 10, 13, 30) / 1000
+    const bars = [100, 101, 99.5, 100.5].map((close, i) => ({
+      timestamp: start + i * 1800,
+      open: i === 0 ? 100 : 0,
+      high: close + 0.5,
+      low: close - 0.5,
+      close,
+      volume: 1000,
+    }))
+
+    it('should compute daily realized volatility from intraday bars', () => {
+      const client = new StockClient()
+
+      const [day] = client.calculateVolatility(bars, '5m')
+
+      const returns = [Math.log(101 / 100), Math.log(99.5 / 101), Math.log(100.5 / 99.5)]
+      const expected = Math.sqrt(returns.reduce((sum, r) => sum + r * r, 0)) * 100
+      expect(day.date).toBe('2024-05-10')
+      expect(day.volatility).toBeCloseTo(expected, 10)
+      expect(day.volume).toBe(4000)
+      expect(day.bars).toBe(4)
+    })
+
+    it('should date rows by the exchange trading date for a symbol', () => {
+      const client = new StockClient()
+      // 04:00 UTC on May 10 is 09:30 IST; 22:00 UTC is 03:30 IST on May 11
+      const nseBars = [Date.UTC(2024, 4, 10, 4), Date.UTC(2024, 4, 10, 22)].map(time => ({
+        timestamp: time / 1000, open: 100, high: 101, low: 99, close: 100, volume: 1,
+      }))
+
+      expect(client.calculateVolatility(nseBars, '1d', 'day', '^NSEI').map(row => row.date))
+        .toEqual(['2024-05-10', '2024-05-11'])
+      expect(client.calculateVolatility(bars, '5m', 'day', '^NSEI')[0].date).toBe('2024-05-10')
+    })
+
+    it('should apply the selected daily estimator with crypto annualization', () => {
+      const client = new StockClient()
+      const daily = [100, 102, 101].map((close, i) => ({
+        timestamp: Date.UTC(2024, 4, 10 + i) / 1000, open: close, high: close + 1, low: close - 1, close, volume: 1,
+      }))
+
+      const plain = client.calculateVolatility(daily, '1d', 'day', 'AAPL', { estimator: 'parkinson' })
+      const stock = client.calculateVolatility(daily, '1d', 'day', 'AAPL', { estimator: 'parkinson', annualize: true })
+      const crypto = client.calculateVolatility(daily, '1d', 'day', 'BTC-USD', { estimator: 'parkinson', annualize: true })
+
+      expect(stock[2].volatility).toBeCloseTo(plain[2].volatility * Math.sqrt(252), 10)
+      expect(crypto[2].volatility).toBeCloseTo(plain[2].volatility * Math.sqrt(365), 10)
+    })
+
+    it('should group intraday bars by hour on request', () => {
+      const client = new StockClient()
+
+      const hours = client.calculateVolatility(bars, '5m', 'hour')
+
+      expect(hours.map(h => [h.timestamp, h.bars])).toEqual([
+        [Date.UTC(2024, 4, 10, 13) / 1000, 1],
+        [Date.UTC(2024, 4, 10, 14) / 1000, 2],
+        [Date.UTC(2024, 4, 10, 15) / 1000, 1],
+      ])
+    })
+  })
+})
@@ -0,0 +1,237 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises'
+import { tmpdir } from 'os'
+import path from 'path'
+import { TimeSeriesStore } from '../timeseries-store'
+import { resetHttpCassette } from '../http-cassette'
+import { NASAClient } from '../nasa'
+import { StockClient } from '../stock'
+import { FlareData, StockQuote } from '../types'
+
+/**
+ * NASA client stub: one M1.0 flare on the 10th of every month
+ */
+function createNASAClient() {
+  const getFlareEvents = vi.fn(async (startDate: string, endDate: string, _throwIfAllFailed?: boolean) => {
+    const flares: FlareData[] = []
+    for (let month = 0; month < 12; month++) {
+      const date = `2024-${String(month + 1).padStart(2, '0')}-10`
+      if (date >= startDate && date <= endDate) {
+        flares.push({ id: `flr-${date}`, date, flare: 4, class: 'M1.0', peakTime: `${date}T12:00Z` })
+      }
+    }
+    return flares
+  })
+
+  return {
+    client: { getFlareEvents, transformFlareData: (events: FlareData[]) => events } as unknown as NASAClient,
+    getFlareEvents,
+  }
+}
+
+/**
+ * Stock client stub: one bar per weekday, with an adjusted close
+ */
+function createStockClient() {
+  const getStockData = vi.fn(async (_symbol: string, range: { startDate: string; endDate: string }, _interval?: string, _throwIfAllFailed?: boolean) => {
+    const quotes: StockQuote[] = []
+    const end = Date.parse(`${range.endDate}T00:00:00Z`)
+    for (let time = Date.parse(`${range.startDate}T00:00:00Z`); time <= end; time += 86400000) {
+      const day = new Date(time).getUTCDay()
+      if (day !== 0 && day !== 6) {
+        const timestamp = time / 1000 + 14.5 * 3600
+        quotes.push({ timestamp, open: 100, high: 102, low: 99, close: 101, volume: 1000, adjClose: 50.5 })
+      }
+    }
+    return quotes
+  })
+
+  return {
+    client: { getStockData } as unknown as StockClient,
+    getStockData,
+  }
+}
+
+describe('TimeSeriesStore', () => {
+  let dataDir: string
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), 'timeseries-'))
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(async () => {
+    vi.restoreAllMocks()
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it('should fetch only flare dates it does not already have', async () => {
+    const { client, getFlareEvents } = createNASAClient()
+    const store = new TimeSeriesStore({ dataDir, enabled: true })
+
+    const first = await store.getFlares('2024-01-01', '2024-02-29', client)
+    expect(first.map(flare => flare.date)).toEqual(['2024-01-10', '2024-02-10'])
+    expect(getFlareEvents.mock.calls).toEqual([
+      ['2024-01-01', '2024-01-30', true],
+      ['2024-01-31', '2024-02-29', true],
+    ])
+
+    // A new instance reads the synced history from disk
+    getFlareEvents.mockClear()
+    const reopened = new TimeSeriesStore({ dataDir, enabled: true })
+    expect(await reopened.getFlares('2024-01-05', '2024-01-15', client)).toHaveLength(1)
+    expect(getFlareEvents).not.toHaveBeenCalled()
+
+    await reopened.getFlares('2024-02-01', '2024-03-31', client)
+    expect(getFlareEvents.mock.calls).toEqual([['2024-03-01', '2024-03-30', true], ['2024-03-31', '2024-03-31', true]])
+  })
+
+  it('should keep flare chunks that succeeded without flares', async () => {
+    const { client, getFlareEvents } = createNASAClient()
+    const store = new TimeSeriesStore({ dataDir, enabled: true })
+
+    expect(await store.getFlares('2024-01-11', '2024-01-20', client)).toEqual([])
+    await store.getFlares('2024-01-11', '2024-01-20', client)
+
+    expect(getFlareEvents).toHaveBeenCalledTimes(1)
+    expect(getFlareEvents).toHaveBeenCalledWith('2024-01-11', '2024-01-20', true)
+  })
+
+  it('should retry flare chunks that failed', async () => {
+    const { client, getFlareEvents } = createNASAClient()
+    getFlareEvents.mockRejectedValueOnce(new Error('All solar flare providers failed'))
+    const store = new TimeSeriesStore({ dataDir, enabled: true })
+
+    expect(await store.getFlares('2024-01-01', '2024-01-20', client)).toEqual([])
+    const retried = await store.getFlares('2024-01-01', '2024-01-20', client)
+
+    expect(retried.map(flare => flare.date)).toEqual(['2024-01-10'])
+    expect(getFlareEvents).toHaveBeenCalledTimes(2)
+  })
+
+  it('should replace GOES flares once DONKI reports them', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-05-11T12:00:00Z'))
+    try {
+      const { client, getFlareEvents } = createNASAClient()
+      const store = new TimeSeriesStore({ dataDir, enabled: true, recentDays: 2 })
+      const goes: FlareData = { date: '2024-05-10', flare: 5.6, class: 'X4.0', peakTime: '2024-05-10T06:54:00Z' }
+      const donki: FlareData = { ...goes, id: '2024-05-10T06:27:00-FLR-001', peakTime: '2024-05-10T06:54Z', linkedEvents: ['CME-1'] }
+
+      getFlareEvents.mockResolvedValueOnce([goes])
+      await store.getFlares('2024-05-10', '2024-05-10', client)
+      getFlareEvents.mockResolvedValueOnce([donki])
+      const flares = await store.getFlares('2024-05-10', '2024-05-10', client)
+
+      expect(flares).toEqual([donki])
+      const file = JSON.parse(await readFile(path.join(dataDir, 'flares.json'), 'utf-8'))
+      expect(file.records).toEqual([donki])
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should sync quotes incrementally and skip gaps without trading days', async () => {
+    const { client, getStockData } = createStockClient()
+    const store = new TimeSeriesStore({ dataDir, enabled: true })
+
+    const quotes = await store.getStockQuotes('aapl', { startDate: '2024-01-01', endDate: '2024-01-12' }, client)
+    expect(quotes).toHaveLength(10)
+    expect(quotes[0].adjClose).toBeUndefined()
+
+    // 2024-01-13/14 is a weekend: covered without a request
+    await store.getStockQuotes('AAPL', { startDate: '2024-01-08', endDate: '2024-01-14' }, client)
+    await store.getStockQuotes('AAPL', { startDate: '2024-01-08', endDate: '2024-01-16' }, client)
+
+    expect(getStockData.mock.calls.map(([, range]) => range)).toEqual([
+      { startDate: '2024-01-01', endDate: '2024-01-12' },
+      { startDate: '2024-01-15', endDate: '2024-01-16' },
+    ])
+
+    const file = JSON.parse(await readFile(path.join(dataDir, 'quotes', 'AAPL.json'), 'utf-8'))
+    expect(file.coverage).toEqual([{ startDate: '2024-01-01', endDate: '2024-01-16' }])
+  })
+
+  it('should keep quote gaps that succeeded without bars and retry failed ones', async () => {
+    const { client, getStockData } = createStockClient()
+    const store = new TimeSeriesStore({ dataDir, enabled: true })
+
+    // Before the listing: the provider answers with no bars
+    getStockData.mockResolvedValueOnce([])
+    await store.getStockQuotes('NEWCO', { startDate: '2024-01-01', endDate: '2024-01-05' }, client)
+    await store.getStockQuotes('NEWCO', { startDate: '2024-01-01', endDate: '2024-01-05' }, client)
+    expect(getStockData).toHaveBeenCalledTimes(1)
+    expect(getStockData).toHaveBeenCalledWith('NEWCO', { startDate: '2024-01-01', endDate: '2024-01-05' }, '1d', true)
+
+    getStockData.mockRejectedValueOnce(new Error('All stock API providers failed'))
+    expect(await store.getStockQuotes('NEWCO', { startDate: '2024-01-08', endDate: '2024-01-12' }, client)).toEqual([])
+    expect(await store.getStockQuotes('NEWCO', { startDate: '2024-01-08', endDate: '2024-01-12' }, client)).toHaveLength(5)
+    expect(getStockData).toHaveBeenCalledTimes(3)
+  })
+
+  it('should replace a re-fetched bar stamped differently by a fallback provider', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2024-01-12T12:00:00Z'))
+    try {
+      const { client, getStockData } = createStockClient()
+      const store = new TimeSeriesStore({ dataDir, enabled: true, recentDays: 2 })
+      const range = { startDate: '2024-01-08', endDate: '2024-01-12' }
+
+      await store.getStockQuotes('AAPL', range, client)
+
+      // The recent days come back from a provider stamping bars at UTC midnight
+      getStockData.mockImplementation(async () => [
+        { timestamp: Date.parse('2024-01-11T00:00:00Z') / 1000, open: 100, high: 103, low: 99, close: 102, volume: 1000 },
+        { timestamp: Date.parse('2024-01-12T00:00:00Z') / 1000, open: 102, high: 104, low: 101, close: 103, volume: 1000 },
+      ])
+      const quotes = await store.getStockQuotes('AAPL', range, client)
+
+      expect(getStockData.mock.calls[1][1]).toEqual({ startDate: '2024-01-11', endDate: '2024-01-12' })
+      expect(quotes.map(quote => quote.close)).toEqual([101, 101, 101, 102, 103])
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should keep re-fetching the most recent days', async () => {
+    const { client, getFlareEvents } = createNASAClient()
+    const store = new TimeSeriesStore({ dataDir, enabled: true, recentDays: 2 })
+    const today = new Date().toISOString().split('T')[0]
+
+    await store.getFlares(today, today, client)
+    await store.getFlares(today, today, client)
+
+    expect(getFlareEvents).toHaveBeenCalledTimes(2)
+  })
+
+  it('should pass straight through to the clients when disabled', async () => {
+    const { client, getStockData } = createStockClient()
+    const store = new TimeSeriesStore({ dataDir, enabled: false })
+
+    const quotes = await store.getStockQuotes('AAPL', { startDate: '2024-01-01', endDate: '2024-01-05' }, client)
+
+    expect(quotes[0].adjClose).toBe(50.5)
+    await store.getStockQuotes('AAPL', { startDate: '2024-01-01', endDate: '2024-01-05' }, client)
+    expect(getStockData).toHaveBeenCalledTimes(2)
+  })
+
+  it('should stay disabled while replaying cassettes', async () => {
+    vi.stubEnv('HTTP_CASSETTE_MODE', 'replay')
+    resetHttpCassette()
+    try {
+      const { client, getFlareEvents } = createNASAClient()
+      const store = new TimeSeriesStore({ dataDir })
+
+      await store.getFlares('2024-01-01', '2024-01-31', client)
+      await store.getFlares('2024-01-01', '2024-01-31', client)
+
+      expect(getFlareEvents).toHaveBeenCalledTimes(2)
+      expect(await readdir(dataDir)).toEqual([])
+    } finally {
+      vi.unstubAllEnvs()
+      resetHttpCassette()
+    }
+  })
+})
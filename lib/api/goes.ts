@@ -0,0 +1,344 @@
+import { readdir, readFile } from 'fs/promises'
+import path from 'path'
+import {
+  GOESClientConfig,
+  GOESXrayFluxReading,
+  NASAFlareEvent,
+  APIError,
+} from './types'
+import { logError, logWarning, logInfo } from '../utils/error-handling'
+import { GOES_CLASS_BASE_FLUX, fluxToClass } from '../utils/goes-flux'
+import { cassetteFetch } from './http-cassette'
+
+/**
+ * SWPC feed served for each resolution
+ */
+const GOES_FEEDS: Record<GOESClientConfig['resolution'], string> = {
+  '1m': 'xrays-7-day.json',
+  '1d': 'xrays-daily.json',
+}
+
+/**
+ * Long-wavelength channel used for GOES flare classification
+ */
+const LONG_CHANNEL = '0.1-0.8nm'
+
+/**
+ * A gap in 1-minute data longer than this ends the current flare
+ */
+const MAX_READING_GAP_MS = 10 * 60 * 1000
+
+/**
+ * NOAA SWPC GOES X-ray flux client.
+ * Derives flare events from the 0.1-0.8 nm flux series so it can stand in
+ * for DONKI. Events use the DONKI flare shape and can be passed to
+ * NASAClient.transformFlareData.
+ */
+export class GOESClient {
+  private config: GOESClientConfig
+
+  constructor(config?: Partial<GOESClientConfig>) {
+    // Default configuration with environment variable fallbacks
+    const defaultBaseUrl = process.env.GOES_BASE_URL || 'https://services.swpc.noaa.gov/json/goes/primary'
+    const defaultResolution = (process.env.GOES_RESOLUTION as '1m' | '1d') || '1m'
+
+    this.config = {
+      baseUrl: config?.baseUrl || defaultBaseUrl,
+      resolution: config?.resolution || defaultResolution,
+      dataDir: config?.dataDir || process.env.GOES_DATA_DIR || undefined,
+      timeout: config?.timeout || 10000, // 10 seconds default
+      flareThreshold: config?.flareThreshold || GOES_CLASS_BASE_FLUX.C,
+    }
+  }
+
+  /**
+   * Fetch flare events derived from GOES X-ray flux.
+   * Unlike NASAClient.getFlareEvents this throws when the source is
+   * unavailable or does not reach back to the range, so NASAClient can fall
+   * back on it and callers never mistake missing data for a quiet Sun.
+   * @param startDate - Start date in YYYY-MM-DD format
+   * @param endDate - End date in YYYY-MM-DD format
+   * @returns Array of flare events in DONKI format
+   * @throws APIError if the flux feed cannot be read or does not cover the range
+   */
+  async getFlareEvents(
+    startDate: string,
+    endDate: string
+  ): Promise<NASAFlareEvent[]> {
+    const readings = this.config.dataDir
+      ? await this.readRecordedReadings()
+      : await this.fetchReadings()
+
+    const rangeStart = `${startDate}T00:00:00Z`
+    const rangeEnd = `${endDate}T23:59:59Z`
+    const normalized = this.normalizeReadings(readings)
+    this.assertCoverage(normalized, startDate, endDate)
+
+    const inRange = normalized.filter(
+      reading => reading.time >= rangeStart && reading.time <= rangeEnd
+    )
+
+    const events = this.config.resolution === '1d'
+      ? this.detectDailyFlares(inRange)
+      : this.detectFlares(inRange)
+
+    logInfo('Derived flare events from GOES X-ray flux', {
+      function: 'getFlareEvents',
+      provider: 'GOES',
+      resolution: this.config.resolution,
+      startDate,
+      endDate,
+      readingCount: inRange.length,
+      count: events.length,
+    })
+
+    return events
+  }
+
+  /**
+   * Fetch the SWPC flux feed for the configured resolution
+   */
+  private async fetchReadings(): Promise<GOESXrayFluxReading[]> {
+    const url = `${this.config.baseUrl}/${GOES_FEEDS[this.config.resolution]}`
+
+    logInfo('Fetching GOES X-ray flux', {
+      function: 'fetchReadings',
+      provider: 'GOES',
+      url,
+    })
+
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
+
+    try {
+      const response = await cassetteFetch('goes', url, {
+        signal: controller.signal,
+        headers: {
+          'Accept': 'application/json',
+        },
+      })
+
+      clearTimeout(timeoutId)
+
+      if (response.status === 429) {
+        throw new APIError('GOES rate limit exceeded', 429, 'GOES')
+      }
+
+      if (!response.ok) {
+        throw new APIError(
+          `GOES API returned status ${response.status}`,
+          response.status,
+          'GOES'
+        )
+      }
+
+      const data = await response.json()
+
+      if (!Array.isArray(data)) {
+        throw new APIError(
+          'Unexpected response format from GOES API, expected array',
+          response.status,
+          'GOES'
+        )
+      }
+
+      return data as GOESXrayFluxReading[]
+    } catch (error) {
+      clearTimeout(timeoutId)
+
+      if (error instanceof Error && error.name === 'AbortError') {
+        logError('GOES request timed out', error, {
+          function: 'fetchReadings',
+          provider: 'GOES',
+          timeout: this.config.timeout,
+        })
+        throw new APIError(
+          `GOES request timed out after ${this.config.timeout}ms`,
+          undefined,
+          'GOES'
+        )
+      }
+
+      if (error instanceof APIError) {
+        logError('GOES API error', error, {
+          function: 'fetchReadings',
+          provider: 'GOES',
+          statusCode: error.statusCode,
+        })
+        throw error
+      }
+
+      logError('Network error while fetching GOES data', error, {
+        function: 'fetchReadings',
+        provider: 'GOES',
+      })
+      throw new APIError(
+        `Network error while fetching GOES data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        'GOES'
+      )
+    }
+  }
+
+  /**
+   * Read every recorded SWPC JSON file in the data directory.
+   * Files that fail to parse are skipped so one bad recording does not
+   * hide the rest.
+   */
+  private async readRecordedReadings(): Promise<GOESXrayFluxReading[]> {
+    const dataDir = this.config.dataDir as string
+    let files: string[]
+
+    try {
+      files = (await readdir(dataDir)).filter(file => file.endsWith('.json')).sort()
+    } catch (error) {
+      logError('Unable to read GOES data directory', error, {
+        function: 'readRecordedReadings',
+        provider: 'GOES',
+        dataDir,
+      })
+      throw new APIError(`GOES data directory not readable: ${dataDir}`, undefined, 'GOES')
+    }
+
+    const readings: GOESXrayFluxReading[] = []
+
+    for (const file of files) {
+      try {
+        const data = JSON.parse(await readFile(path.join(dataDir, file), 'utf-8'))
+        if (!Array.isArray(data)) {
+          throw new Error('Expected an array of flux readings')
+        }
+        readings.push(...data)
+      } catch (error) {
+        logWarning('Skipping unreadable GOES recording', {
+          function: 'readRecordedReadings',
+          provider: 'GOES',
+          file,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+    }
+
+    logInfo('Loaded recorded GOES X-ray flux', {
+      function: 'readRecordedReadings',
+      provider: 'GOES',
+      dataDir,
+      fileCount: files.length,
+      readingCount: readings.length,
+    })
+
+    return readings
+  }
+
+  /**
+   * Keep valid long-channel readings, one per timestamp, sorted by time.
+   * When recordings overlap the highest flux for a timestamp wins.
+   */
+  private normalizeReadings(
+    readings: GOESXrayFluxReading[]
+  ): Array<{ time: string; flux: number }> {
+    const byTime = new Map<string, number>()
+
+    for (const reading of readings) {
+      if (reading?.energy !== LONG_CHANNEL) continue
+
+      const flux = Number(reading.flux)
+      const timestamp = new Date(reading.time_tag)
+      if (!isFinite(flux) || flux <= 0 || isNaN(timestamp.getTime())) continue
+
+      const time = timestamp.toISOString().replace('.000Z', 'Z')
+      byTime.set(time, Math.max(byTime.get(time) ?? 0, flux))
+    }
+
+    return Array.from(byTime.entries())
+      .map(([time, flux]) => ({ time, flux }))
+      .sort((a, b) => a.time.localeCompare(b.time))
+  }
+
+  /**
+   * Throw unless the readings span the range. The feeds only hold the last
+   * days, so an older range would otherwise come back without flares. The
+   * last day may still be in progress.
+   */
+  private assertCoverage(
+    readings: Array<{ time: string; flux: number }>,
+    startDate: string,
+    endDate: string
+  ): void {
+    const first = readings[0]
+    const last = readings[readings.length - 1]
+
+    if (!first || first.time > `${startDate}T00:00:00Z` || last.time.split('T')[0] < endDate) {
+      throw new APIError(
+        `GOES readings do not cover ${startDate} to ${endDate}` +
+          (first ? ` (available ${first.time} to ${last.time})` : ''),
+        undefined,
+        'GOES'
+      )
+    }
+  }
+
+  /**
+   * Turn 1-minute flux into flare events. A flare is a run of readings at
+   * or above the threshold; its class and peak time come from the highest
+   * reading in the run.
+   */
+  private detectFlares(readings: Array<{ time: string; flux: number }>): NASAFlareEvent[] {
+    const events: NASAFlareEvent[] = []
+    let run: Array<{ time: string; flux: number }> = []
+
+    const closeRun = () => {
+      if (run.length > 0) {
+        const peak = run.reduce((max, reading) => (reading.flux > max.flux ? reading : max))
+        events.push(this.toFlareEvent(run[0].time, peak, run[run.length - 1].time))
+      }
+      run = []
+    }
+
+    for (const reading of readings) {
+      const previous = run[run.length - 1]
+      const gap = previous ? Date.parse(reading.time) - Date.parse(previous.time) : 0
+
+      if (reading.flux < this.config.flareThreshold || gap > MAX_READING_GAP_MS) {
+        closeRun()
+      }
+      if (reading.flux >= this.config.flareThreshold) {
+        run.push(reading)
+      }
+    }
+    closeRun()
+
+    return events
+  }
+
+  /**
+   * Daily readings carry one peak per day, so every day at or above the
+   * threshold becomes a single event
+   */
+  private detectDailyFlares(readings: Array<{ time: string; flux: number }>): NASAFlareEvent[] {
+    return readings
+      .filter(reading => reading.flux >= this.config.flareThreshold)
+      .map(reading => this.toFlareEvent(reading.time, reading, reading.time))
+  }
+
+  /**
+   * GOES flares have no DONKI activity ID, so flrID stays empty and they
+   * never enter the event graph
+   */
+  private toFlareEvent(
+    beginTime: string,
+    peak: { time: string; flux: number },
+    endTime: string
+  ): NASAFlareEvent {
+    return {
+      flrID: '',
+      beginTime,
+      peakTime: peak.time,
+      endTime,
+      classType: fluxToClass(peak.flux),
+      sourceLocation: '',
+      activeRegionNum: null,
+      linkedEvents: null,
+    }
+  }
+}
@@ -0,0 +1,351 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+import { APIError, CassetteMode, HttpCassetteConfig } from './types'
+import { logError, logInfo, logWarning } from '../utils/error-handling'
+
+/**
+ * Transport-level record/replay for the API clients.
+ *
+ * With HTTP_CASSETTE_MODE=record every successful provider response is
+ * saved to `<HTTP_CASSETTE_DIR>/<provider>.json` before being handed to the
+ * client. With HTTP_CASSETTE_MODE=replay the clients are answered from
+ * those files and never touch the network, so the dashboards run on real
+ * payloads offline and tests can parse recorded provider responses.
+ *
+ * Credentials are redacted from URLs before they are saved or matched, so
+ * cassettes can be committed and replayed with any key.
+ */
+
+const CASSETTE_VERSION = 1
+
+/**
+ * Query parameters holding credentials
+ */
+const SECRET_PARAMS = ['api_key', 'apikey', 'token']
+
+/**
+ * Query parameters selecting the date window. A replay with no exact
+ * recording falls back to one that differs only in these, so a cassette
+ * recorded yesterday still answers today's "last 30 days" request.
+ */
+const RANGE_PARAMS = ['startDate', 'endDate', 'period1', 'period2', 'from', 'to']
+
+/**
+ * Response headers kept in a recording: the content type and the quota
+ * headers read by the rate limiter
+ */
+const RECORDED_HEADERS = ['content-type', 'retry-after', 'x-ratelimit-limit', 'x-ratelimit-remaining']
+
+/**
+ * One recorded request and its response. JSON bodies are stored parsed so
+ * cassettes stay readable; anything else is stored as text.
+ */
+interface CassetteInteraction {
+  request: {
+    method: string
+    url: string  // Redacted
+  }
+  response: {
+    status: number
+    headers: Record<string, string>
+    json?: unknown
+    body?: string
+  }
+  recordedAt: string
+}
+
+/**
+ * On-disk contents of one provider's cassette
+ */
+interface CassetteFile {
+  version: number
+  provider: string
+  interactions: CassetteInteraction[]
+}
+
+/**
+ * Replace credential query parameters with "***"
+ * @param url - Absolute request URL
+ * @returns The URL with credentials redacted
+ */
+export function redactUrl(url: string): string {
+  const parsed = new URL(url)
+  for (const param of SECRET_PARAMS) {
+    if (parsed.searchParams.has(param)) {
+      parsed.searchParams.set(param, '***')
+    }
+  }
+  return parsed.toString()
+}
+
+/**
+ * Redacted URL without its date window parameters
+ */
+function withoutRange(url: string): string {
+  const parsed = new URL(url)
+  RANGE_PARAMS.forEach(param => parsed.searchParams.delete(param))
+  return parsed.toString()
+}
+
+function parseCassetteMode(value: string | undefined): CassetteMode {
+  return value === 'record' || value === 'replay' ? value : 'off'
+}
+
+/**
+ * Records provider responses to cassette files or replays them
+ */
+export class HttpCassette {
+  private config: HttpCassetteConfig
+  private cassettes = new Map<string, Promise<CassetteFile>>()
+  private writes = new Map<string, Promise<unknown>>()
+
+  constructor(config?: Partial<HttpCassetteConfig>) {
+    // Default configuration with environment variable fallbacks
+    this.config = {
+      mode: config?.mode || parseCassetteMode(process.env.HTTP_CASSETTE_MODE),
+      dir: config?.dir || process.env.HTTP_CASSETTE_DIR || path.join(process.cwd(), 'cassettes'),
+    }
+  }
+
+  get mode(): CassetteMode {
+    return this.config.mode
+  }
+
+  /**
+   * Fetch through the cassette: live when off, live and saved when
+   * recording, and from the provider's cassette when replaying
+   *
+   * @param provider - Provider name, also the cassette file name (e.g., "yahoo")
+   * @param url - Absolute request URL
+   * @param init - Fetch options; the abort signal is ignored on replay
+   * @returns The live or recorded response
+   * @throws APIError with status 404 when replaying a request that was never recorded
+   */
+  async fetch(provider: string, url: string, init: RequestInit = {}): Promise<Response> {
+    if (this.config.mode === 'replay') {
+      return this.replay(provider, url, init)
+    }
+
+    const response = await fetch(url, init)
+    return this.config.mode === 'record' ? this.record(provider, url, init, response) : response
+  }
+
+  /**
+   * Answer a request from the provider's cassette: the exact recording if
+   * there is one, otherwise the latest one differing only in its date window
+   */
+  private async replay(provider: string, url: string, init: RequestInit): Promise<Response> {
+    const method = (init.method || 'GET').toUpperCase()
+    const redacted = redactUrl(url)
+    const { interactions } = await this.load(provider)
+    const sameMethod = interactions.filter(interaction => interaction.request.method === method)
+
+    let interaction = sameMethod.find(candidate => candidate.request.url === redacted)
+
+    if (!interaction) {
+      const rangeFree = withoutRange(redacted)
+      interaction = sameMethod
+        .filter(candidate => withoutRange(candidate.request.url) === rangeFree)
+        .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))[0]
+
+      if (interaction) {
+        logWarning(`Replaying ${provider} recording for a different date window`, {
+          function: 'replay',
+          provider,
+          url: redacted,
+          recordedUrl: interaction.request.url,
+        })
+      }
+    }
+
+    if (!interaction) {
+      throw new APIError(
+        `No ${provider} recording for ${method} ${redacted}`,
+        404,
+        provider
+      )
+    }
+
+    const { status, headers, json, body } = interaction.response
+    return new Response(json !== undefined ? JSON.stringify(json) : body || null, { status, headers })
+  }
+
+  /**
+   * Save a live response to the provider's cassette and return an unread
+   * copy of it. Error responses are passed through without being saved, so
+   * a replay never repeats an outage that happened while recording.
+   */
+  private async record(
+    provider: string,
+    url: string,
+    init: RequestInit,
+    response: Response
+  ): Promise<Response> {
+    if (!response.ok) {
+      return response
+    }
+
+    const text = await response.text()
+    const headers: Record<string, string> = {}
+    RECORDED_HEADERS.forEach(name => {
+      const value = response.headers.get(name)
+      if (value !== null) {
+        headers[name] = value
+      }
+    })
+
+    let json: unknown
+    if (headers['content-type']?.includes('json')) {
+      try {
+        json = JSON.parse(text)
+      } catch {
+        // Mislabelled body; stored as text below
+      }
+    }
+
+    const interaction: CassetteInteraction = {
+      request: {
+        method: (init.method || 'GET').toUpperCase(),
+        url: redactUrl(url),
+      },
+      response: {
+        status: response.status,
+        headers,
+        ...(json !== undefined ? { json } : { body: text }),
+      },
+      recordedAt: new Date().toISOString(),
+    }
+
+    await this.save(provider, interaction)
+
+    return new Response(text || null, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    })
+  }
+
+  /**
+   * Add an interaction to a cassette, replacing an earlier recording of the
+   * same request. Saves of one cassette run one after another.
+   */
+  private save(provider: string, interaction: CassetteInteraction): Promise<void> {
+    const previous = this.writes.get(provider) || Promise.resolve()
+    const next = previous.catch(() => undefined).then(async () => {
+      const cassette = await this.load(provider)
+      const { method, url } = interaction.request
+
+      cassette.interactions = [
+        ...cassette.interactions.filter(
+          existing => existing.request.method !== method || existing.request.url !== url
+        ),
+        interaction,
+      ]
+
+      await this.write(provider, cassette)
+    })
+
+    this.writes.set(provider, next)
+    return next
+  }
+
+  /**
+   * Read a provider's cassette once; a missing or unreadable file is empty
+   */
+  private load(provider: string): Promise<CassetteFile> {
+    let cassette = this.cassettes.get(provider)
+    if (!cassette) {
+      cassette = this.read(provider)
+      this.cassettes.set(provider, cassette)
+    }
+    return cassette
+  }
+
+  private async read(provider: string): Promise<CassetteFile> {
+    const empty: CassetteFile = { version: CASSETTE_VERSION, provider, interactions: [] }
+
+    try {
+      const file = JSON.parse(await readFile(this.cassettePath(provider), 'utf-8')) as CassetteFile
+      if (file.version !== CASSETTE_VERSION || !Array.isArray(file.interactions)) {
+        logWarning(`Ignoring incompatible ${provider} cassette`, {
+          function: 'read',
+          provider,
+          version: file.version,
+        })
+        return empty
+      }
+
+      logInfo(`Loaded ${provider} cassette`, {
+        function: 'read',
+        provider,
+        mode: this.config.mode,
+        count: file.interactions.length,
+      })
+      return file
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        logWarning(`Ignoring unreadable ${provider} cassette`, {
+          function: 'read',
+          provider,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+      return empty
+    }
+  }
+
+  /**
+   * Write a cassette atomically (temporary file, then rename).
+   * A failed write only loses the recording; the response is still returned.
+   */
+  private async write(provider: string, cassette: CassetteFile): Promise<void> {
+    const target = this.cassettePath(provider)
+    const temporary = `${target}.${process.pid}.tmp`
+
+    try {
+      await mkdir(path.dirname(target), { recursive: true })
+      await writeFile(temporary, JSON.stringify(cassette, null, 2), 'utf-8')
+      await rename(temporary, target)
+    } catch (error) {
+      logError(`Failed to write ${provider} cassette`, error, {
+        function: 'write',
+        provider,
+        path: target,
+      })
+    }
+  }
+
+  private cassettePath(provider: string): string {
+    return path.join(this.config.dir, `${provider}.json`)
+  }
+}
+
+let httpCassette: HttpCassette | undefined
+
+/**
+ * Shared cassette configured from HTTP_CASSETTE_MODE and HTTP_CASSETTE_DIR
+ */
+export function getHttpCassette(): HttpCassette {
+  if (!httpCassette) {
+    httpCassette = new HttpCassette()
+  }
+  return httpCassette
+}
+
+/**
+ * Drop the shared cassette so the next request re-reads the environment
+ * and cassette files (e.g., between tests)
+ */
+export function resetHttpCassette(): void {
+  httpCassette = undefined
+}
+
+/**
+ * fetch() for the API clients, routed through the shared cassette
+ * @param provider - Provider name (e.g., "donki", "yahoo")
+ * @param url - Absolute request URL
+ * @param init - Fetch options
+ */
+export function cassetteFetch(provider: string, url: string, init?: RequestInit): Promise<Response> {
+  return getHttpCassette().fetch(provider, url, init)
+}
@@ -0,0 +1,342 @@
+import { NASAClient } from './nasa'
+import { StockClient } from './stock'
+import { SolarIndexClient } from './solar-indices'
+import { TimeSeriesStore } from './timeseries-store'
+import { recordFetchFailure, Sourced, trackSource } from './provenance'
+import {
+  ComposedData,
+  FlareAggregate,
+  FlareAlignment,
+  FlareData,
+  FlareLinkage,
+  FlareLocationFilter,
+  KpIndexData,
+  SolarIndexData,
+  SourceProvenance,
+  StockData,
+  StockQuote,
+  VolatilityEstimator,
+} from './types'
+import { mergeDatasets } from '../utils/data-transform'
+import { getFlareLookback } from '../utils/flare-alignment'
+import { buildEventGraph, filterFlaresByLinkage, SpaceWeatherEventGraph, toGraphFlares } from '../utils/event-graph'
+import { filterFlaresByLocation } from '../utils/heliographic'
+import { getExchangeCalendar } from '../utils/exchange-calendar'
+import { normalizeSymbol } from '../utils/symbol-directory'
+import { DateRange } from '../utils/date-range'
+import { logError, logInfo } from '../utils/error-handling'
+
+/**
+ * Shared data loading for the server actions.
+ *
+ * Every source is loaded through `coalesce`, keyed by source, symbol and
+ * range, so identical requests in flight at the same time share one
+ * promise. The actions rendering one page therefore make one NASA call
+ * between them even though each keys its own `cache()` by its own options.
+ *
+ * Loaders never reject: a failed source is logged once and comes back
+ * empty, so one source failing doesn't block the others. Each returns its
+ * records with their provenance (see trackSource), which the actions turn
+ * into the provenance envelope of their response.
+ */
+
+/**
+ * Options for loadMarketDataset, the union of the actions' data options
+ */
+export interface MarketDataOptions {
+  startDate: string
+  endDate: string
+  stockSymbol: string
+  flareAggregate?: FlareAggregate
+  flareAlignment?: FlareAlignment
+  maxGapDays?: number
+  flareLinkage?: FlareLinkage
+  flareLocation?: FlareLocationFilter
+  adjustedPrices?: boolean
+  volatilityEstimator?: VolatilityEstimator
+  volatilityWindow?: number
+  annualizeVolatility?: boolean
+  solarIndices?: boolean  // Load sunspot number and F10.7 and merge them into composedData
+  kpIndex?: boolean       // Load DONKI storms and merge daily max Kp into composedData
+}
+
+/**
+ * Options for loadStockSeries
+ */
+export interface StockSeriesOptions {
+  adjustedPrices?: boolean
+  volatilityEstimator?: VolatilityEstimator
+  volatilityWindow?: number
+  annualizeVolatility?: boolean
+}
+
+/**
+ * Flares and stock volatility for one symbol and range, merged by trading day
+ */
+export interface MarketDataset {
+  flareData: FlareData[]        // After linkage and location filters
+  stockData: StockData[]
+  composedData: ComposedData[]
+  solarIndices: SolarIndexData[]  // Empty unless requested
+  kpSeries: KpIndexData[]         // Empty unless requested
+  sources: SourceProvenance[]     // One entry per source loaded
+}
+
+const inFlight = new Map<string, Promise<unknown>>()
+
+/**
+ * Shares one in-flight load between callers asking for the same key.
+ * The key is forgotten once the load settles, so later calls load again.
+ *
+ * @param key - Source, symbol and range (e.g., "quotes|AAPL|2024-01-01|2024-01-31")
+ * @param load - Starts the load; only called when nothing is in flight for the key
+ * @returns The shared result
+ */
+export function coalesce<T>(key: string, load: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key)
+  if (pending) {
+    return pending as Promise<T>
+  }
+
+  const promise = Promise.resolve()
+    .then(load)
+    .finally(() => inFlight.delete(key))
+  inFlight.set(key, promise)
+  return promise
+}
+
+function rangeKey(range: DateRange): string {
+  return `${range.startDate}|${range.endDate}`
+}
+
+/**
+ * Flares for a date range from the local store
+ */
+export function loadFlares(startDate: string, endDate: string): Promise<Sourced<FlareData[]>> {
+  return coalesce(`flares|${rangeKey({ startDate, endDate })}`, () => trackSource('flares', async () => {
+    try {
+      return await new TimeSeriesStore().getFlares(startDate, endDate, new NASAClient())
+    } catch (error) {
+      recordFetchFailure('donki')
+      logError('Failed to load flares', error, {
+        function: 'loadFlares',
+        provider: 'NASA',
+        startDate,
+        endDate,
+      })
+      return []
+    }
+  }))
+}
+
+/**
+ * DONKI flare -> CME -> storm graph for a date range. Flares come from the
+ * shared loadFlares load, with their links kept in the store, so only the
+ * CMEs and storms are fetched here.
+ */
+export function loadEventGraph(startDate: string, endDate: string): Promise<Sourced<SpaceWeatherEventGraph>> {
+  const load = async () => {
+    const nasaClient = new NASAClient()
+    const [flares, linked] = await Promise.all([
+      loadFlares(startDate, endDate),
+      nasaClient.getLinkedEvents(startDate, endDate).catch(error => {
+        recordFetchFailure('donki')
+        logError('NASA event graph failed, using flare links only', error, {
+          function: 'loadEventGraph',
+          provider: 'NASA',
+          startDate,
+          endDate,
+        })
+        return {}
+      }),
+    ])
+
+    return buildEventGraph({ flares: toGraphFlares(flares.records), ...linked })
+  }
+
+  return coalesce(`event-graph|${rangeKey({ startDate, endDate })}`, () =>
+    trackSource('event-graph', load, { count: graph => graph.nodes.size })
+  )
+}
+
+/**
+ * Daily max Kp for a date range from DONKI geomagnetic storms
+ */
+export function loadKpIndex(startDate: string, endDate: string): Promise<Sourced<KpIndexData[]>> {
+  return coalesce(`kp-index|${rangeKey({ startDate, endDate })}`, () => trackSource('kp-index', async () => {
+    const nasaClient = new NASAClient()
+    try {
+      return nasaClient.transformKpIndexData(await nasaClient.getGeomagneticStorms(startDate, endDate))
+    } catch (error) {
+      recordFetchFailure('donki')
+      logError('Failed to load geomagnetic storms', error, {
+        function: 'loadKpIndex',
+        provider: 'NASA',
+        startDate,
+        endDate,
+      })
+      return []
+    }
+  }))
+}
+
+/**
+ * Sunspot number and F10.7 flux for a date range
+ */
+export function loadSolarIndices(startDate: string, endDate: string): Promise<Sourced<SolarIndexData[]>> {
+  return coalesce(`solar-indices|${rangeKey({ startDate, endDate })}`, () => trackSource('solar-indices', async () => {
+    try {
+      return await new SolarIndexClient().getSolarIndices(startDate, endDate)
+    } catch (error) {
+      recordFetchFailure('silso')
+      logError('Failed to load solar indices', error, {
+        function: 'loadSolarIndices',
+        provider: 'SolarIndex',
+        startDate,
+        endDate,
+      })
+      return []
+    }
+  }))
+}
+
+/**
+ * Daily quotes for a symbol and range from the local store, split- and
+ * dividend-adjusted when asked
+ */
+export function loadStockQuotes(
+  symbol: string,
+  range: DateRange,
+  adjusted: boolean = false
+): Promise<Sourced<StockQuote[]>> {
+  const normalized = normalizeSymbol(symbol)
+  const key = `${adjusted ? 'adjusted-quotes' : 'quotes'}|${normalized}|${rangeKey(range)}`
+
+  const load = async () => {
+    const stockClient = new StockClient()
+    try {
+      const quotes = await new TimeSeriesStore().getStockQuotes(symbol, range, stockClient)
+      return adjusted
+        ? await stockClient.adjustQuotes(symbol, quotes, range)
+        : quotes
+    } catch (error) {
+      recordFetchFailure(stockClient['config'].provider)
+      logError('Failed to load stock quotes', error, {
+        function: 'loadStockQuotes',
+        provider: stockClient['config'].provider,
+        symbol,
+        startDate: range.startDate,
+        endDate: range.endDate,
+        adjusted,
+      })
+      return []
+    }
+  }
+
+  return coalesce(key, () => trackSource('stock', load, { symbol: normalized }))
+}
+
+/**
+ * Daily volatility series for a symbol and range
+ */
+export async function loadStockSeries(
+  symbol: string,
+  range: DateRange,
+  options: StockSeriesOptions = {}
+): Promise<Sourced<StockData[]>> {
+  const { records: quotes, provenance } = await loadStockQuotes(symbol, range, options.adjustedPrices)
+
+  try {
+    const stockData = new StockClient().calculateVolatility(quotes, '1d', 'day', symbol, {
+      estimator: options.volatilityEstimator,
+      window: options.volatilityWindow,
+      annualize: options.annualizeVolatility,
+    })
+    return { records: stockData, provenance }
+  } catch (error) {
+    logError('Failed to transform stock data', error, {
+      function: 'loadStockSeries',
+      symbol,
+      quoteCount: quotes.length,
+    })
+    return { records: [], provenance: { ...provenance, recordCount: 0, degraded: true } }
+  }
+}
+
+/**
+ * Loads flares, stock volatility and the optional index series for one
+ * symbol and range in parallel, applies the flare filters and merges
+ * everything by trading day, the same way for every action.
+ *
+ * @param options - Symbol, range and the action's flare/volatility options
+ * @returns Filtered flares, volatility series and merged daily data
+ */
+export async function loadMarketDataset(options: MarketDataOptions): Promise<MarketDataset> {
+  const { startDate, endDate, stockSymbol } = options
+  const flareLinkage = options.flareLinkage || 'all'
+  const calendar = getExchangeCalendar(stockSymbol)
+
+  // Flares from before the range (a weekend, the evening before the first
+  // session) can belong to its first trading day
+  const lookback = getFlareLookback(startDate, {
+    alignment: options.flareAlignment,
+    maxGapDays: options.maxGapDays,
+    calendar,
+  })
+
+  const [flares, stock, indices, kp, graph] = await Promise.all([
+    loadFlares(lookback.startDate, endDate),
+    loadStockSeries(stockSymbol, { startDate, endDate }, options),
+    options.solarIndices ? loadSolarIndices(startDate, endDate) : Promise.resolve(undefined),
+    options.kpIndex ? loadKpIndex(startDate, endDate) : Promise.resolve(undefined),
+    flareLinkage !== 'all' ? loadEventGraph(lookback.startDate, endDate) : Promise.resolve(undefined),
+  ])
+
+  const flareHistory = flares.records
+  const stockData = stock.records
+  const solarIndices = indices?.records || []
+  const kpSeries = kp?.records || []
+  const eventGraph = graph?.records
+  const sources = [flares, stock, indices, kp, graph].flatMap(loaded => (loaded ? [loaded.provenance] : []))
+
+  // Keep only flares whose DONKI event chain reached Earth, then only
+  // flares from the requested part of the solar disk
+  let alignedFlares = eventGraph
+    ? filterFlaresByLinkage(flareHistory, eventGraph, flareLinkage)
+    : flareHistory
+  alignedFlares = filterFlaresByLocation(alignedFlares, options.flareLocation || 'all')
+    .filter(lookback.includes)
+
+  // Flares before the range only feed the merge
+  const flareData = alignedFlares.filter(flare => flare.date >= startDate)
+
+  let composedData: ComposedData[] = []
+  try {
+    composedData = mergeDatasets(alignedFlares, stockData, {
+      flareAggregate: options.flareAggregate,
+      solarIndices: options.solarIndices ? solarIndices : undefined,
+      kpData: options.kpIndex ? kpSeries : undefined,
+      alignment: options.flareAlignment,
+      maxGapDays: options.maxGapDays,
+      calendar,
+    })
+  } catch (error) {
+    logError('Failed to merge datasets', error, {
+      function: 'loadMarketDataset',
+      flareDataCount: flareData.length,
+      stockDataCount: stockData.length,
+    })
+  }
+
+  logInfo('Loaded market dataset', {
+    function: 'loadMarketDataset',
+    stockSymbol,
+    startDate,
+    endDate,
+    flareCount: flareData.length,
+    stockDataCount: stockData.length,
+    composedDataCount: composedData.length,
+  })
+
+  return { flareData, stockData, composedData, solarIndices, kpSeries, sources }
+}
@@ -1,174 +1,517 @@
-import { NASAClientConfig, NASAFlareEvent, FlareData, APIError } from './types'
+import {
+  NASAClientConfig,
+  SolarProvider,
+  NASAFlareEvent,
+  NASAGeomagneticStormEvent,
+  NASACMEEvent,
+  FlareData,
+  KpIndexData,
+  APIError,
+} from './types'
 import { logError, logWarning, logInfo, getEmptyNASAFlareEvents } from '../utils/error-handling'
+import { parseGOESClass, fluxToIntensity } from '../utils/goes-flux'
+import { splitDateRange, DateRange } from '../utils/date-range'
+import { mapWithConcurrency } from '../utils/concurrency'
+import { parseSourceLocation } from '../utils/heliographic'
+import { computeFlareTiming } from '../utils/flare-timing'
+import { SpaceWeatherEvents } from '../utils/event-graph'
+import { GOESClient } from './goes'
+import { callWithResilience, parseRetryAfter, CircuitOpenError } from './resilience'
+import { recordRateLimitHeaders, RateLimitError, DONKI_DEMO_KEY_RATE_LIMIT } from './rate-limit'
+import { recordFetch, recordFetchFailure } from './provenance'
+import { cassetteFetch } from './http-cassette'
+
+/**
+ * Days past the end of a range to look for CMEs and storms, since a CME
+ * takes roughly one to four days to reach Earth
+ */
+const EVENT_GRAPH_LOOKAHEAD_DAYS = 5
 
 /**
  * NASA DONKI API Client
- * Fetches solar flare event data from NASA's Space Weather Database
+ * Fetches solar flare and geomagnetic storm data from NASA's Space Weather Database.
+ * Flare events fall back to NOAA GOES X-ray flux when DONKI is unavailable.
  */
 export class NASAClient {
   private config: NASAClientConfig
+  private goesClient: GOESClient
 
   constructor(config?: Partial<NASAClientConfig>) {
     // Default configuration with environment variable fallbacks
+    const defaultProvider = (process.env.SOLAR_DATA_PROVIDER as SolarProvider) || 'donki'
     const defaultApiKey = process.env.NASA_API_KEY || 'DEMO_KEY'
     const defaultBaseUrl = process.env.NASA_BASE_URL || 'https://api.nasa.gov/DONKI'
     
     this.config = {
+      provider: config?.provider || defaultProvider,
       apiKey: config?.apiKey || defaultApiKey,
       baseUrl: config?.baseUrl || defaultBaseUrl,
       timeout: config?.timeout || 10000, // 10 seconds default
+      chunkDays: config?.chunkDays || 30, // DONKI serves ~30-day windows reliably
+      concurrency: config?.concurrency || 3,
+      maxRetries: config?.maxRetries ?? 2,
+      retryDelay: config?.retryDelay ?? 1000, // 1 second, doubled per attempt
+      goes: config?.goes,
     }
+
+    this.goesClient = new GOESClient(this.config.goes)
   }
 
   /**
-   * Fetch solar flare events from NASA DONKI API
+   * Fetch solar flare events with automatic fallback to alternative providers.
+   * DONKI counts as failed only when every chunk of the range failed.
    * @param startDate - Start date in YYYY-MM-DD format
    * @param endDate - End date in YYYY-MM-DD format
-   * @returns Array of NASA flare events
+   * @param throwIfAllFailed - Throw instead of returning [] when every provider failed,
+   *   so callers can tell an outage from a range without flares
+   * @returns Array of flare events in DONKI format
    */
   async getFlareEvents(
     startDate: string,
-    endDate: string
+    endDate: string,
+    throwIfAllFailed: boolean = false
   ): Promise<NASAFlareEvent[]> {
+    // Try primary provider
     try {
-      // Construct the API URL
-      const url = new URL(`${this.config.baseUrl}/FLR`)
-      url.searchParams.append('startDate', startDate)
-      url.searchParams.append('endDate', endDate)
-      url.searchParams.append('api_key', this.config.apiKey)
-
-      logInfo('Fetching flare events', {
+      const events = await this.fetchFlaresFromProvider(this.config.provider, startDate, endDate)
+      recordFetch(this.config.provider)
+      return events
+    } catch (primaryError) {
+      recordFetchFailure(this.config.provider)
+      logWarning(`Primary solar provider ${this.config.provider} failed, attempting fallback`, {
         function: 'getFlareEvents',
-        provider: 'NASA',
+        provider: this.config.provider,
         startDate,
         endDate,
-        url: url.toString().replace(this.config.apiKey, '***'),
+        error: primaryError instanceof Error ? primaryError.message : 'Unknown error',
       })
 
-      // Create abort controller for timeout
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
-
-      try {
-        const response = await fetch(url.toString(), {
-          signal: controller.signal,
-          headers: {
-            'Accept': 'application/json',
-          },
-        })
-
-        clearTimeout(timeoutId)
-
-        // Handle rate limiting (429 status code)
-        if (response.status === 429) {
-          logError(
-            'NASA API rate limit exceeded',
-            new APIError('Rate limit exceeded', 429, 'NASA'),
-            {
-              function: 'getFlareEvents',
-              provider: 'NASA',
-              statusCode: 429,
-              startDate,
-              endDate,
-            }
-          )
-          return getEmptyNASAFlareEvents()
-        }
-
-        // Handle non-200 responses
-        if (!response.ok) {
-          const error = new APIError(
-            `NASA API returned status ${response.status}`,
-            response.status,
-            'NASA'
-          )
-          
-          logError(
-            'NASA API returned error status',
-            error,
-            {
-              function: 'getFlareEvents',
-              provider: 'NASA',
-              statusCode: response.status,
-              startDate,
-              endDate,
-            }
-          )
-          
-          return getEmptyNASAFlareEvents()
-        }
-
-        const data = await response.json()
+      // Attempt fallback providers
+      const fallbackProviders = this.getFallbackProviders()
 
-        // NASA API returns an array of flare events
-        if (!Array.isArray(data)) {
-          logWarning('Unexpected response format from NASA API, expected array', {
+      for (const provider of fallbackProviders) {
+        try {
+          logInfo(`Trying fallback solar provider: ${provider}`, {
+            function: 'getFlareEvents',
+            provider,
+            startDate,
+            endDate,
+          })
+          const events = await this.fetchFlaresFromProvider(provider, startDate, endDate)
+          recordFetch(provider, true)
+          return events
+        } catch (fallbackError) {
+          recordFetchFailure(provider)
+          logWarning(`Fallback solar provider ${provider} failed`, {
             function: 'getFlareEvents',
-            provider: 'NASA',
+            provider,
             startDate,
             endDate,
+            error: fallbackError instanceof Error ? fallbackError.message : 'Unknown error',
           })
-          return getEmptyNASAFlareEvents()
+          // Continue to next fallback
         }
+      }
 
-        logInfo('Successfully fetched flare events', {
+      // All providers failed
+      logError(
+        'All solar flare providers failed',
+        new Error('All providers exhausted'),
+        {
           function: 'getFlareEvents',
-          provider: 'NASA',
-          count: data.length,
-        })
+          startDate,
+          endDate,
+          attemptedProviders: [this.config.provider, ...fallbackProviders],
+        }
+      )
 
-        return data as NASAFlareEvent[]
-      } catch (fetchError) {
-        clearTimeout(timeoutId)
-        throw fetchError
+      if (throwIfAllFailed) {
+        throw new APIError('All solar flare providers failed', undefined, 'NASA')
       }
+
+      return getEmptyNASAFlareEvents()
+    }
+  }
+
+  /**
+   * Get list of fallback solar providers based on current provider
+   */
+  private getFallbackProviders(): SolarProvider[] {
+    const allProviders: SolarProvider[] = ['donki', 'goes']
+    return allProviders.filter(p => p !== this.config.provider)
+  }
+
+  /**
+   * Fetch flare events from a specific solar provider
+   */
+  private async fetchFlaresFromProvider(
+    provider: SolarProvider,
+    startDate: string,
+    endDate: string
+  ): Promise<NASAFlareEvent[]> {
+    switch (provider) {
+      case 'donki':
+        return await this.fetchDONKIEvents<NASAFlareEvent>(
+          'FLR',
+          startDate,
+          endDate,
+          'getFlareEvents',
+          'flare events',
+          event => event.flrID,
+          true
+        )
+      case 'goes':
+        return await this.goesClient.getFlareEvents(startDate, endDate)
+      default:
+        throw new APIError(`Unknown solar provider: ${provider}`, undefined, provider)
+    }
+  }
+
+  /**
+   * Fetch geomagnetic storm events from NASA DONKI API
+   * @param startDate - Start date in YYYY-MM-DD format
+   * @param endDate - End date in YYYY-MM-DD format
+   * @returns Array of NASA geomagnetic storm events
+   */
+  async getGeomagneticStorms(
+    startDate: string,
+    endDate: string
+  ): Promise<NASAGeomagneticStormEvent[]> {
+    return this.fetchDONKIEvents<NASAGeomagneticStormEvent>(
+      'GST',
+      startDate,
+      endDate,
+      'getGeomagneticStorms',
+      'geomagnetic storms',
+      event => event.gstID
+    )
+  }
+
+  /**
+   * Fetch coronal mass ejections from NASA DONKI API
+   * @param startDate - Start date in YYYY-MM-DD format
+   * @param endDate - End date in YYYY-MM-DD format
+   * @returns Array of NASA CME events
+   */
+  async getCMEEvents(
+    startDate: string,
+    endDate: string
+  ): Promise<NASACMEEvent[]> {
+    return this.fetchDONKIEvents<NASACMEEvent>(
+      'CME',
+      startDate,
+      endDate,
+      'getCMEEvents',
+      'CME events',
+      event => event.activityID
+    )
+  }
+
+  /**
+   * Fetch the CMEs and storms that flares in a range can link to, for
+   * buildEventGraph. They are fetched a few days past the end date so flares
+   * near the end of the range can still be linked to the storm they caused.
+   * @param startDate - Start date in YYYY-MM-DD format
+   * @param endDate - End date in YYYY-MM-DD format
+   * @returns CME and geomagnetic storm events
+   */
+  async getLinkedEvents(
+    startDate: string,
+    endDate: string
+  ): Promise<Required<Pick<SpaceWeatherEvents, 'cmes' | 'storms'>>> {
+    const lookaheadEnd = new Date(`${endDate}T00:00:00Z`)
+    const extendedEndDate = isNaN(lookaheadEnd.getTime())
+      ? endDate
+      : (() => {
+          lookaheadEnd.setUTCDate(lookaheadEnd.getUTCDate() + EVENT_GRAPH_LOOKAHEAD_DAYS)
+          return lookaheadEnd.toISOString().split('T')[0]
+        })()
+
+    const [cmes, storms] = await Promise.all([
+      this.getCMEEvents(startDate, extendedEndDate),
+      this.getGeomagneticStorms(startDate, extendedEndDate),
+    ])
+
+    return { cmes, storms }
+  }
+
+  /**
+   * Fetch events from a DONKI endpoint for a date range.
+   * Long ranges are split into chunks of `chunkDays` that are fetched with at
+   * most `concurrency` requests in flight. Each chunk retries on its own, so a
+   * failed chunk only loses its own window. Results are de-duplicated by ID.
+   * @param endpoint - DONKI endpoint name (e.g., "FLR", "GST")
+   * @param startDate - Start date in YYYY-MM-DD format
+   * @param endDate - End date in YYYY-MM-DD format
+   * @param functionName - Public method name used in log context
+   * @param label - Human readable event label used in log messages
+   * @param getId - Extracts the unique DONKI ID used for de-duplication
+   * @param throwIfAllFailed - Throw instead of returning [] when no chunk succeeded
+   * @returns Array of raw DONKI events
+   */
+  private async fetchDONKIEvents<T>(
+    endpoint: string,
+    startDate: string,
+    endDate: string,
+    functionName: string,
+    label: string,
+    getId: (event: T) => string | undefined,
+    throwIfAllFailed: boolean = false
+  ): Promise<T[]> {
+    let chunks: DateRange[]
+    try {
+      chunks = splitDateRange(startDate, endDate, this.config.chunkDays)
     } catch (error) {
-      // Handle timeout errors
-      if (error instanceof Error && error.name === 'AbortError') {
-        logError(
-          'NASA API request timed out',
-          error,
-          {
-            function: 'getFlareEvents',
-            provider: 'NASA',
-            timeout: this.config.timeout,
-            startDate,
-            endDate,
+      logError(
+        'Invalid date range for NASA API request',
+        error,
+        {
+          function: functionName,
+          provider: 'NASA',
+          startDate,
+          endDate,
+        }
+      )
+      return []
+    }
+
+    if (chunks.length > 1) {
+      logInfo(`Fetching ${label} in ${chunks.length} chunks`, {
+        function: functionName,
+        provider: 'NASA',
+        startDate,
+        endDate,
+        chunkDays: this.config.chunkDays,
+        concurrency: this.config.concurrency,
+      })
+    }
+
+    const chunkResults = await mapWithConcurrency(
+      chunks,
+      this.config.concurrency,
+      chunk => this.fetchDONKIChunkWithRetry<T>(endpoint, chunk, functionName, label)
+    )
+
+    // De-duplicate events that appear in more than one chunk
+    const seen = new Set<string>()
+    const events: T[] = []
+
+    for (const chunkEvents of chunkResults) {
+      for (const event of chunkEvents ?? []) {
+        const id = getId(event)
+        if (id) {
+          if (seen.has(id)) {
+            continue
           }
+          seen.add(id)
+        }
+        events.push(event)
+      }
+    }
+
+    // A partial outage still leaves the response degraded
+    const failedChunks = chunkResults.filter(result => result === null).length
+    if (failedChunks < chunks.length) {
+      recordFetch('donki')
+    }
+    if (failedChunks > 0) {
+      recordFetchFailure('donki')
+    }
+    if (throwIfAllFailed && chunks.length > 0 && failedChunks === chunks.length) {
+      throw new APIError(`All ${chunks.length} NASA ${label} chunks failed`, undefined, 'NASA')
+    }
+    if (failedChunks > 0) {
+      logWarning(`Partial ${label} data: ${failedChunks} of ${chunks.length} chunks failed`, {
+        function: functionName,
+        provider: 'NASA',
+        startDate,
+        endDate,
+      })
+    }
+
+    return events
+  }
+
+  /**
+   * Fetch a single chunk through the shared resilience layer: transient
+   * failures are retried with jittered backoff (honouring Retry-After) and
+   * count against the DONKI circuit breaker.
+   * Resolves to null once all attempts are exhausted or the circuit is open.
+   */
+  private async fetchDONKIChunkWithRetry<T>(
+    endpoint: string,
+    chunk: DateRange,
+    functionName: string,
+    label: string
+  ): Promise<T[] | null> {
+    const { startDate, endDate } = chunk
+
+    try {
+      return await callWithResilience(
+        () => this.fetchDONKIChunk<T>(endpoint, chunk, functionName, label),
+        {
+          provider: 'donki',
+          functionName,
+          context: { startDate, endDate },
+          maxRetries: this.config.maxRetries,
+          baseDelay: this.config.retryDelay,
+          rateLimit: this.config.apiKey === 'DEMO_KEY' ? DONKI_DEMO_KEY_RATE_LIMIT : undefined,
+        }
+      )
+    } catch (error) {
+      this.logChunkError(error, functionName, startDate, endDate)
+      return null
+    }
+  }
+
+  /**
+   * Fetch a single chunk from a DONKI endpoint.
+   * Throws APIError on rate limits, error statuses and malformed responses.
+   */
+  private async fetchDONKIChunk<T>(
+    endpoint: string,
+    chunk: DateRange,
+    functionName: string,
+    label: string
+  ): Promise<T[]> {
+    const { startDate, endDate } = chunk
+
+    // Construct the API URL
+    const url = new URL(`${this.config.baseUrl}/${endpoint}`)
+    url.searchParams.append('startDate', startDate)
+    url.searchParams.append('endDate', endDate)
+    url.searchParams.append('api_key', this.config.apiKey)
+
+    logInfo(`Fetching ${label}`, {
+      function: functionName,
+      provider: 'NASA',
+      startDate,
+      endDate,
+      url: url.toString().replace(this.config.apiKey, '***'),
+    })
+
+    // Create abort controller for timeout
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
+
+    try {
+      const response = await cassetteFetch('donki', url.toString(), {
+        signal: controller.signal,
+        headers: {
+          'Accept': 'application/json',
+        },
+      })
+
+      clearTimeout(timeoutId)
+      recordRateLimitHeaders('donki', response.headers)
+
+      // Handle rate limiting (429 status code)
+      if (response.status === 429) {
+        throw new APIError(
+          'Rate limit exceeded',
+          429,
+          'NASA',
+          parseRetryAfter(response.headers.get('Retry-After'))
         )
-        return getEmptyNASAFlareEvents()
       }
 
-      // Handle API errors
-      if (error instanceof APIError) {
-        logError(
-          'NASA API error',
-          error,
-          {
-            function: 'getFlareEvents',
-            provider: 'NASA',
-            statusCode: error.statusCode,
-            startDate,
-            endDate,
-          }
+      // Handle non-200 responses
+      if (!response.ok) {
+        throw new APIError(
+          `NASA API returned status ${response.status}`,
+          response.status,
+          'NASA',
+          parseRetryAfter(response.headers.get('Retry-After'))
+        )
+      }
+
+      // DONKI answers an empty window with an empty body
+      const text = await response.text()
+      if (!text.trim()) {
+        return []
+      }
+
+      const data = JSON.parse(text)
+
+      // NASA API returns an array of events
+      if (!Array.isArray(data)) {
+        throw new APIError(
+          'Unexpected response format from NASA API, expected array',
+          response.status,
+          'NASA'
         )
-        return getEmptyNASAFlareEvents()
       }
 
-      // Handle network errors
+      logInfo(`Successfully fetched ${label}`, {
+        function: functionName,
+        provider: 'NASA',
+        startDate,
+        endDate,
+        count: data.length,
+      })
+
+      return data as T[]
+    } catch (fetchError) {
+      clearTimeout(timeoutId)
+      throw fetchError
+    }
+  }
+
+  /**
+   * Log a chunk that failed after all attempts
+   */
+  private logChunkError(
+    error: unknown,
+    functionName: string,
+    startDate: string,
+    endDate: string
+  ): void {
+    const context = {
+      function: functionName,
+      provider: 'NASA',
+      startDate,
+      endDate,
+    }
+
+    // Handle timeout errors
+    if (error instanceof Error && error.name === 'AbortError') {
+      logError('NASA API request timed out', error, {
+        ...context,
+        timeout: this.config.timeout,
+      })
+      return
+    }
+
+    // Skipped while the DONKI circuit is open
+    if (error instanceof CircuitOpenError) {
+      logWarning('NASA DONKI circuit open, skipping chunk', context)
+      return
+    }
+
+    // Shed locally to save the API key's remaining quota
+    if (error instanceof RateLimitError) {
+      logWarning('NASA DONKI quota nearly used up, skipping chunk', {
+        ...context,
+        retryAfter: error.retryAfterMs,
+      })
+      return
+    }
+
+    // Handle rate limiting and API errors
+    if (error instanceof APIError) {
       logError(
-        'Network error while fetching NASA data',
+        error.statusCode === 429 ? 'NASA API rate limit exceeded' : 'NASA API error',
         error,
         {
-          function: 'getFlareEvents',
-          provider: 'NASA',
-          startDate,
-          endDate,
+          ...context,
+          statusCode: error.statusCode,
         }
       )
-      
-      return getEmptyNASAFlareEvents()
+      return
     }
+
+    // Handle network errors
+    logError('Network error while fetching NASA data', error, context)
   }
 
   /**
@@ -181,24 +524,49 @@ export class NASAClient {
     
     for (const event of events) {
       try {
-        // Extract flare intensity from classType (e.g., "M2.5" -> 2.5)
-        const flareIntensity = this.extractFlareIntensity(event.classType)
+        // Convert classType to peak GOES X-ray flux (e.g., "M2.5" -> 2.5e-5 W/m²)
+        const { flux } = parseGOESClass(event.classType)
 
         // Normalize peak time to YYYY-MM-DD format
         const normalizedDate = this.normalizeDate(event.peakTime)
 
         const flareData: FlareData = {
           date: normalizedDate,
-          flare: flareIntensity,
+          flare: fluxToIntensity(flux),
+          flux,
           class: event.classType,
           peakTime: event.peakTime,
         }
 
+        // Add the DONKI ID only if it exists; GOES-derived flares have none
+        if (event.flrID) {
+          flareData.id = event.flrID
+        }
+
         // Add sourceRegion only if it exists
         if (event.activeRegionNum) {
           flareData.sourceRegion = event.activeRegionNum
         }
 
+        // Add heliographic coordinates only if the location parses
+        const location = parseSourceLocation(event.sourceLocation)
+        if (location) {
+          flareData.latitude = location.latitude
+          flareData.longitude = location.longitude
+        }
+
+        // Add rise/decay/duration and fluence when the times allow it
+        const timing = computeFlareTiming(event.beginTime, event.peakTime, event.endTime, flux)
+        if (timing) {
+          Object.assign(flareData, timing)
+        }
+
+        // Keep DONKI links so the event graph can be rebuilt from stored flares
+        const linkedIds = (event.linkedEvents ?? []).map(linked => linked?.activityID).filter(Boolean)
+        if (linkedIds.length > 0) {
+          flareData.linkedEvents = linkedIds
+        }
+
         results.push(flareData)
       } catch (error) {
         // Handle malformed events gracefully
@@ -213,44 +581,52 @@ export class NASAClient {
   }
 
   /**
-   * Extract numeric intensity from flare class string
-   * @param classType - Flare class (e.g., "M2.5", "X1.0", "C5.3")
-   * @returns Numeric intensity value
+   * Transform raw geomagnetic storm events into a daily max-Kp series.
+   * Each storm carries several 3-hourly Kp readings; readings are bucketed
+   * by observation date and only the highest Kp per day is kept.
+   * @param events - Raw NASA geomagnetic storm events
+   * @returns Array of daily Kp index data sorted by date
    */
-  private extractFlareIntensity(classType: string): number {
-    if (!classType || typeof classType !== 'string') {
-      throw new Error('Invalid classType')
-    }
-
-    // Flare classes: C (weakest), M (medium), X (strongest)
-    // Format: Letter followed by number (e.g., "M2.5")
-    const match = classType.match(/^([CMX])(\d+\.?\d*)$/i)
+  transformKpIndexData(events: NASAGeomagneticStormEvent[]): KpIndexData[] {
+    const dailyMax = new Map<string, KpIndexData>()
 
-    if (!match) {
-      throw new Error(`Unable to parse flare class: ${classType}`)
-    }
+    for (const event of events) {
+      if (!event || !Array.isArray(event.allKpIndex)) {
+        console.warn('[NASAClient] Skipping storm event without Kp readings:', {
+          gstID: event?.gstID,
+        })
+        continue
+      }
 
-    const [, classLetter, magnitude] = match
-    const numericMagnitude = parseFloat(magnitude)
+      for (const reading of event.allKpIndex) {
+        try {
+          const kp = Number(reading?.kpIndex)
+          if (!isFinite(kp) || kp < 0) {
+            throw new Error(`Invalid Kp index: ${reading?.kpIndex}`)
+          }
 
-    if (isNaN(numericMagnitude)) {
-      throw new Error(`Invalid magnitude in flare class: ${classType}`)
-    }
+          const date = this.normalizeDate(reading.observedTime)
+          const existing = dailyMax.get(date)
 
-    // Scale based on class letter
-    // C-class: 0-1, M-class: 1-10, X-class: 10+
-    const classMultiplier: Record<string, number> = {
-      C: 0.1,
-      M: 1,
-      X: 10,
-    }
-
-    const multiplier = classMultiplier[classLetter.toUpperCase()]
-    if (multiplier === undefined) {
-      throw new Error(`Unknown flare class letter: ${classLetter}`)
+          if (!existing || kp > existing.kp) {
+            dailyMax.set(date, {
+              date,
+              kp,
+              observedTime: reading.observedTime,
+              stormId: event.gstID,
+            })
+          }
+        } catch (error) {
+          // Handle malformed readings gracefully
+          console.warn('[NASAClient] Skipping malformed Kp reading:', {
+            gstID: event.gstID,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          })
+        }
+      }
     }
 
-    return numericMagnitude * multiplier
+    return Array.from(dailyMax.values()).sort((a, b) => a.date.localeCompare(b.date))
   }
 
   /**
@@ -0,0 +1,152 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { DataProvenance, DataSourceKind, SourceProvenance, StoreStatus } from './types'
+
+/**
+ * Provenance tracking for the shared data loader.
+ *
+ * Clients report each provider that answered or failed through
+ * recordFetch and recordFetchFailure, and the time-series store reports how
+ * much of a range it already held through recordStoreRead. Reports go to
+ * the enclosing trackSource call, found through AsyncLocalStorage, so a
+ * client call is attributed to the load that made it even while other
+ * loads run in parallel. Reports made outside trackSource are ignored.
+ */
+
+interface SourceScope {
+  providers: Set<string>
+  failedProviders: Set<string>
+  fallback: boolean
+  store: StoreStatus
+  fetchedAt?: string
+}
+
+/**
+ * Records loaded for one source, with where they came from
+ */
+export interface Sourced<T> {
+  records: T
+  provenance: SourceProvenance
+}
+
+const scopes = new AsyncLocalStorage<SourceScope>()
+
+/**
+ * Report that a provider answered for the current source. When a source
+ * mixes responses, its fetch time is the oldest one reported.
+ * @param provider - Provider name (e.g., "donki", "yahoo")
+ * @param fallback - Whether the provider was a fallback for a failed primary
+ * @param fetchedAt - ISO time of the response, earlier for a reused one
+ */
+export function recordFetch(
+  provider: string,
+  fallback: boolean = false,
+  fetchedAt: string = new Date().toISOString()
+): void {
+  const scope = scopes.getStore()
+  if (scope) {
+    scope.providers.add(provider)
+    scope.fallback = scope.fallback || fallback
+    if (!scope.fetchedAt || fetchedAt < scope.fetchedAt) {
+      scope.fetchedAt = fetchedAt
+    }
+  }
+}
+
+/**
+ * Report that a provider failed for some or all of the current source
+ * @param provider - Provider name
+ */
+export function recordFetchFailure(provider: string): void {
+  scopes.getStore()?.failedProviders.add(provider)
+}
+
+/**
+ * Report how much of the requested range the time-series store held
+ * @param status - 'hit' when nothing had to be fetched
+ */
+export function recordStoreRead(status: StoreStatus): void {
+  const scope = scopes.getStore()
+  if (scope) {
+    scope.store = status
+  }
+}
+
+/**
+ * Run one source load and collect the provider reports it makes
+ *
+ * @param source - Source being loaded
+ * @param load - Loads the records; should not reject
+ * @param options - Symbol for stock sources, and how to count the records
+ * @returns The records and their provenance
+ */
+export async function trackSource<T>(
+  source: DataSourceKind,
+  load: () => Promise<T>,
+  options: { symbol?: string; count?: (records: T) => number } = {}
+): Promise<Sourced<T>> {
+  const scope: SourceScope = {
+    providers: new Set(),
+    failedProviders: new Set(),
+    fallback: false,
+    store: 'off',
+  }
+
+  const records = await scopes.run(scope, load)
+  const count = options.count || ((value: T) => (Array.isArray(value) ? value.length : 0))
+
+  return {
+    records,
+    provenance: {
+      source,
+      ...(options.symbol ? { symbol: options.symbol } : {}),
+      providers: Array.from(scope.providers),
+      failedProviders: Array.from(scope.failedProviders),
+      ...(scope.fetchedAt ? { fetchedAt: scope.fetchedAt } : {}),
+      loadedAt: new Date().toISOString(),
+      store: scope.store,
+      recordCount: count(records),
+      fallback: scope.fallback,
+      degraded: scope.fallback || scope.failedProviders.size > 0,
+    },
+  }
+}
+
+/**
+ * Build the provenance envelope of an action response
+ *
+ * @param sources - Provenance of every source the response was built from
+ * @param failed - Whether the action itself failed and returned empty data
+ * @returns Provenance with cache set to 'miss'; cached reads override it
+ */
+export function buildDataProvenance(sources: SourceProvenance[], failed: boolean = false): DataProvenance {
+  const degradedCount = sources.filter(source => source.degraded).length
+
+  return {
+    generatedAt: new Date().toISOString(),
+    cache: 'miss',
+    providers: Array.from(new Set(sources.flatMap(source => source.providers))),
+    partial: !failed && degradedCount > 0 && degradedCount < sources.length,
+    degraded: failed || degradedCount > 0,
+    sources,
+  }
+}
+
+/**
+ * Set the cache status of a response read through unstable_cache. A
+ * response built before the read started came from the data cache.
+ *
+ * @param data - Action response
+ * @param requestedAt - ISO time the cached read started
+ * @returns The response with its provenance cache status set
+ */
+export function withCacheStatus<T extends { provenance?: DataProvenance }>(
+  data: T,
+  requestedAt: string
+): T {
+  if (!data.provenance) {
+    return data
+  }
+
+  const cache = data.provenance.generatedAt < requestedAt ? 'hit' : 'miss'
+  return { ...data, provenance: { ...data.provenance, cache } }
+}
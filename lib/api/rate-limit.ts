@@ -0,0 +1,244 @@
+import { APIError } from './types'
+import { logWarning, logInfo } from '../utils/error-handling'
+import { sleep } from '../utils/concurrency'
+
+/**
+ * Outbound rate limiting: one token bucket per provider, shared across the
+ * process like the circuit breakers. Buckets refill continuously and are
+ * pulled down to the quota the provider reports in X-RateLimit-Remaining,
+ * so six server actions rendering one page cannot burn a DEMO_KEY between
+ * them. A request that finds the bucket empty waits for the next token
+ * (queue) or fails fast with RateLimitError (shed).
+ */
+
+export type RateLimitOverflow = 'queue' | 'shed'
+
+export interface RateLimiterOptions {
+  limit: number                // Requests per interval (bucket capacity)
+  interval: number             // Milliseconds to refill a full bucket
+  reserve: number              // Reported remaining quota kept back unused
+  overflow: RateLimitOverflow  // What to do with a request when the bucket is empty
+  maxWait: number              // Queued requests needing a longer wait are shed
+}
+
+export interface RateLimitSnapshot {
+  provider: string
+  limit: number
+  interval: number
+  available: number        // Whole tokens in the bucket now
+  remaining?: number       // Last X-RateLimit-Remaining reported by the provider
+  reportedLimit?: number   // Last X-RateLimit-Limit reported by the provider
+  queued: number           // Requests currently waiting for a token
+  shed: number             // Requests rejected since startup
+  nearLimit: boolean       // At or below the reserve; further requests will queue or shed
+  updatedAt?: number       // Epoch milliseconds of the last quota header
+}
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+/**
+ * Applied under provider defaults and caller options
+ */
+const BASE_RATE_LIMITER_OPTIONS: RateLimiterOptions = {
+  limit: 60,
+  interval: MINUTE,
+  reserve: 0,
+  overflow: 'queue',
+  maxWait: 15000,
+}
+
+/**
+ * Published or observed free-tier limits. Providers without an entry (e.g.
+ * csv) are not rate limited.
+ */
+export const DEFAULT_RATE_LIMITS: Record<string, Partial<RateLimiterOptions>> = {
+  donki: { limit: 1000, interval: HOUR, reserve: 10 },
+  yahoo: { limit: 60, interval: MINUTE, reserve: 5 },
+  alphavantage: { limit: 5, interval: MINUTE, reserve: 1 },
+  finnhub: { limit: 60, interval: MINUTE, reserve: 5 },
+}
+
+/**
+ * api.nasa.gov allows DEMO_KEY 30 requests per hour per IP
+ */
+export const DONKI_DEMO_KEY_RATE_LIMIT: Partial<RateLimiterOptions> = {
+  limit: 30,
+  interval: HOUR,
+  reserve: 2,
+}
+
+/**
+ * Thrown without calling the provider when a request is shed
+ */
+export class RateLimitError extends APIError {
+  constructor(provider: string, retryAfterMs?: number) {
+    super(`Rate limit reached for ${provider}, request shed`, 429, provider, retryAfterMs)
+    this.name = 'RateLimitError'
+  }
+}
+
+/**
+ * Token bucket for one provider. Tokens go negative while requests are
+ * queued, so each queued request waits its turn behind the earlier ones.
+ */
+export class RateLimiter {
+  private tokens: number
+  private lastRefill: number
+  private remaining?: number
+  private reportedLimit?: number
+  private updatedAt?: number
+  private queued = 0
+  private shed = 0
+
+  constructor(
+    readonly provider: string,
+    private options: RateLimiterOptions,
+    now: number = Date.now()
+  ) {
+    this.tokens = options.limit
+    this.lastRefill = now
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.lastRefill)
+    this.tokens = Math.min(this.options.limit, this.tokens + elapsed * this.options.limit / this.options.interval)
+    this.lastRefill = now
+  }
+
+  /**
+   * Takes a token, waiting for one if the bucket is empty
+   *
+   * @throws RateLimitError when the request is shed
+   */
+  async acquire(now: number = Date.now()): Promise<void> {
+    this.refill(now)
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1
+      return
+    }
+
+    const wait = Math.ceil((1 - this.tokens) * this.options.interval / this.options.limit)
+
+    if (this.options.overflow === 'shed' || wait > this.options.maxWait) {
+      this.shed++
+      logWarning(`Rate limit reached for ${this.provider}, shedding request`, {
+        function: 'acquire',
+        provider: this.provider,
+        wait,
+        remaining: this.remaining,
+      })
+      throw new RateLimitError(this.provider, wait)
+    }
+
+    this.tokens -= 1
+    this.queued++
+    logInfo(`Rate limit reached for ${this.provider}, queueing request`, {
+      function: 'acquire',
+      provider: this.provider,
+      wait,
+      queued: this.queued,
+    })
+
+    try {
+      await sleep(wait)
+    } finally {
+      this.queued--
+    }
+  }
+
+  /**
+   * Returns a token taken for a request that was never sent
+   */
+  release(): void {
+    this.tokens = Math.min(this.options.limit, this.tokens + 1)
+  }
+
+  /**
+   * Empties the bucket after the provider answered 429
+   */
+  drain(now: number = Date.now()): void {
+    this.refill(now)
+    this.tokens = Math.min(this.tokens, 0)
+  }
+
+  /**
+   * Syncs the bucket with X-RateLimit-Remaining / X-RateLimit-Limit headers
+   */
+  updateFromHeaders(headers: Headers, now: number = Date.now()): void {
+    const remaining = parseInt(headers.get('X-RateLimit-Remaining') || '', 10)
+    if (isNaN(remaining)) {
+      return
+    }
+
+    const limit = parseInt(headers.get('X-RateLimit-Limit') || '', 10)
+    this.refill(now)
+    this.remaining = remaining
+    this.reportedLimit = isNaN(limit) ? this.reportedLimit : limit
+    this.updatedAt = now
+    this.tokens = Math.min(this.tokens, remaining - this.options.reserve)
+  }
+
+  snapshot(now: number = Date.now()): RateLimitSnapshot {
+    this.refill(now)
+    const available = Math.max(0, Math.floor(this.tokens))
+
+    return {
+      provider: this.provider,
+      limit: this.options.limit,
+      interval: this.options.interval,
+      available,
+      remaining: this.remaining,
+      reportedLimit: this.reportedLimit,
+      queued: this.queued,
+      shed: this.shed,
+      nearLimit: available <= this.options.reserve,
+      updatedAt: this.updatedAt,
+    }
+  }
+}
+
+const rateLimiters = new Map<string, RateLimiter>()
+
+/**
+ * Shared rate limiter for a provider, created on first use from
+ * DEFAULT_RATE_LIMITS and the given options. Returns undefined for
+ * providers without a known limit.
+ */
+export function getRateLimiter(
+  provider: string,
+  options?: Partial<RateLimiterOptions>
+): RateLimiter | undefined {
+  let limiter = rateLimiters.get(provider)
+  if (!limiter) {
+    const defaults = DEFAULT_RATE_LIMITS[provider]
+    if (!defaults && !options?.limit) {
+      return undefined
+    }
+    limiter = new RateLimiter(provider, { ...BASE_RATE_LIMITER_OPTIONS, ...defaults, ...options })
+    rateLimiters.set(provider, limiter)
+  }
+  return limiter
+}
+
+/**
+ * Records quota headers from a provider response, if the provider is limited
+ */
+export function recordRateLimitHeaders(provider: string, headers: Headers): void {
+  rateLimiters.get(provider)?.updateFromHeaders(headers)
+}
+
+/**
+ * Current quota state of every provider that has been called
+ */
+export function getRateLimitStates(): RateLimitSnapshot[] {
+  return Array.from(rateLimiters.values()).map(limiter => limiter.snapshot())
+}
+
+/**
+ * Forget all limiter state (e.g., between tests)
+ */
+export function resetRateLimiters(): void {
+  rateLimiters.clear()
+}
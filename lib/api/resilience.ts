@@ -0,0 +1,304 @@
+import { APIError } from './types'
+import { logWarning, logInfo } from '../utils/error-handling'
+import { sleep } from '../utils/concurrency'
+import { getRateLimiter, RateLimiterOptions, RateLimitError } from './rate-limit'
+
+/**
+ * Shared resilience layer for outbound API calls: retries with jittered
+ * exponential backoff that honours Retry-After, and a circuit breaker per
+ * provider so a dead provider is skipped until a half-open probe succeeds.
+ * Breakers live at module level, so every client instance in the process
+ * sees the same provider health.
+ */
+
+export interface RetryOptions {
+  maxRetries: number      // Retries after the first attempt
+  baseDelay: number       // Backoff delay in milliseconds, doubled per attempt
+  maxDelay: number        // Upper bound for one backoff delay
+  maxRetryAfter: number   // Give up instead of waiting longer than this for Retry-After
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number  // Consecutive transient failures that open the circuit
+  resetTimeout: number      // Milliseconds before an open circuit allows a probe
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerSnapshot {
+  provider: string
+  state: CircuitState
+  failures: number
+  openedAt?: number   // Epoch milliseconds the circuit last opened
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 2,
+  baseDelay: 500,
+  maxDelay: 10000,
+  maxRetryAfter: 30000,
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  resetTimeout: 30000,
+}
+
+/**
+ * Thrown without calling the provider while its circuit is open
+ */
+export class CircuitOpenError extends APIError {
+  constructor(provider: string, retryAfterMs?: number) {
+    super(`Circuit open for ${provider}, skipping request`, 503, provider, retryAfterMs)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+/**
+ * Parses a Retry-After header, either delay seconds or an HTTP date
+ *
+ * @param value - Header value
+ * @param now - Current time in epoch milliseconds
+ * @returns Delay in milliseconds, or undefined if absent or unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  const text = (value || '').trim()
+  if (!text) {
+    return undefined
+  }
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(Number(text) * 1000)
+  }
+
+  const date = Date.parse(text)
+  return isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+/**
+ * Rate limits, 5xx responses, timeouts and network errors are transient;
+ * other 4xx responses and malformed payloads are not worth retrying.
+ * An APIError without a status is a timeout or network failure.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError || error instanceof RateLimitError) {
+    return false
+  }
+
+  if (error instanceof APIError) {
+    return error.statusCode === undefined || error.statusCode === 429 || error.statusCode >= 500
+  }
+
+  // Timeouts and network errors are retryable, unparseable bodies are not
+  return !(error instanceof SyntaxError)
+}
+
+/**
+ * Backoff before retry number `attempt` (0-based): half of the exponential
+ * delay is fixed and half is random, so concurrent callers spread out
+ */
+export function getBackoffDelay(attempt: number, options: Pick<RetryOptions, 'baseDelay' | 'maxDelay'>): number {
+  const ceiling = Math.min(options.maxDelay, options.baseDelay * Math.pow(2, attempt))
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2))
+}
+
+/**
+ * Circuit breaker for one provider.
+ * Closed: requests flow and consecutive transient failures are counted.
+ * Open: requests are rejected until resetTimeout has passed.
+ * Half-open: one probe request is let through; success closes the circuit,
+ * failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed'
+  private failures = 0
+  private openedAt = 0
+  private probeInFlight = false
+
+  constructor(
+    readonly provider: string,
+    private options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS
+  ) {}
+
+  /**
+   * Whether a request may be sent now; moves an expired open circuit to half-open
+   */
+  canRequest(now: number = Date.now()): boolean {
+    if (this.state === 'open' && now - this.openedAt >= this.options.resetTimeout) {
+      this.state = 'half-open'
+      this.probeInFlight = false
+    }
+
+    if (this.state === 'closed') {
+      return true
+    }
+
+    if (this.state === 'half-open' && !this.probeInFlight) {
+      this.probeInFlight = true
+      return true
+    }
+
+    return false
+  }
+
+  /**
+   * Milliseconds until an open circuit allows a probe
+   */
+  remainingOpenTime(now: number = Date.now()): number {
+    return this.state === 'open' ? Math.max(0, this.openedAt + this.options.resetTimeout - now) : 0
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      logInfo(`Circuit closed for ${this.provider}`, {
+        function: 'recordSuccess',
+        provider: this.provider,
+      })
+    }
+    this.state = 'closed'
+    this.failures = 0
+    this.probeInFlight = false
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.failures++
+    this.probeInFlight = false
+
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        logWarning(`Circuit opened for ${this.provider}`, {
+          function: 'recordFailure',
+          provider: this.provider,
+          failures: this.failures,
+          resetTimeout: this.options.resetTimeout,
+        })
+      }
+      this.state = 'open'
+      this.openedAt = now
+    }
+  }
+
+  snapshot(): CircuitBreakerSnapshot {
+    return {
+      provider: this.provider,
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt || undefined,
+    }
+  }
+}
+
+const circuitBreakers = new Map<string, CircuitBreaker>()
+
+/**
+ * Shared circuit breaker for a provider, created on first use
+ */
+export function getCircuitBreaker(
+  provider: string,
+  options?: Partial<CircuitBreakerOptions>
+): CircuitBreaker {
+  let breaker = circuitBreakers.get(provider)
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider, { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options })
+    circuitBreakers.set(provider, breaker)
+  }
+  return breaker
+}
+
+/**
+ * Current state of every provider's circuit breaker
+ */
+export function getCircuitBreakerStates(): CircuitBreakerSnapshot[] {
+  return Array.from(circuitBreakers.values()).map(breaker => breaker.snapshot())
+}
+
+/**
+ * Forget all breaker state (e.g., between tests)
+ */
+export function resetCircuitBreakers(): void {
+  circuitBreakers.clear()
+}
+
+export interface ResilientCallOptions extends Partial<RetryOptions> {
+  provider: string
+  functionName: string                         // Reported in retry logs
+  context?: Record<string, unknown>            // Extra fields for retry logs
+  circuitBreaker?: Partial<CircuitBreakerOptions>
+  rateLimit?: Partial<RateLimiterOptions>      // Overrides the provider's default quota
+}
+
+/**
+ * Calls a provider through its circuit breaker, retrying transient
+ * failures with jittered backoff. A Retry-After delay on the error
+ * (APIError.retryAfterMs) replaces the backoff, up to maxRetryAfter.
+ * Only transient failures count against the breaker; a 4xx answer still
+ * shows the provider is up. Every attempt takes a token from the provider's
+ * rate limiter first, and a 429 answer empties it.
+ *
+ * @param fn - Request to make; called once per attempt
+ * @param options - Provider name, retry limits and log context
+ * @returns The first successful result
+ * @throws CircuitOpenError while the circuit is open, RateLimitError when
+ *   the request is shed, or the last error
+ */
+export async function callWithResilience<T>(
+  fn: () => Promise<T>,
+  options: ResilientCallOptions
+): Promise<T> {
+  const retry = {
+    maxRetries: options.maxRetries ?? DEFAULT_RETRY_OPTIONS.maxRetries,
+    baseDelay: options.baseDelay ?? DEFAULT_RETRY_OPTIONS.baseDelay,
+    maxDelay: options.maxDelay ?? DEFAULT_RETRY_OPTIONS.maxDelay,
+    maxRetryAfter: options.maxRetryAfter ?? DEFAULT_RETRY_OPTIONS.maxRetryAfter,
+  }
+  const breaker = getCircuitBreaker(options.provider, options.circuitBreaker)
+  const limiter = getRateLimiter(options.provider, options.rateLimit)
+
+  for (let attempt = 0; ; attempt++) {
+    await limiter?.acquire()
+
+    if (!breaker.canRequest()) {
+      limiter?.release()
+      throw new CircuitOpenError(options.provider, breaker.remainingOpenTime())
+    }
+
+    try {
+      const result = await fn()
+      breaker.recordSuccess()
+      return result
+    } catch (error) {
+      const retryable = isRetryableError(error)
+
+      if (error instanceof APIError && error.statusCode === 429) {
+        limiter?.drain()
+      }
+
+      if (retryable) {
+        breaker.recordFailure()
+      } else {
+        breaker.recordSuccess()
+      }
+
+      const retryAfter = error instanceof APIError ? error.retryAfterMs : undefined
+      if (
+        !retryable ||
+        attempt >= retry.maxRetries ||
+        (retryAfter !== undefined && retryAfter > retry.maxRetryAfter)
+      ) {
+        throw error
+      }
+
+      const delay = retryAfter ?? getBackoffDelay(attempt, retry)
+      logWarning(`Retrying ${options.provider} request`, {
+        function: options.functionName,
+        provider: options.provider,
+        ...options.context,
+        attempt: attempt + 1,
+        delay,
+        retryAfter,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+      await sleep(delay)
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { readFile } from 'fs/promises'
+import { SolarIndexClientConfig, SolarIndexData, APIError } from './types'
+import { logError, logInfo } from '../utils/error-handling'
+import { recordFetch, recordFetchFailure } from './provenance'
+import { cassetteFetch } from './http-cassette'
+import { parseSILSOSunspots, parseF107, combineSolarIndices } from '../utils/solar-indices'
+
+/**
+ * Both sources publish their complete history as one file that changes once
+ * a day, so a day's worth of refreshes should not download it again
+ */
+const DEFAULT_CACHE_TTL = 6 * 60 * 60 * 1000
+
+/**
+ * Parsed index files by source, shared across clients like the rate limiters
+ */
+const indexCache = new Map<string, { entries: SolarIndexData[]; loadedAt: number }>()
+
+/**
+ * Solar activity index client
+ * Loads SILSO daily sunspot numbers and F10.7 radio flux from a URL or a local file
+ */
+export class SolarIndexClient {
+  private config: SolarIndexClientConfig
+
+  constructor(config?: Partial<SolarIndexClientConfig>) {
+    // Default configuration with environment variable fallbacks
+    const defaultSunspotSource = process.env.SILSO_SUNSPOT_SOURCE || 'https://www.sidc.be/SILSO/DATA/SN_d_tot_V2.0.csv'
+    const defaultF107Source = process.env.F107_SOURCE || 'https://www.spaceweather.gc.ca/solar_flux_data/daily_flux_values/fluxtable.txt'
+
+    this.config = {
+      sunspotSource: config?.sunspotSource || defaultSunspotSource,
+      f107Source: config?.f107Source || defaultF107Source,
+      timeout: config?.timeout || 10000, // 10 seconds default
+      cacheTtl: config?.cacheTtl ?? DEFAULT_CACHE_TTL,
+    }
+  }
+
+  /**
+   * Load daily sunspot numbers and F10.7 flux for a date range.
+   * Each index loads on its own, so one unavailable source only drops its field.
+   * @param startDate - Start date in YYYY-MM-DD format
+   * @param endDate - End date in YYYY-MM-DD format
+   * @returns Daily solar indices sorted by date
+   */
+  async getSolarIndices(
+    startDate: string,
+    endDate: string
+  ): Promise<SolarIndexData[]> {
+    const [sunspots, f107] = await Promise.all([
+      this.loadIndex(this.config.sunspotSource, 'silso', 'sunspot numbers', parseSILSOSunspots),
+      this.loadIndex(this.config.f107Source, 'drao', 'F10.7 flux', parseF107),
+    ])
+
+    const inRange = (entry: SolarIndexData) => entry.date >= startDate && entry.date <= endDate
+    const indices = combineSolarIndices(sunspots.filter(inRange), f107.filter(inRange))
+
+    logInfo('Loaded solar activity indices', {
+      function: 'getSolarIndices',
+      provider: 'SolarIndex',
+      startDate,
+      endDate,
+      count: indices.length,
+    })
+
+    return indices
+  }
+
+  /**
+   * Read and parse one index source, returning [] if it cannot be loaded.
+   * Parsed files are reused for `cacheTtl`; failures are not cached.
+   */
+  private async loadIndex(
+    source: string,
+    provider: string,
+    label: string,
+    parse: (text: string) => SolarIndexData[]
+  ): Promise<SolarIndexData[]> {
+    // A reused file still comes from its provider, fetched when it was cached
+    const cached = indexCache.get(source)
+    if (cached && Date.now() - cached.loadedAt < this.config.cacheTtl) {
+      recordFetch(provider, false, new Date(cached.loadedAt).toISOString())
+      return cached.entries
+    }
+
+    try {
+      const text = /^https?:\/\//i.test(source)
+        ? await this.fetchText(source, provider)
+        : await readFile(source, 'utf-8')
+
+      const entries = parse(text)
+      recordFetch(provider)
+      if (this.config.cacheTtl > 0) {
+        indexCache.set(source, { entries, loadedAt: Date.now() })
+      }
+      return entries
+    } catch (error) {
+      recordFetchFailure(provider)
+      logError(`Failed to load ${label}`, error, {
+        function: 'getSolarIndices',
+        provider: 'SolarIndex',
+        source,
+      })
+      return []
+    }
+  }
+
+  /**
+   * Fetch a text file with the configured timeout
+   */
+  private async fetchText(url: string, provider: string): Promise<string> {
+    const controller = new AbortController()
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
+
+    try {
+      const response = await cassetteFetch(provider, url, {
+        signal: controller.signal,
+        headers: {
+          'Accept': 'text/plain, text/csv',
+        },
+      })
+
+      clearTimeout(timeoutId)
+
+      if (!response.ok) {
+        throw new APIError(
+          `Solar index source returned status ${response.status}`,
+          response.status,
+          'SolarIndex'
+        )
+      }
+
+      return await response.text()
+    } catch (error) {
+      clearTimeout(timeoutId)
+      throw error
+    }
+  }
+}
+
+/**
+ * Forget all parsed index files (e.g., between tests)
+ */
+export function resetSolarIndexCache(): void {
+  indexCache.clear()
+}
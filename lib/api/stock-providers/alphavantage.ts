@@ -0,0 +1,251 @@
+import { StockProvider, StockProviderCapabilities, StockProviderRequest, StockQuote, StockInterval, APIError } from '../types'
+import { logError, logInfo } from '../../utils/error-handling'
+import { parseRetryAfter } from '../resilience'
+import { cassetteFetch } from '../http-cassette'
+import { zonedDateTimeToUnix } from '../../utils/timezone'
+import { dateRangeToUnix, DateRange } from '../../utils/date-range'
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+
+/**
+ * Alpha Vantage interval names
+ */
+const ALPHA_VANTAGE_INTERVALS: Record<StockInterval, string> = {
+  '1m': '1min',
+  '5m': '5min',
+  '15m': '15min',
+  '1h': '60min',
+  '1d': 'daily',
+}
+
+/**
+ * Alpha Vantage "compact" output holds the latest 100 trading days, roughly
+ * this many calendar days; older starts need outputsize=full
+ */
+const ALPHA_VANTAGE_COMPACT_DAYS = 140
+
+/**
+ * Alpha Vantage intraday output without a month covers about this many days
+ */
+const ALPHA_VANTAGE_INTRADAY_DAYS = 30
+
+/**
+ * Alpha Vantage time series provider (ALPHA_VANTAGE_API_KEY or STOCK_API_KEY)
+ */
+export class AlphaVantageProvider implements StockProvider {
+  readonly name = 'alphavantage'
+  readonly priority = 20
+  readonly capabilities: StockProviderCapabilities = {
+    intervals: ['1m', '5m', '15m', '1h', '1d'],
+    crypto: false,
+    adjusted: false,
+  }
+
+  /**
+   * Fetch quotes for the requested window and interval
+   */
+  async fetchQuotes(request: StockProviderRequest): Promise<StockQuote[]> {
+    const { symbol, interval, startDate, endDate } = request
+    const dateRange: DateRange = { startDate, endDate }
+
+    try {
+      const apiKey = process.env.ALPHA_VANTAGE_API_KEY || request.apiKey
+      
+      if (!apiKey) {
+        throw new APIError(
+          'Alpha Vantage API key not configured',
+          401,
+          'alphavantage'
+        )
+      }
+
+      const intraday = interval !== '1d'
+      const avInterval = ALPHA_VANTAGE_INTERVALS[interval]
+      const url = intraday
+        ? `https://www.alphavantage.co/query?function=TIME_SERIES_INTRADAY&symbol=${symbol}&interval=${avInterval}${this.getIntradayParams(symbol, dateRange)}&apikey=${apiKey}`
+        : `https://www.alphavantage.co/query?function=TIME_SERIES_DAILY&symbol=${symbol}&outputsize=${this.getOutputSize(dateRange)}&apikey=${apiKey}`
+
+      logInfo('Fetching from Alpha Vantage', {
+        function: 'fetchQuotes',
+        provider: 'alphavantage',
+        symbol,
+        startDate: dateRange.startDate,
+        endDate: dateRange.endDate,
+        interval,
+      })
+
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), request.timeout)
+
+      try {
+        const response = await cassetteFetch('alphavantage', url, {
+          signal: controller.signal,
+          headers: {
+            'Accept': 'application/json',
+          },
+        })
+
+        clearTimeout(timeoutId)
+
+        if (!response.ok) {
+          throw new APIError(
+            `Alpha Vantage API returned status ${response.status}`,
+            response.status,
+            'alphavantage',
+            parseRetryAfter(response.headers.get('Retry-After'))
+          )
+        }
+
+        const data = await response.json()
+
+        // Check for API error messages
+        if (data['Error Message']) {
+          throw new APIError(
+            `Alpha Vantage error: ${data['Error Message']}`,
+            400,
+            'alphavantage'
+          )
+        }
+
+        // Check for rate limit message. Newer keys get "Information" instead of
+        // "Note", also for premium-only options such as outputsize=full.
+        if (data['Note'] || data['Information']) {
+          throw new APIError(
+            `Alpha Vantage rate limit exceeded: ${data['Note'] || data['Information']}`,
+            429,
+            'alphavantage'
+          )
+        }
+
+        const timeSeries = data[intraday ? `Time Series (${avInterval})` : 'Time Series (Daily)']
+        // Intraday timestamps are wall-clock times in the exchange time zone
+        const timeZone = data['Meta Data']?.['6. Time Zone'] || 'US/Eastern'
+        // A reply without the series did not answer for the window, so it is
+        // an error rather than a range without bars
+        if (!timeSeries) {
+          throw new APIError(
+            'No time series data in Alpha Vantage response',
+            undefined,
+            'alphavantage'
+          )
+        }
+
+        const stockQuotes: StockQuote[] = []
+        
+        for (const [dateStr, values] of Object.entries(timeSeries)) {
+          const timestamp = intraday
+            ? zonedDateTimeToUnix(dateStr, timeZone)
+            : Math.floor(new Date(dateStr).getTime() / 1000)
+          
+          stockQuotes.push({
+            timestamp,
+            open: parseFloat((values as any)['1. open']),
+            high: parseFloat((values as any)['2. high']),
+            low: parseFloat((values as any)['3. low']),
+            close: parseFloat((values as any)['4. close']),
+            volume: parseInt((values as any)['5. volume'], 10),
+          })
+        }
+
+        // Sort by timestamp ascending
+        stockQuotes.sort((a, b) => a.timestamp - b.timestamp)
+
+        logInfo('Successfully fetched from Alpha Vantage', {
+          function: 'fetchQuotes',
+          provider: 'alphavantage',
+          symbol,
+          count: stockQuotes.length,
+        })
+
+        return stockQuotes
+      } catch (fetchError) {
+        clearTimeout(timeoutId)
+        throw fetchError
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        logError(
+          'Alpha Vantage request timed out',
+          error,
+          {
+            function: 'fetchQuotes',
+            provider: 'alphavantage',
+            timeout: request.timeout,
+            symbol,
+          }
+        )
+        throw new APIError(
+          `Alpha Vantage request timed out after ${request.timeout}ms`,
+          undefined,
+          'alphavantage'
+        )
+      }
+
+      if (error instanceof APIError) {
+        logError(
+          'Alpha Vantage API error',
+          error,
+          {
+            function: 'fetchQuotes',
+            provider: 'alphavantage',
+            statusCode: error.statusCode,
+            symbol,
+          }
+        )
+        throw error
+      }
+
+      logError(
+        'Network error while fetching Alpha Vantage data',
+        error,
+        {
+          function: 'fetchQuotes',
+          provider: 'alphavantage',
+          symbol,
+        }
+      )
+
+      throw new APIError(
+        `Network error while fetching Alpha Vantage data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        'alphavantage'
+      )
+    }
+  }
+
+  /**
+   * Pick the Alpha Vantage daily output size that covers the range start
+   */
+  private getOutputSize(dateRange: DateRange): 'compact' | 'full' {
+    const { from } = dateRangeToUnix(dateRange)
+    const compactStart = Math.floor(Date.now() / 1000) - ALPHA_VANTAGE_COMPACT_DAYS * SECONDS_PER_DAY
+    return from < compactStart ? 'full' : 'compact'
+  }
+
+  /**
+   * Build Alpha Vantage intraday parameters for a range. Recent ranges use the
+   * default trailing window; older ones request their month, since Alpha
+   * Vantage serves one historical month per request.
+   * @throws APIError for an older range spanning several months, so the
+   *   fallback chain moves on instead of returning part of the window
+   */
+  private getIntradayParams(symbol: string, dateRange: DateRange): string {
+    const { from } = dateRangeToUnix(dateRange)
+    const recentStart = Math.floor(Date.now() / 1000) - ALPHA_VANTAGE_INTRADAY_DAYS * SECONDS_PER_DAY
+
+    if (from >= recentStart) {
+      return '&outputsize=full'
+    }
+
+    const month = dateRange.endDate.slice(0, 7)
+    if (dateRange.startDate.slice(0, 7) !== month) {
+      throw new APIError(
+        `Alpha Vantage serves one intraday month per request, ${symbol} ${dateRange.startDate}..${dateRange.endDate} spans several`,
+        400,
+        'alphavantage'
+      )
+    }
+
+    return `&outputsize=full&month=${month}`
+  }
+}
@@ -0,0 +1,136 @@
+import { access, readFile } from 'fs/promises'
+import path from 'path'
+import { StockProvider, StockProviderCapabilities, StockProviderRequest, StockQuote, StockInterval, APIError } from '../types'
+import { logError, logInfo } from '../../utils/error-handling'
+import { parseOHLCVCsv, CSVDateFormat, OHLCVColumnMapping } from '../../utils/ohlcv-csv'
+
+export interface CSVProviderConfig {
+  dataDir?: string                         // Directory holding one <SYMBOL>.csv per symbol
+  columns: Partial<OHLCVColumnMapping>     // Header names, defaults to Date/Open/High/Low/Close/Volume
+  dateFormat: CSVDateFormat
+  delimiter: string
+  intervals: StockInterval[]               // Bar intervals the files hold, defaults to daily
+}
+
+/**
+ * Parses "field=Header" pairs, e.g. "date=timestamp,close=Adj Close"
+ */
+function parseColumnMapping(value: string | undefined): Partial<OHLCVColumnMapping> {
+  const mapping: Partial<OHLCVColumnMapping> = {}
+
+  for (const pair of (value || '').split(',')) {
+    const [field, header] = pair.split('=').map(part => part?.trim())
+    if (field && header && ['date', 'open', 'high', 'low', 'close', 'volume', 'adjClose'].includes(field)) {
+      mapping[field as keyof OHLCVColumnMapping] = header
+    }
+  }
+
+  return mapping
+}
+
+/**
+ * Local OHLCV file provider for offline analysis and backtests.
+ * Reads <dataDir>/<SYMBOL>.csv with a configurable column mapping and
+ * date format; no network access or API key is needed.
+ */
+export class CSVFileProvider implements StockProvider {
+  readonly name = 'csv'
+  readonly priority = 100
+  readonly capabilities: StockProviderCapabilities
+  private config: CSVProviderConfig
+
+  constructor(config?: Partial<CSVProviderConfig>) {
+    // Default configuration with environment variable fallbacks
+    this.config = {
+      dataDir: config?.dataDir || process.env.STOCK_CSV_DIR || undefined,
+      columns: config?.columns || parseColumnMapping(process.env.STOCK_CSV_COLUMNS),
+      dateFormat: config?.dateFormat || (process.env.STOCK_CSV_DATE_FORMAT as CSVDateFormat) || 'YYYY-MM-DD',
+      delimiter: config?.delimiter || process.env.STOCK_CSV_DELIMITER || ',',
+      intervals: config?.intervals || ['1d'],
+    }
+
+    this.capabilities = {
+      intervals: this.config.intervals,
+      crypto: true,
+      adjusted: false,
+    }
+  }
+
+  /**
+   * Read quotes for a symbol from its CSV file
+   */
+  async fetchQuotes(request: StockProviderRequest): Promise<StockQuote[]> {
+    const { symbol, startDate, endDate, interval } = request
+    const dataDir = this.config.dataDir
+
+    if (!dataDir) {
+      throw new APIError(
+        'CSV data directory not configured',
+        400,
+        'csv'
+      )
+    }
+
+    const file = await this.findSymbolFile(dataDir, symbol)
+    if (!file) {
+      throw new APIError(
+        `No CSV file for ${symbol} in ${dataDir}`,
+        404,
+        'csv'
+      )
+    }
+
+    try {
+      const quotes = parseOHLCVCsv(await readFile(file, 'utf-8'), {
+        columns: this.config.columns,
+        dateFormat: this.config.dateFormat,
+        delimiter: this.config.delimiter,
+      })
+
+      logInfo('Successfully read CSV quotes', {
+        function: 'fetchQuotes',
+        provider: 'csv',
+        symbol,
+        startDate,
+        endDate,
+        interval,
+        file,
+        count: quotes.length,
+      })
+
+      return quotes
+    } catch (error) {
+      logError('Failed to parse CSV quotes', error, {
+        function: 'fetchQuotes',
+        provider: 'csv',
+        symbol,
+        file,
+      })
+
+      throw new APIError(
+        `Failed to parse ${file}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        422,
+        'csv'
+      )
+    }
+  }
+
+  /**
+   * Find <symbol>.csv as given, upper-cased or lower-cased
+   */
+  private async findSymbolFile(dataDir: string, symbol: string): Promise<string | null> {
+    const names = Array.from(new Set([symbol, symbol.toUpperCase(), symbol.toLowerCase()]))
+
+    for (const name of names) {
+      const file = path.join(dataDir, `${name}.csv`)
+      try {
+        await access(file)
+        return file
+      } catch {
+        // Try the next spelling
+      }
+    }
+
+    return null
+  }
+}
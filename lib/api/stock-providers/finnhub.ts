@@ -0,0 +1,180 @@
+import { StockProvider, StockProviderCapabilities, StockProviderRequest, StockQuote, StockInterval, APIError } from '../types'
+import { logError, logWarning, logInfo, getEmptyStockQuotes } from '../../utils/error-handling'
+import { parseRetryAfter } from '../resilience'
+import { cassetteFetch } from '../http-cassette'
+import { recordRateLimitHeaders } from '../rate-limit'
+import { dateRangeToUnix } from '../../utils/date-range'
+
+/**
+ * Finnhub candle resolutions
+ */
+const FINNHUB_INTERVALS: Record<StockInterval, string> = {
+  '1m': '1',
+  '5m': '5',
+  '15m': '15',
+  '1h': '60',
+  '1d': 'D',
+}
+
+/**
+ * Finnhub stock candle provider (FINNHUB_API_KEY or STOCK_API_KEY)
+ */
+export class FinnhubProvider implements StockProvider {
+  readonly name = 'finnhub'
+  readonly priority = 30
+  readonly capabilities: StockProviderCapabilities = {
+    intervals: ['1m', '5m', '15m', '1h', '1d'],
+    crypto: false,
+    adjusted: false,
+  }
+
+  /**
+   * Fetch quotes for the requested window and interval
+   */
+  async fetchQuotes(request: StockProviderRequest): Promise<StockQuote[]> {
+    const { symbol, interval, startDate, endDate } = request
+
+    try {
+      const apiKey = process.env.FINNHUB_API_KEY || request.apiKey
+      
+      if (!apiKey) {
+        throw new APIError(
+          'Finnhub API key not configured',
+          401,
+          'finnhub'
+        )
+      }
+
+      // Finnhub requires Unix timestamps
+      const { from, to } = dateRangeToUnix({ startDate, endDate })
+
+      const url = `https://finnhub.io/api/v1/stock/candle?symbol=${symbol}&resolution=${FINNHUB_INTERVALS[interval]}&from=${from}&to=${to}&token=${apiKey}`
+
+      logInfo('Fetching from Finnhub', {
+        function: 'fetchQuotes',
+        provider: 'finnhub',
+        symbol,
+        startDate: startDate,
+        endDate: endDate,
+        interval,
+      })
+
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), request.timeout)
+
+      try {
+        const response = await cassetteFetch('finnhub', url, {
+          signal: controller.signal,
+          headers: {
+            'Accept': 'application/json',
+          },
+        })
+
+        clearTimeout(timeoutId)
+        recordRateLimitHeaders('finnhub', response.headers)
+
+        if (!response.ok) {
+          throw new APIError(
+            `Finnhub API returned status ${response.status}`,
+            response.status,
+            'finnhub',
+            parseRetryAfter(response.headers.get('Retry-After'))
+          )
+        }
+
+        const data = await response.json()
+
+        // Check for no data response
+        if (data.s === 'no_data') {
+          logWarning('No data available from Finnhub', {
+            function: 'fetchQuotes',
+            provider: 'finnhub',
+            symbol,
+          })
+          return getEmptyStockQuotes()
+        }
+
+        if (data.s !== 'ok') {
+          throw new APIError(
+            `Finnhub returned status: ${data.s}`,
+            400,
+            'finnhub'
+          )
+        }
+
+        const stockQuotes: StockQuote[] = []
+        
+        for (let i = 0; i < data.t.length; i++) {
+          stockQuotes.push({
+            timestamp: data.t[i],
+            open: data.o[i],
+            high: data.h[i],
+            low: data.l[i],
+            close: data.c[i],
+            volume: data.v[i],
+          })
+        }
+
+        logInfo('Successfully fetched from Finnhub', {
+          function: 'fetchQuotes',
+          provider: 'finnhub',
+          symbol,
+          count: stockQuotes.length,
+        })
+
+        return stockQuotes
+      } catch (fetchError) {
+        clearTimeout(timeoutId)
+        throw fetchError
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        logError(
+          'Finnhub request timed out',
+          error,
+          {
+            function: 'fetchQuotes',
+            provider: 'finnhub',
+            timeout: request.timeout,
+            symbol,
+          }
+        )
+        throw new APIError(
+          `Finnhub request timed out after ${request.timeout}ms`,
+          undefined,
+          'finnhub'
+        )
+      }
+
+      if (error instanceof APIError) {
+        logError(
+          'Finnhub API error',
+          error,
+          {
+            function: 'fetchQuotes',
+            provider: 'finnhub',
+            statusCode: error.statusCode,
+            symbol,
+          }
+        )
+        throw error
+      }
+
+      logError(
+        'Network error while fetching Finnhub data',
+        error,
+        {
+          function: 'fetchQuotes',
+          provider: 'finnhub',
+          symbol,
+        }
+      )
+
+      throw new APIError(
+        `Network error while fetching Finnhub data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        'finnhub'
+      )
+    }
+  }
+}
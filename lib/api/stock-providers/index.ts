@@ -0,0 +1,14 @@
+// Stock provider registry
+export {
+  StockProviderRegistry,
+  createDefaultStockProviderRegistry,
+  stockProviderRegistry,
+  supportsRequest,
+} from './registry'
+export { isCryptoSymbol } from '../../utils/exchange-calendar'
+
+// Built-in providers
+export { YahooFinanceProvider } from './yahoo'
+export { AlphaVantageProvider } from './alphavantage'
+export { FinnhubProvider } from './finnhub'
+export { CSVFileProvider, type CSVProviderConfig } from './csv'
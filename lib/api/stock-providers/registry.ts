@@ -0,0 +1,79 @@
+import { StockProvider, StockProviderName, StockInterval } from '../types'
+import { YahooFinanceProvider } from './yahoo'
+import { AlphaVantageProvider } from './alphavantage'
+import { FinnhubProvider } from './finnhub'
+import { CSVFileProvider } from './csv'
+import { isCryptoSymbol } from '../../utils/exchange-calendar'
+
+/**
+ * Checks whether a provider can serve a symbol at an interval
+ */
+export function supportsRequest(
+  provider: StockProvider,
+  symbol: string,
+  interval: StockInterval
+): boolean {
+  if (!provider.capabilities.intervals.includes(interval)) {
+    return false
+  }
+
+  return !isCryptoSymbol(symbol) || provider.capabilities.crypto
+}
+
+/**
+ * Registry of stock data providers.
+ * Providers are looked up by name and listed by priority (lowest first),
+ * which is the default fallback order.
+ */
+export class StockProviderRegistry {
+  private providers = new Map<StockProviderName, StockProvider>()
+
+  /**
+   * Register a provider, replacing any provider with the same name
+   */
+  register(provider: StockProvider): this {
+    this.providers.set(provider.name, provider)
+    return this
+  }
+
+  /**
+   * Remove a provider by name
+   * @returns True if a provider was removed
+   */
+  unregister(name: StockProviderName): boolean {
+    return this.providers.delete(name)
+  }
+
+  get(name: StockProviderName): StockProvider | undefined {
+    return this.providers.get(name)
+  }
+
+  has(name: StockProviderName): boolean {
+    return this.providers.has(name)
+  }
+
+  /**
+   * All providers sorted by priority, ties broken by registration order
+   */
+  list(): StockProvider[] {
+    return Array.from(this.providers.values()).sort((a, b) => a.priority - b.priority)
+  }
+}
+
+/**
+ * Create a registry holding the built-in Yahoo Finance, Alpha Vantage,
+ * Finnhub and local CSV file providers
+ */
+export function createDefaultStockProviderRegistry(): StockProviderRegistry {
+  return new StockProviderRegistry()
+    .register(new YahooFinanceProvider())
+    .register(new AlphaVantageProvider())
+    .register(new FinnhubProvider())
+    .register(new CSVFileProvider())
+}
+
+/**
+ * Shared registry used by StockClient unless another one is passed in.
+ * Register additional providers here to make them available app-wide.
+ */
+export const stockProviderRegistry = createDefaultStockProviderRegistry()
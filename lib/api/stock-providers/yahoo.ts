@@ -0,0 +1,287 @@
+import { StockProvider, StockProviderCapabilities, StockProviderRequest, StockQuote, StockInterval, CorporateAction, APIError } from '../types'
+import { logError, logWarning, logInfo } from '../../utils/error-handling'
+import { parseRetryAfter } from '../resilience'
+import { cassetteFetch } from '../http-cassette'
+import { dateRangeToUnix } from '../../utils/date-range'
+import { withAdjustedClose } from '../../utils/adjusted-prices'
+
+const SECONDS_PER_DAY = 24 * 60 * 60
+
+/**
+ * Yahoo Finance interval names
+ */
+const YAHOO_INTERVALS: Record<StockInterval, string> = {
+  '1m': '1m',
+  '5m': '5m',
+  '15m': '15m',
+  '1h': '60m',
+  '1d': '1d',
+}
+
+/**
+ * How many days back Yahoo Finance serves each intraday interval
+ */
+const YAHOO_MAX_INTRADAY_DAYS: Partial<Record<StockInterval, number>> = {
+  '1m': 7,
+  '5m': 60,
+  '15m': 60,
+  '1h': 730,
+}
+
+/**
+ * Yahoo Finance chart API provider (no API key required)
+ */
+export class YahooFinanceProvider implements StockProvider {
+  readonly name = 'yahoo'
+  readonly priority = 10
+  readonly capabilities: StockProviderCapabilities = {
+    intervals: ['1m', '5m', '15m', '1h', '1d'],
+    crypto: true,
+    adjusted: true,
+  }
+
+  /**
+   * Fetch quotes for the requested window and interval.
+   * Daily quotes carry adjusted OHLC scaled by Yahoo's adjclose.
+   */
+  async fetchQuotes(request: StockProviderRequest): Promise<StockQuote[]> {
+    const { symbol, startDate, endDate } = request
+    const range = `${startDate}..${endDate}`
+    const result = await this.fetchChart(request)
+
+    const timestamps = result.timestamp || []
+    const quotes = result.indicators?.quote?.[0]
+    const adjclose: Array<number | null> | undefined = result.indicators?.adjclose?.[0]?.adjclose
+
+    if (!quotes) {
+      throw new APIError(`No quote data in Yahoo Finance response for ${symbol} ${range}`, undefined, 'yahoo')
+    }
+
+    const stockQuotes: StockQuote[] = []
+
+    for (let i = 0; i < timestamps.length; i++) {
+      // Skip entries with missing data
+      if (
+        quotes.open?.[i] == null ||
+        quotes.high?.[i] == null ||
+        quotes.low?.[i] == null ||
+        quotes.close?.[i] == null ||
+        quotes.volume?.[i] == null
+      ) {
+        continue
+      }
+
+      const quote: StockQuote = {
+        timestamp: timestamps[i],
+        open: quotes.open[i],
+        high: quotes.high[i],
+        low: quotes.low[i],
+        close: quotes.close[i],
+        volume: quotes.volume[i],
+      }
+
+      const adjusted = adjclose?.[i]
+      stockQuotes.push(adjusted != null ? withAdjustedClose(quote, adjusted) : quote)
+    }
+
+    logInfo('Successfully fetched from Yahoo Finance', {
+      function: 'fetchQuotes',
+      provider: 'yahoo',
+      symbol,
+      count: stockQuotes.length,
+    })
+
+    return stockQuotes
+  }
+
+  /**
+   * Fetch splits and dividends in the requested window
+   */
+  async fetchCorporateActions(request: StockProviderRequest): Promise<CorporateAction[]> {
+    const result = await this.fetchChart({ ...request, interval: '1d' })
+    return parseYahooEvents(result.events)
+  }
+
+  /**
+   * Fetch the raw chart result for a request
+   * @throws APIError if Yahoo returned no chart result, which is an error
+   *   reply rather than a window without bars
+   */
+  private async fetchChart(request: StockProviderRequest): Promise<any> {
+    const { symbol, interval, startDate, endDate } = request
+    const range = `${startDate}..${endDate}`
+
+    try {
+      let { from, to } = dateRangeToUnix({ startDate, endDate })
+
+      // Yahoo only serves recent history for intraday intervals
+      const maxDays = YAHOO_MAX_INTRADAY_DAYS[interval]
+      if (maxDays) {
+        const earliest = Math.floor(Date.now() / 1000) - maxDays * SECONDS_PER_DAY
+        if (to < earliest) {
+          throw new APIError(
+            `Yahoo Finance only serves ${interval} bars for the last ${maxDays} days`,
+            400,
+            'yahoo'
+          )
+        }
+        if (from < earliest) {
+          logWarning(`Yahoo Finance limits ${interval} bars to ${maxDays} days, shortening range`, {
+            function: 'fetchChart',
+            provider: 'yahoo',
+            symbol,
+            range,
+            interval,
+          })
+          from = earliest
+        }
+      }
+
+      // Yahoo Finance API v8 endpoint; period2 is exclusive
+      const events = interval === '1d' ? '&events=div%7Csplit' : ''
+      const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?period1=${from}&period2=${to + 1}&interval=${YAHOO_INTERVALS[interval]}${events}`
+
+      logInfo('Fetching from Yahoo Finance', {
+        function: 'fetchChart',
+        provider: 'yahoo',
+        symbol,
+        range,
+        interval,
+      })
+
+      const controller = new AbortController()
+      const timeoutId = setTimeout(() => controller.abort(), request.timeout)
+
+      try {
+        const response = await cassetteFetch('yahoo', url, {
+          signal: controller.signal,
+          headers: {
+            'Accept': 'application/json',
+            'User-Agent': 'Mozilla/5.0',
+          },
+        })
+
+        clearTimeout(timeoutId)
+
+        // Handle rate limiting (429 status code)
+        if (response.status === 429) {
+          throw new APIError(
+            'Yahoo Finance rate limit exceeded',
+            429,
+            'yahoo',
+            parseRetryAfter(response.headers.get('Retry-After'))
+          )
+        }
+
+        if (!response.ok) {
+          throw new APIError(
+            `Yahoo Finance API returned status ${response.status}`,
+            response.status,
+            'yahoo',
+            parseRetryAfter(response.headers.get('Retry-After'))
+          )
+        }
+
+        const data = await response.json()
+
+        // Parse Yahoo Finance response format
+        const result = data?.chart?.result?.[0]
+        if (!result) {
+          const description = data?.chart?.error?.description
+          throw new APIError(
+            `No data in Yahoo Finance response${description ? `: ${description}` : ''}`,
+            undefined,
+            'yahoo'
+          )
+        }
+
+        return result
+      } catch (fetchError) {
+        clearTimeout(timeoutId)
+        throw fetchError
+      }
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        logError(
+          'Yahoo Finance request timed out',
+          error,
+          {
+            function: 'fetchChart',
+            provider: 'yahoo',
+            timeout: request.timeout,
+            symbol,
+            range,
+          }
+        )
+        throw new APIError(
+          `Yahoo Finance request timed out after ${request.timeout}ms`,
+          undefined,
+          'yahoo'
+        )
+      }
+
+      if (error instanceof APIError) {
+        logError(
+          'Yahoo Finance API error',
+          error,
+          {
+            function: 'fetchChart',
+            provider: 'yahoo',
+            statusCode: error.statusCode,
+            symbol,
+            range,
+          }
+        )
+        throw error
+      }
+
+      logError(
+        'Network error while fetching Yahoo Finance data',
+        error,
+        {
+          function: 'fetchChart',
+          provider: 'yahoo',
+          symbol,
+          range,
+        }
+      )
+
+      throw new APIError(
+        `Network error while fetching Yahoo Finance data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        undefined,
+        'yahoo'
+      )
+    }
+  }
+}
+
+/**
+ * Parses Yahoo chart events ({ splits, dividends } keyed by timestamp)
+ */
+function parseYahooEvents(events: any): CorporateAction[] {
+  const actions: CorporateAction[] = []
+
+  for (const split of Object.values<any>(events?.splits || {})) {
+    if (split?.date && split.numerator > 0 && split.denominator > 0) {
+      actions.push({
+        type: 'split',
+        timestamp: split.date,
+        date: new Date(split.date * 1000).toISOString().split('T')[0],
+        ratio: split.numerator / split.denominator,
+      })
+    }
+  }
+
+  for (const dividend of Object.values<any>(events?.dividends || {})) {
+    if (dividend?.date && dividend.amount > 0) {
+      actions.push({
+        type: 'dividend',
+        timestamp: dividend.date,
+        date: new Date(dividend.date * 1000).toISOString().split('T')[0],
+        amount: dividend.amount,
+      })
+    }
+  }
+
+  return actions.sort((a, b) => a.timestamp - b.timestamp)
+}
@@ -1,59 +1,95 @@
-import { StockClientConfig, StockQuote, StockData, APIError } from './types'
+import { StockClientConfig, StockProviderName, StockQuote, StockData, StockInterval, CorporateAction, APIError } from './types'
 import { logError, logWarning, logInfo, getEmptyStockQuotes } from '../utils/error-handling'
+import { calculateRealizedVolatility, RealizedVolatilityPeriod } from '../utils/realized-volatility'
+import { resolveDateRange, dateRangeToUnix, DateRange, RangeInput } from '../utils/date-range'
+import { adjustForCorporateActions, toAdjustedQuotes } from '../utils/adjusted-prices'
+import { getExchangeCalendar, getTradingDate } from '../utils/exchange-calendar'
+import { normalizeSymbol } from '../utils/symbol-directory'
+import {
+  estimateVolatility,
+  VolatilityOptions,
+  TRADING_DAYS_PER_YEAR,
+  CALENDAR_DAYS_PER_YEAR,
+} from '../utils/volatility-estimators'
+import { StockProviderRegistry, stockProviderRegistry, supportsRequest } from './stock-providers/registry'
+import { callWithResilience } from './resilience'
+import { recordFetch, recordFetchFailure } from './provenance'
 
 /**
  * Stock API Client with multi-provider support
- * Supports Yahoo Finance, Alpha Vantage, and Finnhub with automatic fallback
+ * Fetches through a provider registry (Yahoo Finance, Alpha Vantage and
+ * Finnhub by default) with a configurable fallback chain
  */
 export class StockClient {
   private config: StockClientConfig
+  private registry: StockProviderRegistry
 
-  constructor(config?: Partial<StockClientConfig>) {
+  constructor(
+    config?: Partial<StockClientConfig>,
+    registry: StockProviderRegistry = stockProviderRegistry
+  ) {
     // Default configuration with environment variable fallbacks
-    const defaultProvider = (process.env.STOCK_API_PROVIDER as 'yahoo' | 'alphavantage' | 'finnhub') || 'yahoo'
+    const defaultProvider = process.env.STOCK_API_PROVIDER || 'yahoo'
+    const configuredFallbacks = (process.env.STOCK_FALLBACK_PROVIDERS || '')
+      .split(',')
+      .map(name => name.trim())
+      .filter(Boolean)
+    const defaultFallbacks = configuredFallbacks.length > 0 ? configuredFallbacks : undefined
     
     this.config = {
       provider: config?.provider || defaultProvider,
+      fallbackProviders: config?.fallbackProviders || defaultFallbacks,
       apiKey: config?.apiKey || process.env.STOCK_API_KEY,
       timeout: config?.timeout || 10000, // 10 seconds default
+      maxRetries: config?.maxRetries ?? 2,
+      retryDelay: config?.retryDelay ?? 500, // 0.5 seconds, doubled per attempt
     }
+    this.registry = registry
   }
 
   /**
-   * Validate stock symbol format
+   * Validate stock symbol format. Input is trimmed and upper-cased first,
+   * so "reliance.ns" validates as RELIANCE.NS.
    * @param symbol - Stock symbol to validate
-   * @returns Validation result with error message if invalid
+   * @returns Validation result with error message if invalid, and the
+   *   normalized symbol if valid
    */
-  validateStockSymbol(symbol: string): { valid: boolean; error?: string } {
+  validateStockSymbol(symbol: string): { valid: boolean; error?: string; symbol?: string } {
     if (!symbol || typeof symbol !== 'string') {
       return { valid: false, error: 'Symbol must be a non-empty string' }
     }
 
-    // Trim whitespace
-    const trimmedSymbol = symbol.trim()
+    // Trim whitespace and normalize case
+    const normalizedSymbol = normalizeSymbol(symbol)
 
-    // Check length (1-10 characters to allow for symbols like BTC-USD, ^NSEI)
-    if (trimmedSymbol.length < 1 || trimmedSymbol.length > 10) {
-      return { valid: false, error: 'Symbol must be 1-10 characters long' }
+    // Check length (1-20 characters to allow for symbols like RELIANCE.NS, HDFCBANK.NS)
+    if (normalizedSymbol.length < 1 || normalizedSymbol.length > 20) {
+      return { valid: false, error: 'Symbol must be 1-20 characters long' }
     }
 
-    // Check format (uppercase letters, numbers, hyphens, carets, and dots)
-    if (!/^[A-Z0-9^.\-]+$/.test(trimmedSymbol)) {
-      return { valid: false, error: 'Symbol must contain only uppercase letters, numbers, ^, -, or .' }
+    // Check format (letters, numbers, hyphens, carets, dots, and = for FX/futures like GC=F)
+    if (!/^[A-Z0-9^.=\-]+$/.test(normalizedSymbol)) {
+      return { valid: false, error: 'Symbol must contain only letters, numbers, ^, -, =, or .' }
     }
 
-    return { valid: true }
+    return { valid: true, symbol: normalizedSymbol }
   }
 
   /**
    * Fetch stock data with automatic fallback to alternative providers
    * @param symbol - Stock symbol (e.g., "AAPL", "TSLA")
-   * @param range - Date range (e.g., "1mo", "3mo", "1y")
+   * @param range - Relative range (e.g., "1mo", "3mo", "1y") or explicit
+   *   start/end dates; every provider returns the same window
+   * @param interval - Bar interval (1m, 5m, 15m, 1h, 1d), defaults to daily
+   * @param throwIfAllFailed - Throw instead of returning [] when every provider failed,
+   *   so callers can tell an outage from a window without bars
    * @returns Array of stock quotes
    */
   async getStockData(
     symbol: string,
-    range: string = '1mo'
+    range: RangeInput = '1mo',
+    interval: StockInterval = '1d',
+    throwIfAllFailed: boolean = false
   ): Promise<StockQuote[]> {
     try {
       // Validate symbol
@@ -72,20 +108,31 @@ export class StockClient {
         return getEmptyStockQuotes()
       }
 
+      // Providers get the normalized ticker (e.g., "aapl" becomes "AAPL")
+      symbol = validation.symbol!
+
+      // Resolve once so fallbacks serve the same window as the primary provider
+      const dateRange = resolveDateRange(range)
+
       // Try primary provider
       try {
-        return await this.fetchFromProvider(symbol, range, this.config.provider)
+        const quotes = await this.fetchFromProvider(symbol, dateRange, this.config.provider, interval)
+        recordFetch(this.config.provider)
+        return quotes
       } catch (primaryError) {
+        recordFetchFailure(this.config.provider)
         logWarning(`Primary provider ${this.config.provider} failed, attempting fallback`, {
           function: 'getStockData',
           provider: this.config.provider,
           symbol,
-          range,
+          startDate: dateRange.startDate,
+          endDate: dateRange.endDate,
+          interval,
           error: primaryError instanceof Error ? primaryError.message : 'Unknown error',
         })
 
         // Attempt fallback providers
-        const fallbackProviders = this.getFallbackProviders()
+        const fallbackProviders = this.getFallbackProviders(symbol, interval)
         
         for (const provider of fallbackProviders) {
           try {
@@ -93,15 +140,20 @@ export class StockClient {
               function: 'getStockData',
               provider,
               symbol,
-              range,
+              startDate: dateRange.startDate,
+              endDate: dateRange.endDate,
             })
-            return await this.fetchFromProvider(symbol, range, provider)
+            const quotes = await this.fetchFromProvider(symbol, dateRange, provider, interval)
+            recordFetch(provider, true)
+            return quotes
           } catch (fallbackError) {
+            recordFetchFailure(provider)
             logWarning(`Fallback provider ${provider} failed`, {
               function: 'getStockData',
               provider,
               symbol,
-              range,
+              startDate: dateRange.startDate,
+              endDate: dateRange.endDate,
               error: fallbackError instanceof Error ? fallbackError.message : 'Unknown error',
             })
             // Continue to next fallback
@@ -115,15 +167,25 @@ export class StockClient {
           {
             function: 'getStockData',
             symbol,
-            range,
+            startDate: dateRange.startDate,
+            endDate: dateRange.endDate,
             attemptedProviders: [this.config.provider, ...fallbackProviders],
           }
         )
 
+        if (throwIfAllFailed) {
+          throw new APIError('All stock API providers failed', undefined, this.config.provider)
+        }
+
         // Return empty array as per error handling strategy
         return getEmptyStockQuotes()
       }
     } catch (error) {
+      // Provider exhaustion was logged above
+      if (throwIfAllFailed && error instanceof APIError) {
+        throw error
+      }
+
       // Catch any unexpected errors
       logError(
         'Unexpected error in getStockData',
@@ -135,551 +197,224 @@ export class StockClient {
           range,
         }
       )
-      
-      return getEmptyStockQuotes()
-    }
-  }
 
-  /**
-   * Get list of fallback providers based on current provider
-   */
-  private getFallbackProviders(): Array<'yahoo' | 'alphavantage' | 'finnhub'> {
-    const allProviders: Array<'yahoo' | 'alphavantage' | 'finnhub'> = ['yahoo', 'alphavantage', 'finnhub']
-    return allProviders.filter(p => p !== this.config.provider)
-  }
+      if (throwIfAllFailed) {
+        throw error
+      }
 
-  /**
-   * Fetch stock data from a specific provider
-   */
-  private async fetchFromProvider(
-    symbol: string,
-    range: string,
-    provider: 'yahoo' | 'alphavantage' | 'finnhub'
-  ): Promise<StockQuote[]> {
-    switch (provider) {
-      case 'yahoo':
-        return await this.fetchFromYahoo(symbol, range)
-      case 'alphavantage':
-        return await this.fetchFromAlphaVantage(symbol)
-      case 'finnhub':
-        return await this.fetchFromFinnhub(symbol)
-      default:
-        throw new APIError(`Unknown provider: ${provider}`, undefined, provider)
+      return getEmptyStockQuotes()
     }
   }
 
   /**
-   * Fetch stock data from Yahoo Finance
+   * Fetch splits and dividends from the first provider that supplies them
+   * @param symbol - Stock symbol
+   * @param range - Relative range or explicit start/end dates
+   * @returns Corporate actions sorted by date, or [] if no provider has them
    */
-  private async fetchFromYahoo(symbol: string, range: string): Promise<StockQuote[]> {
+  async getCorporateActions(
+    symbol: string,
+    range: RangeInput = '1y'
+  ): Promise<CorporateAction[]> {
     try {
-      // Yahoo Finance API v8 endpoint
-      const url = `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?range=${range}&interval=1d`
-
-      logInfo('Fetching from Yahoo Finance', {
-        function: 'fetchFromYahoo',
-        provider: 'yahoo',
-        symbol,
-        range,
-      })
-
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
-
-      try {
-        const response = await fetch(url, {
-          signal: controller.signal,
-          headers: {
-            'Accept': 'application/json',
-            'User-Agent': 'Mozilla/5.0',
-          },
-        })
-
-        clearTimeout(timeoutId)
-
-        // Handle rate limiting (429 status code)
-        if (response.status === 429) {
-          throw new APIError(
-            'Yahoo Finance rate limit exceeded',
-            429,
-            'yahoo'
-          )
-        }
-
-        if (!response.ok) {
-          throw new APIError(
-            `Yahoo Finance API returned status ${response.status}`,
-            response.status,
-            'yahoo'
+      const dateRange = resolveDateRange(range)
+      const providers = [this.config.provider, ...this.getFallbackProviders(symbol, '1d')]
+        .map(name => this.registry.get(name))
+        .filter(provider => provider?.capabilities.adjusted && provider.fetchCorporateActions)
+
+      for (const provider of providers) {
+        try {
+          return await callWithResilience(
+            () => provider!.fetchCorporateActions!({
+              symbol,
+              startDate: dateRange.startDate,
+              endDate: dateRange.endDate,
+              interval: '1d',
+              apiKey: this.config.apiKey,
+              timeout: this.config.timeout,
+            }),
+            {
+              provider: provider!.name,
+              functionName: 'getCorporateActions',
+              context: { symbol },
+              maxRetries: this.config.maxRetries,
+              baseDelay: this.config.retryDelay,
+            }
           )
-        }
-
-        const data = await response.json()
-
-        // Parse Yahoo Finance response format
-        const result = data?.chart?.result?.[0]
-        if (!result) {
-          logWarning('No data in Yahoo Finance response', {
-            function: 'fetchFromYahoo',
-            provider: 'yahoo',
+        } catch (error) {
+          logWarning(`Corporate actions from ${provider!.name} failed`, {
+            function: 'getCorporateActions',
+            provider: provider!.name,
             symbol,
-            range,
+            error: error instanceof Error ? error.message : 'Unknown error',
           })
-          return getEmptyStockQuotes()
         }
-
-        const timestamps = result.timestamp || []
-        const quotes = result.indicators?.quote?.[0]
-        
-        if (!quotes) {
-          logWarning('No quote data in Yahoo Finance response', {
-            function: 'fetchFromYahoo',
-            provider: 'yahoo',
-            symbol,
-            range,
-          })
-          return getEmptyStockQuotes()
-        }
-
-        const stockQuotes: StockQuote[] = []
-        
-        for (let i = 0; i < timestamps.length; i++) {
-          // Skip entries with missing data
-          if (
-            quotes.open?.[i] == null ||
-            quotes.high?.[i] == null ||
-            quotes.low?.[i] == null ||
-            quotes.close?.[i] == null ||
-            quotes.volume?.[i] == null
-          ) {
-            continue
-          }
-
-          stockQuotes.push({
-            timestamp: timestamps[i],
-            open: quotes.open[i],
-            high: quotes.high[i],
-            low: quotes.low[i],
-            close: quotes.close[i],
-            volume: quotes.volume[i],
-          })
-        }
-
-        logInfo('Successfully fetched from Yahoo Finance', {
-          function: 'fetchFromYahoo',
-          provider: 'yahoo',
-          symbol,
-          count: stockQuotes.length,
-        })
-
-        return stockQuotes
-      } catch (fetchError) {
-        clearTimeout(timeoutId)
-        throw fetchError
-      }
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        logError(
-          'Yahoo Finance request timed out',
-          error,
-          {
-            function: 'fetchFromYahoo',
-            provider: 'yahoo',
-            timeout: this.config.timeout,
-            symbol,
-            range,
-          }
-        )
-        throw new APIError(
-          `Yahoo Finance request timed out after ${this.config.timeout}ms`,
-          undefined,
-          'yahoo'
-        )
-      }
-
-      if (error instanceof APIError) {
-        logError(
-          'Yahoo Finance API error',
-          error,
-          {
-            function: 'fetchFromYahoo',
-            provider: 'yahoo',
-            statusCode: error.statusCode,
-            symbol,
-            range,
-          }
-        )
-        throw error
       }
 
+      logWarning('No provider supplied corporate actions', {
+        function: 'getCorporateActions',
+        symbol,
+      })
+      return []
+    } catch (error) {
       logError(
-        'Network error while fetching Yahoo Finance data',
+        'Unexpected error in getCorporateActions',
         error,
         {
-          function: 'fetchFromYahoo',
-          provider: 'yahoo',
+          function: 'getCorporateActions',
           symbol,
           range,
         }
       )
-
-      throw new APIError(
-        `Network error while fetching Yahoo Finance data: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        undefined,
-        'yahoo'
-      )
+      return []
     }
   }
 
   /**
-   * Fetch stock data from Alpha Vantage
+   * Replace raw OHLC with split- and dividend-adjusted prices.
+   * Uses the provider's adjusted close when every quote has one, otherwise
+   * adjusts from the symbol's corporate actions.
+   * @param symbol - Stock symbol the quotes belong to
+   * @param quotes - Quotes from getStockData
+   * @param range - Range the quotes were fetched for
+   * @returns Quotes whose open/high/low/close are adjusted
    */
-  private async fetchFromAlphaVantage(symbol: string): Promise<StockQuote[]> {
-    try {
-      const apiKey = process.env.ALPHA_VANTAGE_API_KEY || this.config.apiKey
-      
-      if (!apiKey) {
-        throw new APIError(
-          'Alpha Vantage API key not configured',
-          401,
-          'alphavantage'
-        )
-      }
-
-      const url = `https://www.alphavantage.co/query?function=TIME_SERIES_DAILY&symbol=${symbol}&apikey=${apiKey}`
-
-      logInfo('Fetching from Alpha Vantage', {
-        function: 'fetchFromAlphaVantage',
-        provider: 'alphavantage',
-        symbol,
-      })
-
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
-
-      try {
-        const response = await fetch(url, {
-          signal: controller.signal,
-          headers: {
-            'Accept': 'application/json',
-          },
-        })
-
-        clearTimeout(timeoutId)
-
-        if (!response.ok) {
-          throw new APIError(
-            `Alpha Vantage API returned status ${response.status}`,
-            response.status,
-            'alphavantage'
-          )
-        }
-
-        const data = await response.json()
-
-        // Check for API error messages
-        if (data['Error Message']) {
-          throw new APIError(
-            `Alpha Vantage error: ${data['Error Message']}`,
-            400,
-            'alphavantage'
-          )
-        }
-
-        // Check for rate limit message
-        if (data['Note']) {
-          throw new APIError(
-            'Alpha Vantage rate limit exceeded',
-            429,
-            'alphavantage'
-          )
-        }
-
-        const timeSeries = data['Time Series (Daily)']
-        if (!timeSeries) {
-          logWarning('No time series data in Alpha Vantage response', {
-            function: 'fetchFromAlphaVantage',
-            provider: 'alphavantage',
-            symbol,
-          })
-          return getEmptyStockQuotes()
-        }
+  async adjustQuotes(
+    symbol: string,
+    quotes: StockQuote[],
+    range: RangeInput
+  ): Promise<StockQuote[]> {
+    if (!quotes || quotes.length === 0) {
+      return []
+    }
 
-        const stockQuotes: StockQuote[] = []
-        
-        for (const [dateStr, values] of Object.entries(timeSeries)) {
-          const date = new Date(dateStr)
-          
-          stockQuotes.push({
-            timestamp: Math.floor(date.getTime() / 1000),
-            open: parseFloat((values as any)['1. open']),
-            high: parseFloat((values as any)['2. high']),
-            low: parseFloat((values as any)['3. low']),
-            close: parseFloat((values as any)['4. close']),
-            volume: parseInt((values as any)['5. volume'], 10),
-          })
-        }
+    if (quotes.every(quote => quote.adjClose != null)) {
+      return toAdjustedQuotes(quotes)
+    }
 
-        // Sort by timestamp ascending
-        stockQuotes.sort((a, b) => a.timestamp - b.timestamp)
+    const actions = await this.getCorporateActions(symbol, range)
+    return toAdjustedQuotes(adjustForCorporateActions(quotes, actions))
+  }
 
-        logInfo('Successfully fetched from Alpha Vantage', {
-          function: 'fetchFromAlphaVantage',
-          provider: 'alphavantage',
-          symbol,
-          count: stockQuotes.length,
-        })
+  /**
+   * Get the fallback chain for a request: the configured order, or every
+   * registered provider by priority, minus the primary and any provider
+   * that cannot serve the symbol or interval
+   */
+  private getFallbackProviders(symbol: string, interval: StockInterval): StockProviderName[] {
+    const order = this.config.fallbackProviders ?? this.registry.list().map(p => p.name)
 
-        return stockQuotes
-      } catch (fetchError) {
-        clearTimeout(timeoutId)
-        throw fetchError
-      }
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        logError(
-          'Alpha Vantage request timed out',
-          error,
-          {
-            function: 'fetchFromAlphaVantage',
-            provider: 'alphavantage',
-            timeout: this.config.timeout,
-            symbol,
-          }
-        )
-        throw new APIError(
-          `Alpha Vantage request timed out after ${this.config.timeout}ms`,
-          undefined,
-          'alphavantage'
-        )
+    return order.filter(name => {
+      if (name === this.config.provider) {
+        return false
       }
 
-      if (error instanceof APIError) {
-        logError(
-          'Alpha Vantage API error',
-          error,
-          {
-            function: 'fetchFromAlphaVantage',
-            provider: 'alphavantage',
-            statusCode: error.statusCode,
-            symbol,
-          }
-        )
-        throw error
+      const provider = this.registry.get(name)
+      if (!provider) {
+        logWarning(`Unknown fallback provider ${name}, skipping`, {
+          function: 'getFallbackProviders',
+          provider: name,
+        })
+        return false
       }
 
-      logError(
-        'Network error while fetching Alpha Vantage data',
-        error,
-        {
-          function: 'fetchFromAlphaVantage',
-          provider: 'alphavantage',
-          symbol,
-        }
-      )
-
-      throw new APIError(
-        `Network error while fetching Alpha Vantage data: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        undefined,
-        'alphavantage'
-      )
-    }
+      return supportsRequest(provider, symbol, interval)
+    })
   }
 
   /**
-   * Fetch stock data from Finnhub
+   * Fetch stock data from a registered provider, trimmed to the requested window
    */
-  private async fetchFromFinnhub(symbol: string): Promise<StockQuote[]> {
-    try {
-      const apiKey = process.env.FINNHUB_API_KEY || this.config.apiKey
-      
-      if (!apiKey) {
-        throw new APIError(
-          'Finnhub API key not configured',
-          401,
-          'finnhub'
-        )
-      }
-
-      // Finnhub requires Unix timestamps
-      const endDate = Math.floor(Date.now() / 1000)
-      const startDate = endDate - (30 * 24 * 60 * 60) // 30 days ago
+  private async fetchFromProvider(
+    symbol: string,
+    dateRange: DateRange,
+    name: StockProviderName,
+    interval: StockInterval = '1d'
+  ): Promise<StockQuote[]> {
+    const provider = this.registry.get(name)
+    if (!provider) {
+      throw new APIError(`Unknown provider: ${name}`, undefined, name)
+    }
 
-      const url = `https://finnhub.io/api/v1/stock/candle?symbol=${symbol}&resolution=D&from=${startDate}&to=${endDate}&token=${apiKey}`
+    if (!supportsRequest(provider, symbol, interval)) {
+      throw new APIError(`Provider ${name} does not support ${symbol} at ${interval}`, 400, name)
+    }
 
-      logInfo('Fetching from Finnhub', {
-        function: 'fetchFromFinnhub',
-        provider: 'finnhub',
+    // Transient failures are retried; a provider that keeps failing is
+    // skipped by its circuit breaker until a probe succeeds
+    const quotes = await callWithResilience(
+      () => provider.fetchQuotes({
         symbol,
-      })
-
-      const controller = new AbortController()
-      const timeoutId = setTimeout(() => controller.abort(), this.config.timeout)
-
-      try {
-        const response = await fetch(url, {
-          signal: controller.signal,
-          headers: {
-            'Accept': 'application/json',
-          },
-        })
-
-        clearTimeout(timeoutId)
-
-        if (!response.ok) {
-          throw new APIError(
-            `Finnhub API returned status ${response.status}`,
-            response.status,
-            'finnhub'
-          )
-        }
-
-        const data = await response.json()
-
-        // Check for no data response
-        if (data.s === 'no_data') {
-          logWarning('No data available from Finnhub', {
-            function: 'fetchFromFinnhub',
-            provider: 'finnhub',
-            symbol,
-          })
-          return getEmptyStockQuotes()
-        }
-
-        if (data.s !== 'ok') {
-          throw new APIError(
-            `Finnhub returned status: ${data.s}`,
-            400,
-            'finnhub'
-          )
-        }
-
-        const stockQuotes: StockQuote[] = []
-        
-        for (let i = 0; i < data.t.length; i++) {
-          stockQuotes.push({
-            timestamp: data.t[i],
-            open: data.o[i],
-            high: data.h[i],
-            low: data.l[i],
-            close: data.c[i],
-            volume: data.v[i],
-          })
-        }
-
-        logInfo('Successfully fetched from Finnhub', {
-          function: 'fetchFromFinnhub',
-          provider: 'finnhub',
-          symbol,
-          count: stockQuotes.length,
-        })
-
-        return stockQuotes
-      } catch (fetchError) {
-        clearTimeout(timeoutId)
-        throw fetchError
-      }
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        logError(
-          'Finnhub request timed out',
-          error,
-          {
-            function: 'fetchFromFinnhub',
-            provider: 'finnhub',
-            timeout: this.config.timeout,
-            symbol,
-          }
-        )
-        throw new APIError(
-          `Finnhub request timed out after ${this.config.timeout}ms`,
-          undefined,
-          'finnhub'
-        )
+        startDate: dateRange.startDate,
+        endDate: dateRange.endDate,
+        interval,
+        apiKey: this.config.apiKey,
+        timeout: this.config.timeout,
+      }),
+      {
+        provider: name,
+        functionName: 'fetchFromProvider',
+        context: { symbol, startDate: dateRange.startDate, endDate: dateRange.endDate, interval },
+        maxRetries: this.config.maxRetries,
+        baseDelay: this.config.retryDelay,
       }
+    )
 
-      if (error instanceof APIError) {
-        logError(
-          'Finnhub API error',
-          error,
-          {
-            function: 'fetchFromFinnhub',
-            provider: 'finnhub',
-            statusCode: error.statusCode,
-            symbol,
-          }
-        )
-        throw error
-      }
-
-      logError(
-        'Network error while fetching Finnhub data',
-        error,
-        {
-          function: 'fetchFromFinnhub',
-          provider: 'finnhub',
-          symbol,
-        }
-      )
-
-      throw new APIError(
-        `Network error while fetching Finnhub data: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        undefined,
-        'finnhub'
-      )
-    }
+    // Providers may return more than asked for (e.g., Alpha Vantage full output)
+    const { from, to } = dateRangeToUnix(dateRange)
+    return quotes.filter(quote => quote.timestamp >= from && quote.timestamp <= to)
   }
 
   /**
-   * Calculate volatility from stock quotes and transform to StockData format
+   * Calculate volatility from stock quotes and transform to StockData format.
+   * Daily bars use the selected estimator (see estimateVolatility); the
+   * default 'range-change' is the larger of the intraday range and the
+   * close-to-close change. Intraday bars are grouped by day (or hour) into
+   * realized volatility, the root of summed squared log returns.
+   * With a symbol, rows are dated by its exchange's trading date (e.g., IST
+   * for ^NSEI) instead of the UTC date, and annualization uses 365 days for
+   * crypto instead of 252 trading days.
    * @param quotes - Array of stock quotes
+   * @param interval - Interval the quotes were fetched with, defaults to daily
+   * @param period - Grouping for intraday bars, 'day' (default) or 'hour'
+   * @param symbol - Symbol whose exchange calendar sets the trading date
+   * @param options - Daily estimator, rolling window and annualization
    * @returns Array of stock data with volatility calculations
    */
-  calculateVolatility(quotes: StockQuote[]): StockData[] {
+  calculateVolatility(
+    quotes: StockQuote[],
+    interval: StockInterval = '1d',
+    period: RealizedVolatilityPeriod = 'day',
+    symbol?: string,
+    options?: VolatilityOptions
+  ): StockData[] {
     if (!quotes || quotes.length === 0) {
       return []
     }
 
-    const stockData: StockData[] = []
-
-    for (let i = 0; i < quotes.length; i++) {
-      const quote = quotes[i]
-      
-      // Calculate intraday volatility (high-low range as percentage of close)
-      const intradayVolatility = quote.close > 0 
-        ? Math.abs((quote.high - quote.low) / quote.close) * 100
-        : 0
-
-      // Calculate price change volatility if we have previous data
-      let priceChangeVolatility = 0
-      if (i > 0) {
-        const prevClose = quotes[i - 1].close
-        if (prevClose > 0) {
-          priceChangeVolatility = Math.abs((quote.close - prevClose) / prevClose) * 100
-        }
-      }
+    const calendar = symbol ? getExchangeCalendar(symbol) : null
 
-      // Use the maximum of the two volatility measures
-      const volatility = Math.max(intradayVolatility, priceChangeVolatility)
+    if (interval !== '1d') {
+      return calculateRealizedVolatility(quotes, period, calendar?.timeZone)
+    }
 
-      // Ensure volatility is non-negative
-      const finalVolatility = Math.max(0, volatility)
+    const volatility = estimateVolatility(quotes, {
+      ...options,
+      periodsPerYear: options?.periodsPerYear ??
+        (calendar?.id === 'CRYPTO' ? CALENDAR_DAYS_PER_YEAR : TRADING_DAYS_PER_YEAR),
+    })
 
+    return quotes.map((quote, i) => ({
       // Convert timestamp to YYYY-MM-DD format
-      const date = new Date(quote.timestamp * 1000)
-      const dateStr = date.toISOString().split('T')[0]
-
-      stockData.push({
-        date: dateStr,
-        close: quote.close,
-        volume: quote.volume,
-        volatility: finalVolatility,
-        high: quote.high,
-        low: quote.low,
-        open: quote.open,
-      })
-    }
-
-    return stockData
+      date: calendar
+        ? getTradingDate(quote.timestamp, calendar, true)
+        : new Date(quote.timestamp * 1000).toISOString().split('T')[0],
+      close: quote.close,
+      volume: quote.volume,
+      volatility: volatility[i],
+      high: quote.high,
+      low: quote.low,
+      open: quote.open,
+    }))
   }
 }
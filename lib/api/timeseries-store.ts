@@ -0,0 +1,356 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+import { FlareData, StockQuote, TimeSeriesStoreConfig } from './types'
+import { NASAClient } from './nasa'
+import { StockClient } from './stock'
+import { recordStoreRead } from './provenance'
+import { getHttpCassette } from './http-cassette'
+import { logError, logInfo, logWarning } from '../utils/error-handling'
+import { DateRange, dateRangeToUnix, mergeDateRanges, splitDateRange, subtractDateRanges } from '../utils/date-range'
+import { mapWithConcurrency } from '../utils/concurrency'
+import { getExchangeCalendar, getTradingDate, getTradingDays } from '../utils/exchange-calendar'
+import { normalizeSymbol, SYMBOL_PATTERN } from '../utils/symbol-directory'
+
+const STORE_VERSION = 1
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * On-disk contents of one series
+ */
+interface SeriesFile<T> {
+  version: number
+  coverage: DateRange[]  // Dates already synced, whether or not they hold records
+  records: T[]
+}
+
+/**
+ * Result of syncing one gap: the records fetched and the dates they cover.
+ * A failed fetch covers nothing, so it is retried.
+ */
+interface GapSync<T> {
+  records: T[]
+  synced: DateRange[]
+}
+
+const seriesLocks = new Map<string, Promise<unknown>>()
+
+/**
+ * Runs syncs of the same series one after another, so concurrent actions
+ * neither fetch the same gap twice nor overwrite each other's file
+ */
+function withSeriesLock<T>(series: string, fn: () => Promise<T>): Promise<T> {
+  const previous = seriesLocks.get(series) || Promise.resolve()
+  const next = previous.catch(() => undefined).then(fn)
+  const cleanup = () => {
+    if (seriesLocks.get(series) === next) {
+      seriesLocks.delete(series)
+    }
+  }
+
+  seriesLocks.set(series, next)
+  next.then(cleanup, cleanup)
+  return next
+}
+
+/**
+ * Peak and class of a flare; DONKI and GOES write peak times differently
+ * (with or without seconds), so the time is compared as a timestamp
+ */
+function flarePeakKey(flare: FlareData): string {
+  return `${Date.parse(flare.peakTime)}|${flare.class}`
+}
+
+/**
+ * Stable identity of a flare: its DONKI ID, or its peak for GOES flares
+ */
+function flareKey(flare: FlareData): string {
+  return flare.id || flarePeakKey(flare)
+}
+
+/**
+ * Drop GOES flares that DONKI also reported. A recent day first filled
+ * from GOES and later from DONKI would otherwise count each flare twice;
+ * the DONKI record keeps its ID and links.
+ */
+function dropGOESDuplicates(flares: FlareData[]): FlareData[] {
+  const donkiPeaks = new Set(flares.filter(flare => flare.id).map(flarePeakKey))
+  return flares.filter(flare => flare.id || !donkiPeaks.has(flarePeakKey(flare)))
+}
+
+/**
+ * Persistent local history of flares and daily stock quotes.
+ *
+ * Each series is one JSON file under `dataDir` holding its records and the
+ * date ranges already synced. A read fetches only the gaps between the
+ * requested range and that coverage, merges the result into the file and
+ * answers from disk, so long histories load once and stay local.
+ *
+ * The last `recentDays` days are never marked as synced because DONKI
+ * revises recent flares and today's bar is still moving. Fetches that
+ * failed are not marked either; the clients are asked to throw rather than
+ * return [] so an outage is not mistaken for a range without records.
+ */
+export class TimeSeriesStore {
+  private config: TimeSeriesStoreConfig
+
+  constructor(config?: Partial<TimeSeriesStoreConfig>) {
+    // Default configuration with environment variable fallbacks
+    const defaultDataDir = process.env.TIMESERIES_STORE_DIR || path.join(process.cwd(), '.data', 'timeseries')
+
+    this.config = {
+      // Replayed responses may come from another date window, so they are
+      // never written to the store as coverage
+      enabled: config?.enabled ?? (process.env.TIMESERIES_STORE !== 'off' && getHttpCassette().mode !== 'replay'),
+      dataDir: config?.dataDir || defaultDataDir,
+      recentDays: config?.recentDays ?? 2,
+      chunkDays: config?.chunkDays || 30, // Matches the DONKI client's chunk size
+      concurrency: config?.concurrency || 3,
+    }
+  }
+
+  /**
+   * Flares for a date range, syncing missing dates from the NASA client
+   * @param startDate - Start date in YYYY-MM-DD format
+   * @param endDate - End date in YYYY-MM-DD format
+   * @param nasaClient - Client used to fill gaps
+   * @returns Flares in the range sorted by peak time
+   */
+  async getFlares(
+    startDate: string,
+    endDate: string,
+    nasaClient: NASAClient
+  ): Promise<FlareData[]> {
+    if (!this.config.enabled) {
+      return nasaClient.transformFlareData(await nasaClient.getFlareEvents(startDate, endDate))
+    }
+
+    const records = await this.sync<FlareData>(
+      'flares',
+      { startDate, endDate },
+      gap => this.syncFlareGap(gap, nasaClient),
+      flareKey,
+      dropGOESDuplicates
+    )
+
+    return records
+      .filter(flare => flare.date >= startDate && flare.date <= endDate)
+      .sort((a, b) => a.peakTime.localeCompare(b.peakTime))
+  }
+
+  /**
+   * Daily quotes for a symbol and date range, syncing missing dates from
+   * the stock client. Adjusted prices are not stored because they change
+   * after every split or dividend; adjustQuotes recomputes them.
+   * @param symbol - Stock symbol
+   * @param range - Inclusive date range
+   * @param stockClient - Client used to fill gaps
+   * @returns Raw daily quotes in the range sorted by timestamp
+   */
+  async getStockQuotes(
+    symbol: string,
+    range: DateRange,
+    stockClient: StockClient
+  ): Promise<StockQuote[]> {
+    const normalized = normalizeSymbol(symbol)
+
+    // Invalid symbols never touch the file system; the client rejects them
+    if (!this.config.enabled || !SYMBOL_PATTERN.test(normalized)) {
+      return stockClient.getStockData(symbol, range)
+    }
+
+    // Providers stamp daily bars differently (session open or UTC midnight),
+    // so bars are keyed by trading date and a re-fetch replaces the old bar
+    const calendar = getExchangeCalendar(normalized)
+    const records = await this.sync<StockQuote>(
+      `quotes/${encodeURIComponent(normalized)}`,
+      range,
+      gap => this.syncQuoteGap(normalized, gap, stockClient),
+      quote => getTradingDate(quote.timestamp, calendar, true)
+    )
+
+    const { from, to } = dateRangeToUnix(range)
+    return records
+      .filter(quote => quote.timestamp >= from && quote.timestamp <= to)
+      .sort((a, b) => a.timestamp - b.timestamp)
+  }
+
+  /**
+   * Fetch one flare gap in chunks; each chunk a provider answered counts as
+   * synced, even without flares, as long quiet stretches are common
+   */
+  private async syncFlareGap(gap: DateRange, nasaClient: NASAClient): Promise<GapSync<FlareData>> {
+    const chunks = splitDateRange(gap.startDate, gap.endDate, this.config.chunkDays)
+
+    const results = await mapWithConcurrency(chunks, this.config.concurrency, async chunk => {
+      try {
+        const events = await nasaClient.getFlareEvents(chunk.startDate, chunk.endDate, true)
+        return { flares: nasaClient.transformFlareData(events), chunk, ok: true }
+      } catch (error) {
+        logError('Failed to sync flare chunk', error, {
+          function: 'syncFlareGap',
+          provider: 'NASA',
+          startDate: chunk.startDate,
+          endDate: chunk.endDate,
+        })
+        return { flares: [] as FlareData[], chunk, ok: false }
+      }
+    })
+
+    return {
+      records: results.flatMap(result => result.flares),
+      synced: results.filter(result => result.ok).map(result => result.chunk),
+    }
+  }
+
+  /**
+   * Fetch one quote gap; a gap without trading days is synced without a
+   * request, and one a provider answered is synced even without bars (e.g.,
+   * dates before a listing). A failed fetch throws and stays unsynced.
+   */
+  private async syncQuoteGap(
+    symbol: string,
+    gap: DateRange,
+    stockClient: StockClient
+  ): Promise<GapSync<StockQuote>> {
+    const tradingDays = getTradingDays(gap.startDate, gap.endDate, getExchangeCalendar(symbol))
+    if (tradingDays.length === 0) {
+      return { records: [], synced: [gap] }
+    }
+
+    const quotes = await stockClient.getStockData(symbol, gap, '1d', true)
+    return {
+      records: quotes.map(({ timestamp, open, high, low, close, volume }) => ({ timestamp, open, high, low, close, volume })),
+      synced: [gap],
+    }
+  }
+
+  /**
+   * Fill the gaps of a series for a range and return all of its records
+   * @param compact - Optional pass over the merged records before they are
+   *   written, for duplicates that do not share a key
+   */
+  private sync<T>(
+    series: string,
+    range: DateRange,
+    syncGap: (gap: DateRange) => Promise<GapSync<T>>,
+    keyOf: (record: T) => string,
+    compact: (records: T[]) => T[] = records => records
+  ): Promise<T[]> {
+    return withSeriesLock(series, async () => {
+      const file = await this.readSeries<T>(series)
+      const gaps = subtractDateRanges(range, file.coverage)
+      const uncovered = gaps.length === 1 && gaps[0].startDate === range.startDate && gaps[0].endDate === range.endDate
+      recordStoreRead(gaps.length === 0 ? 'hit' : uncovered ? 'miss' : 'partial')
+
+      if (gaps.length === 0) {
+        return file.records
+      }
+
+      logInfo(`Syncing ${series}`, {
+        function: 'sync',
+        series,
+        startDate: range.startDate,
+        endDate: range.endDate,
+        gaps: gaps.length,
+      })
+
+      const byKey = new Map(file.records.map(record => [keyOf(record), record]))
+      const synced: DateRange[] = []
+
+      for (const gap of gaps) {
+        try {
+          const result = await syncGap(gap)
+          result.records.forEach(record => byKey.set(keyOf(record), record))
+          synced.push(...result.synced)
+        } catch (error) {
+          logError(`Failed to sync ${series}`, error, {
+            function: 'sync',
+            series,
+            startDate: gap.startDate,
+            endDate: gap.endDate,
+          })
+        }
+      }
+
+      const updated: SeriesFile<T> = {
+        version: STORE_VERSION,
+        coverage: mergeDateRanges([...file.coverage, ...this.settledRanges(synced)]),
+        records: compact(Array.from(byKey.values())),
+      }
+
+      await this.writeSeries(series, updated)
+      return updated.records
+    })
+  }
+
+  /**
+   * Clip synced ranges so the last `recentDays` days stay unsynced
+   */
+  private settledRanges(ranges: DateRange[]): DateRange[] {
+    const today = new Date()
+    const settledThrough = new Date(
+      Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()) - this.config.recentDays * MS_PER_DAY
+    ).toISOString().split('T')[0]
+
+    return ranges
+      .filter(range => range.startDate <= settledThrough)
+      .map(range => ({
+        startDate: range.startDate,
+        endDate: range.endDate < settledThrough ? range.endDate : settledThrough,
+      }))
+  }
+
+  private seriesPath(series: string): string {
+    return path.join(this.config.dataDir, `${series}.json`)
+  }
+
+  /**
+   * Read a series file; a missing, unreadable or outdated file starts empty
+   */
+  private async readSeries<T>(series: string): Promise<SeriesFile<T>> {
+    const empty: SeriesFile<T> = { version: STORE_VERSION, coverage: [], records: [] }
+
+    try {
+      const file = JSON.parse(await readFile(this.seriesPath(series), 'utf-8')) as SeriesFile<T>
+      if (file.version !== STORE_VERSION || !Array.isArray(file.coverage) || !Array.isArray(file.records)) {
+        logWarning(`Discarding incompatible ${series} store file`, {
+          function: 'readSeries',
+          series,
+          version: file.version,
+        })
+        return empty
+      }
+      return file
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code !== 'ENOENT') {
+        logWarning(`Discarding unreadable ${series} store file`, {
+          function: 'readSeries',
+          series,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        })
+      }
+      return empty
+    }
+  }
+
+  /**
+   * Write a series file atomically (temporary file, then rename).
+   * A failed write only loses this sync; reads still return the records.
+   */
+  private async writeSeries<T>(series: string, file: SeriesFile<T>): Promise<void> {
+    const target = this.seriesPath(series)
+    const temporary = `${target}.${process.pid}.tmp`
+
+    try {
+      await mkdir(path.dirname(target), { recursive: true })
+      await writeFile(temporary, JSON.stringify(file), 'utf-8')
+      await rename(temporary, target)
+    } catch (error) {
+      logError(`Failed to write ${series} store file`, error, {
+        function: 'writeSeries',
+        series,
+        path: target,
+      })
+    }
+  }
+}
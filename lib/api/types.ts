@@ -4,19 +4,126 @@ export interface NASAFlareEvent {
   flrID: string
   beginTime: string
   peakTime: string
-  endTime: string
+  endTime: string | null  // DONKI leaves this null for some events
   classType: string  // e.g., "M2.5", "X1.0"
   sourceLocation: string
-  activeRegionNum: number
-  linkedEvents: any[]
+  activeRegionNum: number | null
+  linkedEvents: NASALinkedEvent[] | null  // DONKI sends null when nothing is linked
 }
 
+export interface NASALinkedEvent {
+  activityID: string  // e.g., "2024-05-10T16:36:00-CME-001"
+}
+
+export interface NASACMEAnalysis {
+  isMostAccurate: boolean
+  speed?: number
+  enlilList: Array<{
+    isEarthGB?: boolean
+    estimatedShockArrivalTime?: string | null
+  }> | null
+}
+
+export interface NASACMEEvent {
+  activityID: string
+  startTime: string
+  sourceLocation?: string
+  activeRegionNum?: number | null
+  cmeAnalyses: NASACMEAnalysis[] | null
+  linkedEvents: NASALinkedEvent[] | null
+}
+
+export interface NASAKpIndexReading {
+  observedTime: string
+  kpIndex: number
+  source: string
+}
+
+export interface NASAGeomagneticStormEvent {
+  gstID: string
+  startTime: string
+  allKpIndex: NASAKpIndexReading[]
+  linkedEvents: NASALinkedEvent[] | null
+}
+
+// Space Weather Event Graph Types
+
+export type SpaceWeatherEventType =
+  | 'FLR'
+  | 'CME'
+  | 'IPS'
+  | 'GST'
+  | 'SEP'
+  | 'MPC'
+  | 'RBE'
+  | 'HSS'
+  | 'UNKNOWN'
+
+export interface SpaceWeatherEventNode {
+  id: string
+  type: SpaceWeatherEventType
+  time?: string
+  earthDirected?: boolean  // CME only: Earth-directed per WSA-Enlil analysis
+  maxKp?: number           // GST only: highest Kp reading of the storm
+}
+
+export interface FlareImpact {
+  cmeIds: string[]
+  earthDirectedCME: boolean
+  shockIds: string[]
+  stormIds: string[]
+  maxKp?: number
+}
+
+// 'earth-directed' keeps flares with an Earth-directed CME or a storm
+export type FlareLinkage = 'all' | 'earth-directed' | 'storm'
+
+// 'disk-center' keeps flares within 45° of disk centre, 'western' keeps W0-W90
+export type FlareLocationFilter = 'all' | 'disk-center' | 'western'
+
 export interface FlareData {
+  id?: string    // DONKI flrID
   date: string
-  flare: number
+  flare: number  // Log-scaled intensity: log10(flux / 1e-9), so C1.0 = 3, M1.0 = 4, X1.0 = 5
+  flux?: number  // Peak GOES X-ray flux in W/m²
   class: string
   peakTime: string
   sourceRegion?: number
+  latitude?: number   // Heliographic degrees, positive north
+  longitude?: number  // Heliographic degrees, positive west of central meridian
+  riseMinutes?: number      // Begin to peak
+  decayMinutes?: number     // Peak to end
+  durationMinutes?: number  // Begin to end
+  fluence?: number          // Approximate time-integrated X-ray flux in J/m²
+  linkedEvents?: string[]   // DONKI activity IDs of linked CMEs, shocks and storms
+}
+
+export type FlareAggregate = 'max' | 'sum' | 'count' | 'energy'
+
+/**
+ * How flares on non-trading days are matched to trading days
+ * (see alignFlaresToTradingDays)
+ */
+export type FlareAlignment = 'strict' | 'next-session' | 'since-close' | 'asof'
+
+export interface DailyFlareData {
+  date: string
+  count: number
+  max: number        // Highest log-scaled intensity of the day
+  sum: number        // Sum of log-scaled intensities
+  energy: number     // Log-scaled intensity of the summed peak flux
+  maxFlux: number    // Peak flux of the strongest flare in W/m²
+  totalFlux: number  // Sum of peak fluxes in W/m²
+  peakClass: string
+  longDurationCount: number  // Flares lasting at least an hour
+  fluence: number    // Summed fluence in J/m² of flares with timing
+}
+
+export interface KpIndexData {
+  date: string
+  kp: number
+  observedTime: string
+  stormId?: string
 }
 
 export interface StockQuote {
@@ -26,8 +133,35 @@ export interface StockQuote {
   low: number
   close: number
   volume: number
+  // Split- and dividend-adjusted prices, when the provider or corporate actions supply them
+  adjOpen?: number
+  adjHigh?: number
+  adjLow?: number
+  adjClose?: number
+}
+
+export interface CorporateAction {
+  type: 'split' | 'dividend'
+  date: string       // Ex-date, YYYY-MM-DD
+  timestamp: number  // Unix seconds
+  ratio?: number     // Split: new shares per old share (4 for a 4:1 split)
+  amount?: number    // Dividend: cash per share
 }
 
+export type StockInterval = '1m' | '5m' | '15m' | '1h' | '1d'
+
+/**
+ * Daily volatility estimator (see estimateVolatility)
+ */
+export type VolatilityEstimator =
+  | 'range-change'      // max(intraday range, |close-to-close change|), the original measure
+  | 'close-to-close'
+  | 'parkinson'
+  | 'garman-klass'
+  | 'rogers-satchell'
+  | 'yang-zhang'
+  | 'atr'
+
 export interface StockData {
   date: string
   close: number
@@ -36,6 +170,8 @@ export interface StockData {
   high?: number
   low?: number
   open?: number
+  timestamp?: number  // Period start in Unix seconds, set for intraday-derived rows
+  bars?: number       // Intraday bars behind a realized-volatility row
 }
 
 // Composed and Processed Data Types
@@ -45,6 +181,13 @@ export interface ComposedData {
   flare: number
   volatility: number
   trades: number
+  flareCount?: number
+  longDurationCount?: number  // Set on days with a long-duration event
+  fluence?: number            // Set on days whose flares carry timing
+  flux?: number
+  kp?: number
+  sunspotNumber?: number
+  f107?: number
 }
 
 export interface CorrelationData {
@@ -63,7 +206,11 @@ export interface DashboardStats {
   totalTrades: number
   correlation: number
   maxFlare: number
+  maxFlux: number
   maxVolatility: number
+  sunspotCorrelation: number
+  f107Correlation: number
+  volatilityEstimator: VolatilityEstimator
 }
 
 export interface DashboardData {
@@ -72,6 +219,7 @@ export interface DashboardData {
   distributionData: DistributionData[]
   heatmapData: Array<ComposedData & { intensity: number }>
   stats: DashboardStats
+  provenance?: DataProvenance  // Set by the server action; absent on client-side sample data
 }
 
 // Forecast Data Types
@@ -90,34 +238,163 @@ export interface ForecastData {
   confidence: number
   trend: 'rising' | 'declining' | 'stable'
   predictions: ForecastPrediction[]
+  volatilityEstimator: VolatilityEstimator
   keyPredictions?: {
     volatilityChange: string
     solarActivity: string
     riskWindow: string
   }
+  provenance?: DataProvenance  // Set by the server action; absent on client-side sample data
 }
 
 // API Client Configuration Types
 
+export type SolarProvider = 'donki' | 'goes'
+
 export interface NASAClientConfig {
+  provider: SolarProvider  // Primary flare source, the other is the fallback
   apiKey: string
   baseUrl: string
   timeout: number
+  chunkDays: number    // Maximum days per DONKI request
+  concurrency: number  // Maximum chunk requests in flight
+  maxRetries: number   // Retries per chunk after the first attempt
+  retryDelay: number   // Base backoff delay in milliseconds
+  goes?: Partial<GOESClientConfig>
+}
+
+// Solar Activity Index Types
+
+export interface SolarIndexData {
+  date: string
+  sunspotNumber?: number  // SILSO daily total sunspot number
+  f107?: number           // 10.7 cm radio flux in solar flux units (sfu)
+}
+
+export interface SolarIndexClientConfig {
+  sunspotSource: string  // URL or local path of the SILSO daily CSV/text file
+  f107Source: string     // URL or local path of the F10.7 flux table or CSV
+  timeout: number
+  cacheTtl: number       // Milliseconds a parsed index file is reused for; 0 disables
+}
+
+// Time-Series Store Types
+
+export interface TimeSeriesStoreConfig {
+  enabled: boolean      // When false, every read goes straight to the API clients (default: off while replaying cassettes)
+  dataDir: string       // Directory holding one JSON file per series
+  recentDays: number    // Trailing days (today included) re-fetched on every read
+  chunkDays: number     // Days per flare sync request
+  concurrency: number   // Flare sync requests in flight
+}
+
+// HTTP Record/Replay Types
+
+// 'record' fetches live and saves each response, 'replay' answers only from cassettes
+export type CassetteMode = 'off' | 'record' | 'replay'
+
+export interface HttpCassetteConfig {
+  mode: CassetteMode
+  dir: string  // Directory holding one <provider>.json cassette per provider
+}
+
+// Data Provenance Types
+
+export type DataSourceKind = 'flares' | 'stock' | 'solar-indices' | 'kp-index' | 'event-graph'
+
+// How much of the requested range the time-series store already held
+export type StoreStatus = 'hit' | 'partial' | 'miss' | 'off'
+
+export interface SourceProvenance {
+  source: DataSourceKind
+  symbol?: string              // Stock sources only
+  providers: string[]          // Providers that answered (e.g., 'donki', 'goes', 'yahoo')
+  failedProviders: string[]    // Providers that failed for some or all of the range
+  fetchedAt?: string           // ISO time of the oldest provider response; absent if nothing was fetched
+  loadedAt: string             // ISO time the source finished loading
+  store: StoreStatus
+  recordCount: number
+  fallback: boolean            // A fallback provider served some of the data
+  degraded: boolean            // A provider failed or a fallback was used
+}
+
+export interface DataProvenance {
+  generatedAt: string          // ISO time the response was built
+  cache: 'hit' | 'miss'        // Whether the response came from the Next.js data cache
+  providers: string[]          // Every provider that answered, across sources
+  partial: boolean             // Some sources degraded while others loaded normally
+  degraded: boolean            // At least one source degraded, or the action failed
+  sources: SourceProvenance[]
+}
+
+// NOAA SWPC GOES X-ray Flux Types
+
+export interface GOESXrayFluxReading {
+  time_tag: string
+  satellite: number
+  flux: number | null
+  observed_flux?: number | null
+  electron_correction?: number | null
+  electron_contaminaton?: boolean  // sic, SWPC field name
+  energy: string                   // "0.1-0.8nm" (long) or "0.05-0.4nm" (short)
+}
+
+export type GOESResolution = '1m' | '1d'
+
+export interface GOESClientConfig {
+  baseUrl: string
+  resolution: GOESResolution
+  dataDir?: string        // Read recorded SWPC JSON files from here instead of the network
+  timeout: number
+  flareThreshold: number  // Long-channel flux in W/m² that marks a flare, defaults to C1.0
 }
 
 export interface StockClientConfig {
-  provider: 'yahoo' | 'alphavantage' | 'finnhub'
+  provider: StockProviderName
+  fallbackProviders?: StockProviderName[]  // Fallback order, defaults to registered providers by priority
+  apiKey?: string
+  timeout: number
+  maxRetries: number   // Retries per provider request after the first attempt
+  retryDelay: number   // Base backoff delay in milliseconds
+}
+
+// Stock Provider Types
+
+// Built-in providers; any registered provider name is accepted
+export type StockProviderName = 'yahoo' | 'alphavantage' | 'finnhub' | (string & {})
+
+export interface StockProviderCapabilities {
+  intervals: StockInterval[]  // Bar intervals the provider can serve
+  crypto: boolean             // Serves crypto pairs such as BTC-USD
+  adjusted: boolean           // Returns split/dividend-adjusted prices
+}
+
+export interface StockProviderRequest {
+  symbol: string
+  startDate: string  // YYYY-MM-DD, inclusive
+  endDate: string    // YYYY-MM-DD, inclusive
+  interval: StockInterval
   apiKey?: string
   timeout: number
 }
 
+export interface StockProvider {
+  name: StockProviderName
+  priority: number  // Lower values are tried first when falling back
+  capabilities: StockProviderCapabilities
+  fetchQuotes(request: StockProviderRequest): Promise<StockQuote[]>
+  // Splits and dividends in the window, for providers with adjusted capability
+  fetchCorporateActions?(request: StockProviderRequest): Promise<CorporateAction[]>
+}
+
 // Error Types
 
 export class APIError extends Error {
   constructor(
     message: string,
     public statusCode?: number,
-    public provider?: string
+    public provider?: string,
+    public retryAfterMs?: number  // From a Retry-After header, when the server sent one
   ) {
     super(message)
     this.name = 'APIError'
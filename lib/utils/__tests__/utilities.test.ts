@@ -1,8 +1,56 @@
-import { describe, it, expect } from 'vitest'
-import { mergeDatasets } from '../data-transform'
+import { describe, it, expect, vi } from 'vitest'
+import {
+  mergeDatasets,
+  mergeKpWithStock,
+  mergeSolarIndicesWithStock,
+  aggregateFlaresByDay,
+} from '../data-transform'
 import { calculateCorrelation } from '../correlation'
-import { calculateAverage, calculateMax, calculateSum, categorizeIntensity } from '../statistics'
-import { FlareData, StockData } from '../../api/types'
+import {
+  calculateAverage,
+  calculateMax,
+  calculateSum,
+  categorizeIntensity,
+  categorizeStormLevel,
+} from '../statistics'
+import { parseGOESClass, fluxToIntensity, intensityToFlux, fluxToClass } from '../goes-flux'
+import { splitDateRange, resolveDateRange, dateRangeToUnix, mergeDateRanges, subtractDateRanges } from '../date-range'
+import { mapWithConcurrency } from '../concurrency'
+import { parseCSVDate, parseOHLCVCsv } from '../ohlcv-csv'
+import { adjustForCorporateActions, toAdjustedQuotes, withAdjustedClose } from '../adjusted-prices'
+import {
+  parseActivityID,
+  buildEventGraph,
+  getFlareImpact,
+  filterFlaresByLinkage,
+} from '../event-graph'
+import { zonedDateTimeToUnix } from '../timezone'
+import { getCacheTags, getRefreshTags, CACHED_ACTIONS } from '../cache-tags'
+import { alignFlaresToTradingDays, getFlareLookback } from '../flare-alignment'
+import { estimateVolatility } from '../volatility-estimators'
+import { searchSymbols, getSymbolListing, normalizeSymbol } from '../symbol-directory'
+import {
+  EXCHANGE_CALENDARS,
+  getExchangeCalendar,
+  getTradingDate,
+  getTradingSession,
+  getTradingDays,
+  isTradingDay,
+  nextTradingDay,
+} from '../exchange-calendar'
+import { computeFlareTiming, isLongDurationEvent } from '../flare-timing'
+import { parseSILSOSunspots, parseF107, combineSolarIndices } from '../solar-indices'
+import { parseSourceLocation, diskCenterDistance, filterFlaresByLocation } from '../heliographic'
+import {
+  FlareAlignment,
+  FlareData,
+  StockData,
+  StockQuote,
+  KpIndexData,
+  NASAFlareEvent,
+  NASACMEEvent,
+  NASAGeomagneticStormEvent,
+} from '../../api/types'
 
 describe('Data Transformation Utilities', () => {
   describe('mergeDatasets', () => {
@@ -23,7 +71,8 @@ describe('Data Transformation Utilities', () => {
         date: '2024-01-01',
         flare: 2.5,
         volatility: 0.5,
-        trades: 1000
+        trades: 1000,
+        flareCount: 1
       })
     })
 
@@ -45,6 +94,88 @@ describe('Data Transformation Utilities', () => {
       expect(result).toHaveLength(1)
       expect(result[0].date).toBe('2024-01-02')
     })
+
+    it('should attach daily max Kp when a Kp series is supplied', () => {
+      const flareData: FlareData[] = [
+        { date: '2024-01-01', flare: 2.5, class: 'M2.5', peakTime: '10:00' },
+        { date: '2024-01-02', flare: 3.0, class: 'M3.0', peakTime: '11:00' }
+      ]
+      const stockData: StockData[] = [
+        { date: '2024-01-01', close: 100, volume: 1000, volatility: 0.5 },
+        { date: '2024-01-02', close: 105, volume: 1200, volatility: 0.6 }
+      ]
+      const kpData: KpIndexData[] = [
+        { date: '2024-01-02', kp: 5.33, observedTime: '2024-01-02T03:00Z' },
+        { date: '2024-01-02', kp: 6.67, observedTime: '2024-01-02T09:00Z' }
+      ]
+
+      const result = mergeDatasets(flareData, stockData, { kpData })
+
+      expect(result[0].kp).toBeUndefined()
+      expect(result[1].kp).toBe(6.67)
+    })
+  })
+
+  describe('aggregateFlaresByDay', () => {
+    const flareData: FlareData[] = [
+      { date: '2024-01-01', flare: 3.0, flux: 1e-6, class: 'C1.0', peakTime: '00:05' },
+      { date: '2024-01-01', flare: 5.3, flux: 2e-4, class: 'X2.0', peakTime: '14:30' },
+      { date: '2024-01-02', flare: 4.0, flux: 1e-5, class: 'M1.0', peakTime: '09:00' }
+    ]
+
+    it('should aggregate every flare on a day', () => {
+      const result = aggregateFlaresByDay(flareData)
+
+      expect(result).toHaveLength(2)
+      expect(result[0].count).toBe(2)
+      expect(result[0].max).toBe(5.3)
+      expect(result[0].sum).toBeCloseTo(8.3, 10)
+      expect(result[0].totalFlux).toBeCloseTo(2.01e-4, 12)
+      expect(result[0].peakClass).toBe('X2.0')
+    })
+
+    it('should not let an early quiet flare hide a later strong one', () => {
+      const stockData: StockData[] = [
+        { date: '2024-01-01', close: 100, volume: 1000, volatility: 0.5 }
+      ]
+
+      const result = mergeDatasets(flareData, stockData)
+
+      expect(result[0].flare).toBe(5.3)
+      expect(result[0].flux).toBe(2e-4)
+      expect(result[0].flareCount).toBe(2)
+    })
+
+    it('should feed the selected aggregate into flare', () => {
+      const stockData: StockData[] = [
+        { date: '2024-01-01', close: 100, volume: 1000, volatility: 0.5 }
+      ]
+
+      expect(mergeDatasets(flareData, stockData, { flareAggregate: 'count' })[0].flare).toBe(2)
+      expect(mergeDatasets(flareData, stockData, { flareAggregate: 'sum' })[0].flare).toBeCloseTo(8.3, 10)
+      expect(mergeDatasets(flareData, stockData, { flareAggregate: 'energy' })[0].flux).toBeCloseTo(2.01e-4, 12)
+    })
+  })
+
+  describe('mergeKpWithStock', () => {
+    it('should keep storm trading days even without flares', () => {
+      const kpData: KpIndexData[] = [
+        { date: '2024-01-03', kp: 7, observedTime: '2024-01-03T12:00Z' },
+        { date: '2024-01-06', kp: 5, observedTime: '2024-01-06T12:00Z' }
+      ]
+      const stockData: StockData[] = [
+        { date: '2024-01-03', close: 100, volume: 1000, volatility: 1.5 },
+        { date: '2024-01-04', close: 101, volume: 900, volatility: 0.8 }
+      ]
+
+      expect(mergeKpWithStock(kpData, stockData)).toEqual([
+        { date: '2024-01-03', kp: 7, volatility: 1.5, trades: 1000 }
+      ])
+    })
+
+    it('should handle empty arrays', () => {
+      expect(mergeKpWithStock([], [])).toEqual([])
+    })
   })
 
   describe('calculateCorrelation', () => {
@@ -145,5 +276,759 @@ describe('Data Transformation Utilities', () => {
         expect(categorizeIntensity(-1)).toBe('Low')
       })
     })
+
+    describe('categorizeStormLevel', () => {
+      it('should map Kp values to NOAA G-scale levels', () => {
+        expect(categorizeStormLevel(4.67)).toBe('None')
+        expect(categorizeStormLevel(5)).toBe('G1')
+        expect(categorizeStormLevel(6.33)).toBe('G2')
+        expect(categorizeStormLevel(7)).toBe('G3')
+        expect(categorizeStormLevel(8.67)).toBe('G4')
+        expect(categorizeStormLevel(9)).toBe('G5')
+      })
+
+      it('should handle invalid values', () => {
+        expect(categorizeStormLevel(NaN)).toBe('None')
+      })
+    })
+  })
+
+  describe('GOES Flux Utilities', () => {
+    it('should convert every class to peak flux in W/m²', () => {
+      expect(parseGOESClass('A1.0').flux).toBeCloseTo(1e-8, 15)
+      expect(parseGOESClass('B7.1').flux).toBeCloseTo(7.1e-7, 15)
+      expect(parseGOESClass('C9.9').flux).toBeCloseTo(9.9e-6, 15)
+      expect(parseGOESClass('m2.5').flux).toBeCloseTo(2.5e-5, 15)
+      expect(parseGOESClass('X10').flux).toBeCloseTo(1e-3, 15)
+    })
+
+    it('should reject malformed classes', () => {
+      expect(() => parseGOESClass('Z1.0')).toThrow()
+      expect(() => parseGOESClass('')).toThrow()
+    })
+
+    it('should keep C9.9 below M1.0 on the log-scaled intensity', () => {
+      const c99 = fluxToIntensity(parseGOESClass('C9.9').flux)
+      const m10 = fluxToIntensity(parseGOESClass('M1.0').flux)
+      expect(c99).toBeLessThan(m10)
+      expect(m10).toBeCloseTo(4, 10)
+    })
+
+    it('should round-trip flux, intensity and class', () => {
+      expect(intensityToFlux(fluxToIntensity(2.5e-5))).toBeCloseTo(2.5e-5, 15)
+      expect(fluxToClass(2.5e-5)).toBe('M2.5')
+      expect(fluxToClass(2.8e-3)).toBe('X28.0')
+      expect(fluxToClass(0)).toBe('N/A')
+    })
+
+    it('should round a flux just under a class boundary into the next class', () => {
+      expect(fluxToClass(9.96e-6)).toBe('M1.0')
+      expect(fluxToClass(9.94e-6)).toBe('C9.9')
+      expect(fluxToClass(9.99e-8)).toBe('B1.0')
+    })
+  })
+
+  describe('splitDateRange', () => {
+    it('should split an inclusive range into bounded chunks', () => {
+      expect(splitDateRange('2024-01-01', '2024-01-25', 10)).toEqual([
+        { startDate: '2024-01-01', endDate: '2024-01-10' },
+        { startDate: '2024-01-11', endDate: '2024-01-20' },
+        { startDate: '2024-01-21', endDate: '2024-01-25' },
+      ])
+    })
+
+    it('should return a single chunk for short ranges', () => {
+      expect(splitDateRange('2024-01-01', '2024-01-01', 30)).toHaveLength(1)
+    })
+
+    it('should return no chunks when start is after end', () => {
+      expect(splitDateRange('2024-02-01', '2024-01-01', 30)).toEqual([])
+    })
+  })
+
+  describe('resolveDateRange', () => {
+    const now = new Date('2024-03-31T15:00:00Z')
+
+    it('should resolve relative ranges ending today', () => {
+      expect(resolveDateRange('5d', now)).toEqual({ startDate: '2024-03-26', endDate: '2024-03-31' })
+      expect(resolveDateRange('1mo', now)).toEqual({ startDate: '2024-03-02', endDate: '2024-03-31' })
+      expect(resolveDateRange('1y', now)).toEqual({ startDate: '2023-03-31', endDate: '2024-03-31' })
+      expect(resolveDateRange('ytd', now)).toEqual({ startDate: '2024-01-01', endDate: '2024-03-31' })
+    })
+
+    it('should pass explicit dates through and reject invalid ranges', () => {
+      expect(resolveDateRange({ startDate: '2024-01-01', endDate: '2024-01-31' }, now))
+        .toEqual({ startDate: '2024-01-01', endDate: '2024-01-31' })
+      expect(() => resolveDateRange({ startDate: '2024-02-01', endDate: '2024-01-01' })).toThrow()
+      expect(() => resolveDateRange('soon')).toThrow()
+    })
+
+    it('should convert a range to inclusive Unix seconds', () => {
+      expect(dateRangeToUnix({ startDate: '2024-01-01', endDate: '2024-01-01' })).toEqual({
+        from: Date.UTC(2024, 0, 1) / 1000,
+        to: Date.UTC(2024, 0, 2) / 1000 - 1,
+      })
+    })
+  })
+
+  describe('date range coverage', () => {
+    it('should merge overlapping and adjacent ranges', () => {
+      expect(mergeDateRanges([
+        { startDate: '2024-01-10', endDate: '2024-01-20' },
+        { startDate: '2024-01-01', endDate: '2024-01-05' },
+        { startDate: '2024-01-06', endDate: '2024-01-09' },
+        { startDate: '2024-02-01', endDate: '2024-02-03' },
+      ])).toEqual([
+        { startDate: '2024-01-01', endDate: '2024-01-20' },
+        { startDate: '2024-02-01', endDate: '2024-02-03' },
+      ])
+    })
+
+    it('should return the gaps left by covered ranges', () => {
+      const covered = [
+        { startDate: '2024-01-05', endDate: '2024-01-10' },
+        { startDate: '2024-01-20', endDate: '2024-01-25' },
+      ]
+
+      expect(subtractDateRanges({ startDate: '2024-01-01', endDate: '2024-01-31' }, covered)).toEqual([
+        { startDate: '2024-01-01', endDate: '2024-01-04' },
+        { startDate: '2024-01-11', endDate: '2024-01-19' },
+        { startDate: '2024-01-26', endDate: '2024-01-31' },
+      ])
+      expect(subtractDateRanges({ startDate: '2024-01-06', endDate: '2024-01-08' }, covered)).toEqual([])
+      expect(subtractDateRanges({ startDate: '2024-01-01', endDate: '2024-01-03' }, [])).toEqual([
+        { startDate: '2024-01-01', endDate: '2024-01-03' },
+      ])
+    })
+  })
+
+  describe('parseOHLCVCsv', () => {
+    it('should map columns by header name and sort by date', () => {
+      const csv = [
+        'timestamp;o;h;l;"Last Price";vol',
+        '03/01/2024;11;12;10;11.5;200',
+        '02/01/2024;10;11;9;10.5;100',
+        'bad;1;1;1;1;1',
+      ].join('\n')
+
+      const quotes = parseOHLCVCsv(csv, {
+        columns: { date: 'timestamp', open: 'o', high: 'h', low: 'l', close: 'last price', volume: 'vol' },
+        dateFormat: 'DD/MM/YYYY',
+        delimiter: ';',
+      })
+
+      expect(quotes).toEqual([
+        { timestamp: Date.UTC(2024, 0, 2) / 1000, open: 10, high: 11, low: 9, close: 10.5, volume: 100 },
+        { timestamp: Date.UTC(2024, 0, 3) / 1000, open: 11, high: 12, low: 10, close: 11.5, volume: 200 },
+      ])
+    })
+
+    it('should default volume to 0 and reject files without price columns', () => {
+      expect(parseOHLCVCsv('Date,Open,High,Low,Close\n2024-01-02,1,2,0.5,1.5')[0].volume).toBe(0)
+      expect(() => parseOHLCVCsv('Date,Close\n2024-01-02,1')).toThrow('open')
+    })
+
+    it('should parse each supported date format', () => {
+      const jan2 = Date.UTC(2024, 0, 2) / 1000
+      expect(parseCSVDate('2024-01-02')).toBe(jan2)
+      expect(parseCSVDate('2024-01-02 14:30:00')).toBe(jan2 + 14.5 * 3600)
+      expect(parseCSVDate('20240102', 'YYYYMMDD')).toBe(jan2)
+      expect(parseCSVDate('01/02/2024', 'MM/DD/YYYY')).toBe(jan2)
+      expect(parseCSVDate('02-01-2024', 'DD-MM-YYYY')).toBe(jan2)
+      expect(parseCSVDate(String(jan2), 'unix')).toBe(jan2)
+      expect(parseCSVDate(String(jan2 * 1000), 'unix-ms')).toBe(jan2)
+      expect(parseCSVDate('13/40/2024', 'MM/DD/YYYY')).toBeNaN()
+    })
+  })
+
+  describe('adjusted prices', () => {
+    const day = (date: string, close: number) => ({
+      timestamp: Date.parse(`${date}T14:30:00Z`) / 1000,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 100,
+    })
+
+    it('should remove a 4:1 split gap from earlier bars', () => {
+      const quotes = [day('2024-01-02', 400), day('2024-01-03', 404), day('2024-01-04', 101)]
+
+      const adjusted = toAdjustedQuotes(adjustForCorporateActions(quotes, [
+        { type: 'split', date: '2024-01-04', timestamp: Date.UTC(2024, 0, 4) / 1000, ratio: 4 },
+      ]))
+
+      expect(adjusted.map(quote => quote.close)).toEqual([100, 101, 101])
+    })
+
+    it('should scale bars before an ex-dividend date', () => {
+      const quotes = [day('2024-01-02', 100), day('2024-01-03', 98)]
+
+      const [before, after] = adjustForCorporateActions(quotes, [
+        { type: 'dividend', date: '2024-01-03', timestamp: Date.UTC(2024, 0, 3) / 1000, amount: 2 },
+      ])
+
+      expect(before.adjClose).toBeCloseTo(98, 10)
+      expect(after.adjClose).toBe(98)
+    })
+
+    it('should scale OHLC by the provider adjusted close', () => {
+      const quote = withAdjustedClose({ timestamp: 0, open: 10, high: 12, low: 8, close: 10, volume: 1 }, 5)
+
+      expect([quote.adjOpen, quote.adjHigh, quote.adjLow, quote.adjClose]).toEqual([5, 6, 4, 5])
+      expect(toAdjustedQuotes([quote])[0]).toMatchObject({ open: 5, high: 6, low: 4, close: 5 })
+    })
+  })
+
+  describe('mapWithConcurrency', () => {
+    it('should keep input order and respect the limit', async () => {
+      let inFlight = 0
+      let peak = 0
+
+      const result = await mapWithConcurrency([30, 10, 20, 5], 2, async (ms) => {
+        inFlight++
+        peak = Math.max(peak, inFlight)
+        await new Promise(resolve => setTimeout(resolve, ms))
+        inFlight--
+        return ms * 2
+      })
+
+      expect(result).toEqual([60, 20, 40, 10])
+      expect(peak).toBe(2)
+    })
+  })
+
+  describe('space-weather event graph', () => {
+    const flare = (flrID: string, links: string[]): NASAFlareEvent => ({
+      flrID,
+      beginTime: '',
+      peakTime: flrID.slice(0, 19) + 'Z',
+      endTime: '',
+      classType: 'X1.0',
+      sourceLocation: 'N10W20',
+      activeRegionNum: 13664,
+      linkedEvents: links.length > 0 ? links.map(activityID => ({ activityID })) : null,
+    })
+
+    const cmes: NASACMEEvent[] = [
+      {
+        activityID: '2024-05-10T07:12:00-CME-001',
+        startTime: '2024-05-10T07:12Z',
+        cmeAnalyses: [{ isMostAccurate: true, enlilList: [{ isEarthGB: false }] }],
+        linkedEvents: [
+          { activityID: '2024-05-10T06:54:00-FLR-001' },
+          { activityID: '2024-05-11T11:30:00-IPS-001' },
+        ],
+      },
+      {
+        activityID: '2024-05-12T01:00:00-CME-001',
+        startTime: '2024-05-12T01:00Z',
+        cmeAnalyses: [{ isMostAccurate: true, enlilList: [{ isEarthGB: true }] }],
+        linkedEvents: [{ activityID: '2024-05-12T00:40:00-FLR-001' }],
+      },
+      {
+        activityID: '2024-05-13T03:00:00-CME-001',
+        startTime: '2024-05-13T03:00Z',
+        cmeAnalyses: null,
+        linkedEvents: [{ activityID: '2024-05-13T02:50:00-FLR-001' }],
+      },
+    ]
+
+    const storms: NASAGeomagneticStormEvent[] = [
+      {
+        gstID: '2024-05-11T12:00:00-GST-001',
+        startTime: '2024-05-11T12:00Z',
+        allKpIndex: [
+          { observedTime: '2024-05-11T12:00Z', kpIndex: 8.33, source: 'NOAA' },
+          { observedTime: '2024-05-11T15:00Z', kpIndex: 9, source: 'NOAA' },
+        ],
+        linkedEvents: [{ activityID: '2024-05-11T11:30:00-IPS-001' }],
+      },
+    ]
+
+    const flares = [
+      flare('2024-05-10T06:54:00-FLR-001', ['2024-05-10T07:12:00-CME-001']),
+      flare('2024-05-12T00:40:00-FLR-001', ['2024-05-12T01:00:00-CME-001']),
+      flare('2024-05-13T02:50:00-FLR-001', ['2024-05-13T03:00:00-CME-001']),
+      flare('2024-05-14T09:00:00-FLR-001', []),
+    ]
+
+    const graph = buildEventGraph({ flares, cmes, storms })
+
+    it('should parse activity IDs into typed nodes', () => {
+      expect(parseActivityID('2024-05-11T11:30:00-IPS-001')).toEqual({
+        id: '2024-05-11T11:30:00-IPS-001',
+        type: 'IPS',
+        time: '2024-05-11T11:30:00Z',
+      })
+      expect(parseActivityID('2024-05-11T11:30:00-XYZ-001')?.type).toBe('UNKNOWN')
+      expect(parseActivityID('not-an-id')).toBeNull()
+    })
+
+    it('should follow a flare through CME and shock to the storm', () => {
+      const impact = getFlareImpact(graph, '2024-05-10T06:54:00-FLR-001')
+
+      expect(impact.cmeIds).toEqual(['2024-05-10T07:12:00-CME-001'])
+      expect(impact.shockIds).toEqual(['2024-05-11T11:30:00-IPS-001'])
+      expect(impact.stormIds).toEqual(['2024-05-11T12:00:00-GST-001'])
+      expect(impact.maxKp).toBe(9)
+      // Reached Earth, so Earth-directed even though Enlil said otherwise
+      expect(impact.earthDirectedCME).toBe(true)
+    })
+
+    it('should flag Earth-directed CMEs from Enlil runs', () => {
+      expect(getFlareImpact(graph, '2024-05-12T00:40:00-FLR-001').earthDirectedCME).toBe(true)
+      expect(getFlareImpact(graph, '2024-05-13T02:50:00-FLR-001').earthDirectedCME).toBe(false)
+    })
+
+    it('should filter flares by linkage', () => {
+      const flareData: FlareData[] = flares.map(f => ({
+        id: f.flrID,
+        date: f.peakTime.split('T')[0],
+        flare: 5,
+        class: 'X1.0',
+        peakTime: f.peakTime,
+      }))
+
+      expect(filterFlaresByLinkage(flareData, graph, 'all')).toHaveLength(4)
+      expect(filterFlaresByLinkage(flareData, graph, 'earth-directed').map(f => f.date)).toEqual([
+        '2024-05-10',
+        '2024-05-12',
+      ])
+      expect(filterFlaresByLinkage(flareData, graph, 'storm').map(f => f.date)).toEqual([
+        '2024-05-10',
+      ])
+    })
+  })
+
+  describe('heliographic flare location', () => {
+    it('should parse DONKI source locations', () => {
+      expect(parseSourceLocation('N10W20')).toEqual({ latitude: 10, longitude: 20 })
+      expect(parseSourceLocation('s05e112')).toEqual({ latitude: -5, longitude: -112 })
+      expect(parseSourceLocation('')).toBeNull()
+      expect(parseSourceLocation('N10')).toBeNull()
+    })
+
+    it('should measure angular distance from disk centre', () => {
+      expect(diskCenterDistance({ latitude: 0, longitude: 0 })).toBeCloseTo(0, 6)
+      expect(diskCenterDistance({ latitude: 0, longitude: -90 })).toBeCloseTo(90, 6)
+      expect(diskCenterDistance({ latitude: 30, longitude: 30 })).toBeLessThan(45)
+    })
+
+    it('should filter flares by disk position', () => {
+      const flareData: FlareData[] = [
+        { date: '2024-01-01', flare: 4, class: 'M1.0', peakTime: '', latitude: 10, longitude: 20 },
+        { date: '2024-01-02', flare: 4, class: 'M1.0', peakTime: '', latitude: -15, longitude: -30 },
+        { date: '2024-01-03', flare: 4, class: 'M1.0', peakTime: '', latitude: 12, longitude: 80 },
+        { date: '2024-01-04', flare: 4, class: 'M1.0', peakTime: '', latitude: 8, longitude: -85 },
+        { date: '2024-01-05', flare: 4, class: 'M1.0', peakTime: '' },
+      ]
+
+      expect(filterFlaresByLocation(flareData, 'all')).toHaveLength(5)
+      expect(filterFlaresByLocation(flareData, 'disk-center').map(f => f.date)).toEqual([
+        '2024-01-01',
+        '2024-01-02',
+      ])
+      expect(filterFlaresByLocation(flareData, 'western').map(f => f.date)).toEqual([
+        '2024-01-01',
+        '2024-01-03',
+      ])
+    })
+  })
+
+  describe('solar activity indices', () => {
+    it('should parse SILSO CSV and text rows and skip missing days', () => {
+      const csv = [
+        '2024;05;10;2024.355; 187; 15.4;  35;0',
+        '2024;05;11;2024.358;  -1; -1.0;   0;0',
+        '2024;05;12;2024.361; 201; 18.0;  30;0',
+      ].join('\n')
+      const text = '2024 05 13 2024.363  176  14.9   28 0'
+
+      expect(parseSILSOSunspots(csv)).toEqual([
+        { date: '2024-05-10', sunspotNumber: 187 },
+        { date: '2024-05-12', sunspotNumber: 201 },
+      ])
+      expect(parseSILSOSunspots(text)).toEqual([{ date: '2024-05-13', sunspotNumber: 176 }])
+    })
+
+    it('should parse the DRAO flux table using the 20:00 measurement', () => {
+      const fluxTable = [
+        'fluxdate    fluxtime    fluxjulian    fluxcarrington  fluxobsflux  fluxadjflux  fluxursi',
+        '----------  ----------  ------------  --------------  -----------  -----------  ----------',
+        '20240510    170000      02460441.208  002283.656      000230.1     000236.0     000212.4',
+        '20240510    200000      02460441.333  002283.660      000233.4     000239.2     000215.3',
+        '20240511    170000      02460442.208  002283.692      000220.0     000225.6     000203.0',
+        '20240511    230000      02460442.458  002283.701      000224.0     000229.7     000206.6',
+      ].join('\n')
+
+      expect(parseF107(fluxTable)).toEqual([
+        { date: '2024-05-10', f107: 233.4 },
+        { date: '2024-05-11', f107: 222 },
+      ])
+    })
+
+    it('should parse F10.7 from a CSV with a header row', () => {
+      expect(parseF107('date,f107\n2024-05-10,233.4\n2024-05-11,n/a')).toEqual([
+        { date: '2024-05-10', f107: 233.4 },
+      ])
+    })
+
+    it('should correlate indices on every trading day', () => {
+      const indices = combineSolarIndices(
+        [{ date: '2024-05-10', sunspotNumber: 187 }, { date: '2024-05-11', sunspotNumber: 201 }],
+        [{ date: '2024-05-10', f107: 233.4 }]
+      )
+      const stockData: StockData[] = [
+        { date: '2024-05-10', close: 100, volume: 1000, volatility: 2 },
+        { date: '2024-05-13', close: 101, volume: 1100, volatility: 3 },
+      ]
+
+      expect(mergeSolarIndicesWithStock(indices, stockData)).toEqual([
+        { date: '2024-05-10', sunspotNumber: 187, f107: 233.4, volatility: 2, trades: 1000 },
+      ])
+
+      const flareData: FlareData[] = [
+        { date: '2024-05-10', flare: 4, class: 'M1.0', peakTime: '' },
+      ]
+      const [row] = mergeDatasets(flareData, stockData, { solarIndices: indices })
+      expect(row.sunspotNumber).toBe(187)
+      expect(row.f107).toBe(233.4)
+    })
+  })
+
+  describe('flare timing', () => {
+    it('should compute rise, decay, duration and fluence', () => {
+      const timing = computeFlareTiming(
+        '2024-05-10T06:27:00Z',
+        '2024-05-10T06:54:00Z',
+        '2024-05-10T07:57:00Z',
+        3.98e-4
+      )
+
+      expect(timing).toEqual({
+        riseMinutes: 27,
+        decayMinutes: 63,
+        durationMinutes: 90,
+        fluence: expect.any(Number),
+      })
+      expect(timing!.fluence).toBeCloseTo(0.5 * 3.98e-4 * 90 * 60, 10)
+      expect(isLongDurationEvent(timing!)).toBe(true)
+    })
+
+    it('should keep the rise time when the end time is missing', () => {
+      expect(computeFlareTiming('2024-05-10T06:27Z', '2024-05-10T06:37Z', null, 1e-5)).toEqual({
+        riseMinutes: 10,
+      })
+      expect(isLongDurationEvent({})).toBe(false)
+    })
+
+    it('should reject missing or out-of-order times', () => {
+      expect(computeFlareTiming(undefined, '2024-05-10T06:37Z', null)).toBeNull()
+      expect(computeFlareTiming('2024-05-10T07:00Z', '2024-05-10T06:37Z', null)).toBeNull()
+    })
+  })
+
+  describe('exchange calendars', () => {
+    const { NYSE, NSE, CRYPTO } = EXCHANGE_CALENDARS
+
+    it('should pick the calendar from the symbol', () => {
+      expect(getExchangeCalendar('AAPL').id).toBe('NYSE')
+      expect(getExchangeCalendar('RELIANCE.NS').id).toBe('NSE')
+      expect(getExchangeCalendar('^NSEI').id).toBe('NSE')
+      expect(getExchangeCalendar('BTC-USD').id).toBe('CRYPTO')
+      expect(getExchangeCalendar('BRK-B').id).toBe('NYSE')
+    })
+
+    it('should apply NYSE holiday and observance rules', () => {
+      expect(isTradingDay('2024-03-29', NYSE)).toBe(false)  // Good Friday
+      expect(isTradingDay('2024-06-19', NYSE)).toBe(false)  // Juneteenth
+      expect(isTradingDay('2026-07-03', NYSE)).toBe(false)  // July 4 observed on Friday
+      expect(isTradingDay('2021-12-31', NYSE)).toBe(true)   // Saturday New Year is not observed
+      expect(isTradingDay('2024-01-06', NYSE)).toBe(false)  // Saturday
+      expect(isTradingDay('2024-01-06', CRYPTO)).toBe(true)
+      expect(isTradingDay('2024-01-26', NSE)).toBe(false)   // Republic Day
+      expect(isTradingDay('2026-11-10', NSE)).toBe(false)   // Diwali Balipratipada
+    })
+
+    it('should warn once per year without NSE holiday data', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+      expect(isTradingDay('2019-10-28', NSE)).toBe(true)
+      expect(getTradingDays('2019-10-28', '2019-10-31', NSE)).toHaveLength(4)
+
+      expect(warn).toHaveBeenCalledTimes(1)
+      expect(String(warn.mock.calls[0][0])).toContain('No NSE holiday data for 2019')
+      warn.mockRestore()
+    })
+
+    it('should return sessions with early closes', () => {
+      expect(getTradingSession('2024-11-29', NYSE)).toEqual({
+        date: '2024-11-29',
+        open: Date.UTC(2024, 10, 29, 14, 30) / 1000,
+        close: Date.UTC(2024, 10, 29, 18, 0) / 1000,
+      })
+      expect(getTradingSession('2024-01-02', NSE)?.open).toBe(Date.UTC(2024, 0, 2, 3, 45) / 1000)
+      expect(getTradingSession('2024-12-25', NYSE)).toBeNull()
+    })
+
+    it('should date bars by exchange local time', () => {
+      // 20:00 UTC is 01:30 the next day in India
+      expect(getTradingDate(Date.UTC(2024, 0, 1, 20) / 1000, NSE)).toBe('2024-01-02')
+      // Date-only daily bars keep their date
+      expect(getTradingDate(Date.UTC(2024, 0, 2) / 1000, NYSE, true)).toBe('2024-01-02')
+      expect(getTradingDate(Date.UTC(2024, 0, 2) / 1000, NYSE)).toBe('2024-01-01')
+    })
+
+    it('should step over weekends and holidays', () => {
+      expect(nextTradingDay('2024-03-28', NYSE)).toBe('2024-04-01')
+      expect(getTradingDays('2024-12-23', '2024-12-27', NYSE)).toEqual([
+        '2024-12-23', '2024-12-24', '2024-12-26', '2024-12-27',
+      ])
+    })
+  })
+
+  describe('flare alignment', () => {
+    const { NYSE } = EXCHANGE_CALENDARS
+    // Friday, then Monday (weekend in between)
+    const tradingDates = ['2024-01-05', '2024-01-08']
+    const flare = (date: string, peakTime: string, value: number): FlareData => ({
+      date,
+      flare: value,
+      class: 'M1.0',
+      peakTime,
+    })
+    const flares: FlareData[] = [
+      flare('2024-01-05', '2024-01-05T15:00:00Z', 2.0),  // 10:00 New York, before the close
+      flare('2024-01-05', '2024-01-05T22:00:00Z', 3.0),  // After Friday's close
+      flare('2024-01-06', '2024-01-06T12:00:00Z', 4.0),  // Saturday
+      flare('2024-01-09', '2024-01-09T12:00:00Z', 5.0),  // After the last stock date
+    ]
+    const datesOf = (aligned: FlareData[]) => aligned.map(f => `${f.date}:${f.flare}`)
+
+    it('should drop non-trading days with strict alignment', () => {
+      expect(datesOf(alignFlaresToTradingDays(flares, tradingDates))).toEqual([
+        '2024-01-05:2', '2024-01-05:3',
+      ])
+    })
+
+    it('should carry weekend flares to the next session', () => {
+      expect(datesOf(alignFlaresToTradingDays(flares, tradingDates, { alignment: 'next-session' }))).toEqual([
+        '2024-01-05:2', '2024-01-05:3', '2024-01-08:4',
+      ])
+    })
+
+    it('should assign flares after the close to the next session', () => {
+      const aligned = alignFlaresToTradingDays(flares, tradingDates, {
+        alignment: 'since-close',
+        calendar: NYSE,
+      })
+      expect(datesOf(aligned)).toEqual(['2024-01-05:2', '2024-01-08:3', '2024-01-08:4'])
+    })
+
+    it('should as-of join within the maximum gap', () => {
+      const sparse = [flare('2024-01-03', '', 2.0)]
+      expect(datesOf(alignFlaresToTradingDays(sparse, tradingDates, { alignment: 'asof' }))).toEqual([
+        '2024-01-05:2',
+      ])
+      expect(
+        alignFlaresToTradingDays(sparse, tradingDates, { alignment: 'asof', maxGapDays: 6 })
+      ).toHaveLength(2)
+      expect(datesOf(alignFlaresToTradingDays(flares, tradingDates, { alignment: 'asof' }))).toEqual([
+        '2024-01-05:2', '2024-01-05:3', '2024-01-08:4',
+      ])
+    })
+
+    it('should merge aligned flares into trading-day rows', () => {
+      const stockData: StockData[] = tradingDates.map(date => ({
+        date,
+        close: 100,
+        volume: 1000,
+        volatility: 0.5,
+      }))
+      const result = mergeDatasets(flares, stockData, {
+        alignment: 'since-close',
+        calendar: NYSE,
+      })
+
+      expect(result.map(row => [row.date, row.flare, row.flareCount])).toEqual([
+        ['2024-01-05', 2, 1],
+        ['2024-01-08', 4, 2],
+      ])
+    })
+
+    it('should reach back before a range to the flares of its first session', () => {
+      const monday = '2024-01-08'
+      const lookback = (alignment: FlareAlignment) => getFlareLookback(monday, { alignment, calendar: NYSE })
+
+      expect(lookback('strict').startDate).toBe(monday)
+      expect(lookback('next-session').startDate).toBe('2024-01-06')
+      expect(lookback('asof').startDate).toBe('2024-01-05')
+      expect(flares.filter(lookback('since-close').includes).map(f => f.flare)).toEqual([3.0, 4.0, 5.0])
+    })
+
+    it('should count long-duration events and fluence on the aligned trading date', () => {
+      const stockData: StockData[] = tradingDates.map(date => ({
+        date,
+        close: 100,
+        volume: 1000,
+        volatility: 0.5,
+      }))
+      const timed = [
+        { ...flares[0], durationMinutes: 20, fluence: 0.01 },
+        { ...flares[2], durationMinutes: 90, fluence: 0.05 },
+      ]
+
+      const result = mergeDatasets(timed, stockData, { alignment: 'next-session' })
+
+      expect(result.map(row => [row.date, row.flareCount, row.longDurationCount, row.fluence])).toEqual([
+        ['2024-01-05', 1, undefined, 0.01],
+        ['2024-01-08', 1, 1, 0.05],
+      ])
+    })
+  })
+
+  describe('volatility estimators', () => {
+    const bars: StockQuote[] = [
+      { timestamp: 1, open: 100, high: 102, low: 99, close: 101, volume: 1 },
+      { timestamp: 2, open: 101, high: 104, low: 100, close: 103, volume: 1 },
+      { timestamp: 3, open: 102, high: 103, low: 98, close: 99, volume: 1 },
+    ]
+
+    it('should keep the range-change measure as the default', () => {
+      const result = estimateVolatility(bars)
+      expect(result[0]).toBeCloseTo((3 / 101) * 100, 10)
+      expect(result[2]).toBeCloseTo((5 / 99) * 100, 10)
+    })
+
+    it('should compute close-to-close standard deviation of log returns', () => {
+      const returns = [Math.log(103 / 101), Math.log(99 / 103)]
+      const avg = (returns[0] + returns[1]) / 2
+      const std = Math.sqrt(((returns[0] - avg) ** 2 + (returns[1] - avg) ** 2) / 1)
+
+      const result = estimateVolatility(bars, { estimator: 'close-to-close' })
+      expect(result[0]).toBe(0)
+      expect(result[1]).toBe(0)
+      expect(result[2]).toBeCloseTo(std * 100, 10)
+    })
+
+    it('should compute range-based estimators over the window', () => {
+      const hl = bars.map(b => Math.log(b.high / b.low) ** 2)
+      const parkinson = Math.sqrt((hl[1] + hl[2]) / 2 / (4 * Math.log(2))) * 100
+      expect(estimateVolatility(bars, { estimator: 'parkinson', window: 2 })[2]).toBeCloseTo(parkinson, 10)
+
+      const gk = bars.map(b =>
+        0.5 * Math.log(b.high / b.low) ** 2 - (2 * Math.log(2) - 1) * Math.log(b.close / b.open) ** 2
+      )
+      expect(estimateVolatility(bars, { estimator: 'garman-klass' })[2])
+        .toBeCloseTo(Math.sqrt((gk[0] + gk[1] + gk[2]) / 3) * 100, 10)
+
+      const rs = bars.map(b =>
+        Math.log(b.high / b.close) * Math.log(b.high / b.open) +
+        Math.log(b.low / b.close) * Math.log(b.low / b.open)
+      )
+      expect(estimateVolatility(bars, { estimator: 'rogers-satchell' })[0])
+        .toBeCloseTo(Math.sqrt(rs[0]) * 100, 10)
+    })
+
+    it('should combine overnight, open-to-close and Rogers-Satchell for Yang-Zhang', () => {
+      const variance = (values: number[]) => {
+        const avg = values.reduce((a, b) => a + b, 0) / values.length
+        return values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1)
+      }
+      const overnight = [Math.log(101 / 101), Math.log(102 / 103)]
+      const openToClose = [Math.log(103 / 101), Math.log(99 / 102)]
+      const rs = bars.slice(1).map(b =>
+        Math.log(b.high / b.close) * Math.log(b.high / b.open) +
+        Math.log(b.low / b.close) * Math.log(b.low / b.open)
+      )
+      const k = 0.34 / (1.34 + 3 / 1)
+      const expected = variance(overnight) + k * variance(openToClose) + (1 - k) * (rs[0] + rs[1]) / 2
+
+      const result = estimateVolatility(bars, { estimator: 'yang-zhang' })
+      expect(result[1]).toBe(0)
+      expect(result[2]).toBeCloseTo(Math.sqrt(expected) * 100, 10)
+    })
+
+    it('should compute ATR as a percentage of the close', () => {
+      // True ranges: 3, max(4, 3, 1) = 4, max(5, 0, 5) = 5
+      const result = estimateVolatility(bars, { estimator: 'atr', window: 2 })
+      expect(result[0]).toBeCloseTo((3 / 101) * 100, 10)
+      expect(result[2]).toBeCloseTo((4.5 / 99) * 100, 10)
+    })
+
+    it('should annualize by the square root of periods per year', () => {
+      const daily = estimateVolatility(bars, { estimator: 'parkinson' })
+      const annual = estimateVolatility(bars, { estimator: 'parkinson', annualize: true })
+      expect(annual[2]).toBeCloseTo(daily[2] * Math.sqrt(252), 10)
+      expect(estimateVolatility(bars, { estimator: 'parkinson', annualize: true, periodsPerYear: 365 })[2])
+        .toBeCloseTo(daily[2] * Math.sqrt(365), 10)
+    })
+  })
+
+  describe('symbol directory', () => {
+    it('should normalize and look up listings', () => {
+      expect(normalizeSymbol(' reliance.ns ')).toBe('RELIANCE.NS')
+      expect(getSymbolListing('brk-b')).toMatchObject({
+        exchange: 'NYSE',
+        currency: 'USD',
+        assetClass: 'equity',
+      })
+      expect(getSymbolListing('^NSEI')?.assetClass).toBe('index')
+    })
+
+    it('should rank exact, suffix-less and name matches', () => {
+      expect(searchSymbols('aapl')[0].symbol).toBe('AAPL')
+      expect(searchSymbols('reliance').slice(0, 2).map(r => r.symbol)).toEqual(['RELIANCE.NS', 'RELIANCE.BO'])
+      expect(searchSymbols('bitcoin')[0].symbol).toBe('BTC-USD')
+      expect(searchSymbols('nifty').map(r => r.symbol)).toContain('^NSEI')
+    })
+
+    it('should tolerate a typo in the ticker', () => {
+      expect(searchSymbols('NVDIA').map(r => r.symbol)).toContain('NVDA')
+    })
+
+    it('should filter by exchange, currency and asset class', () => {
+      const results = searchSymbols('reliance', { exchange: 'nse' })
+      expect(results.map(r => r.symbol)).toEqual(['RELIANCE.NS'])
+      expect(searchSymbols('btc', { currency: 'eur' }).map(r => r.symbol)).toEqual(['BTC-EUR'])
+      expect(searchSymbols('s', { assetClass: 'etf', limit: 3 })).toHaveLength(3)
+      expect(searchSymbols('')).toEqual([])
+    })
+  })
+
+  describe('zonedDateTimeToUnix', () => {
+    it('should convert wall-clock times across DST', () => {
+      expect(zonedDateTimeToUnix('2024-01-10 09:30:00', 'America/New_York')).toBe(
+        Date.UTC(2024, 0, 10, 14, 30) / 1000
+      )
+      expect(zonedDateTimeToUnix('2024-07-10 09:30:00', 'America/New_York')).toBe(
+        Date.UTC(2024, 6, 10, 13, 30) / 1000
+      )
+      expect(zonedDateTimeToUnix('2024-07-10T15:00', 'Asia/Kolkata')).toBe(
+        Date.UTC(2024, 6, 10, 9, 30) / 1000
+      )
+      expect(zonedDateTimeToUnix('not a date', 'UTC')).toBeNaN()
+    })
+  })
+
+  describe('cache tags', () => {
+    it('should tag entries by action, symbol and source', () => {
+      expect(getCacheTags('dashboard', { symbols: ['aapl', 'AAPL'], sources: ['nasa', 'stock'] })).toEqual([
+        'dashboard',
+        'dashboard-data',
+        'symbol:AAPL',
+        'dashboard:AAPL',
+        'source:nasa',
+        'source:stock',
+      ])
+    })
+
+    it('should narrow refresh tags to the most specific target', () => {
+      expect(getRefreshTags({ action: 'storm', symbol: 'tsla' })).toEqual(['storm:TSLA'])
+      expect(getRefreshTags({ action: 'storm' })).toEqual(['storm'])
+      expect(getRefreshTags({ symbol: 'tsla', source: 'stock' })).toEqual(['symbol:TSLA', 'source:stock'])
+      expect(getRefreshTags({})).toEqual([...CACHED_ACTIONS])
+    })
   })
 })
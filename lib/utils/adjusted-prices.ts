@@ -0,0 +1,101 @@
+/**
+ * Split- and dividend-adjusted prices.
+ *
+ * Adjustment is backward: bars after the last corporate action keep their
+ * raw prices and earlier bars are scaled down, so a 4:1 split or an
+ * ex-dividend gap no longer shows up as a price move.
+ */
+
+import { StockQuote, CorporateAction } from '../api/types'
+
+/**
+ * Sets adjusted OHLC on a quote by scaling with a factor
+ */
+function withAdjustmentFactor(quote: StockQuote, factor: number): StockQuote {
+  return {
+    ...quote,
+    adjOpen: quote.open * factor,
+    adjHigh: quote.high * factor,
+    adjLow: quote.low * factor,
+    adjClose: quote.close * factor,
+  }
+}
+
+/**
+ * Sets adjusted OHLC from a provider's adjusted close (e.g., Yahoo adjclose),
+ * scaling open, high and low by the same factor
+ *
+ * @param quote - Raw quote
+ * @param adjClose - Adjusted close for the same bar
+ * @returns Quote with adjOpen/adjHigh/adjLow/adjClose set
+ */
+export function withAdjustedClose(quote: StockQuote, adjClose: number): StockQuote {
+  if (!(quote.close > 0) || !isFinite(adjClose)) {
+    return quote
+  }
+  return withAdjustmentFactor(quote, adjClose / quote.close)
+}
+
+/**
+ * Computes adjusted OHLC from splits and dividends.
+ * A split with ratio r divides earlier prices by r; a dividend of d scales
+ * earlier prices by 1 - d / close on the day before the ex-date.
+ *
+ * @param quotes - Raw quotes (any order)
+ * @param actions - Corporate actions for the same symbol
+ * @returns Quotes sorted by timestamp with adjusted OHLC set
+ */
+export function adjustForCorporateActions(
+  quotes: StockQuote[],
+  actions: CorporateAction[]
+): StockQuote[] {
+  const sorted = [...quotes].sort((a, b) => a.timestamp - b.timestamp)
+  const latestFirst = [...actions].sort((a, b) => b.timestamp - a.timestamp)
+  const adjusted: StockQuote[] = new Array(sorted.length)
+
+  let factor = 1
+  let next = 0
+
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const quote = sorted[i]
+    const date = new Date(quote.timestamp * 1000).toISOString().split('T')[0]
+
+    // Apply every action whose ex-date falls after this bar
+    while (next < latestFirst.length && latestFirst[next].date > date) {
+      const action = latestFirst[next]
+
+      if (action.type === 'split' && action.ratio && action.ratio > 0) {
+        factor /= action.ratio
+      } else if (action.type === 'dividend' && action.amount && quote.close > action.amount) {
+        factor *= 1 - action.amount / quote.close
+      }
+
+      next++
+    }
+
+    adjusted[i] = withAdjustmentFactor(quote, factor)
+  }
+
+  return adjusted
+}
+
+/**
+ * Replaces raw OHLC with adjusted prices where a quote has them, so every
+ * downstream metric (volatility, correlation, forecasts) uses adjusted data
+ *
+ * @param quotes - Quotes, possibly with adjusted fields
+ * @returns Quotes whose open/high/low/close are the adjusted values
+ */
+export function toAdjustedQuotes(quotes: StockQuote[]): StockQuote[] {
+  return quotes.map(quote =>
+    quote.adjClose == null
+      ? quote
+      : {
+          ...quote,
+          open: quote.adjOpen ?? quote.open,
+          high: quote.adjHigh ?? quote.high,
+          low: quote.adjLow ?? quote.low,
+          close: quote.adjClose,
+        }
+  )
+}
@@ -0,0 +1,116 @@
+/**
+ * Cache tags for the server actions' unstable_cache entries.
+ *
+ * Every entry is tagged with its action, each symbol it read and each data
+ * source it read, so a refresh can invalidate one action for one symbol,
+ * every action for a symbol, or everything built from one provider,
+ * without flushing the rest of the cache.
+ */
+
+import { normalizeSymbol } from './symbol-directory'
+
+/**
+ * Server actions with a cached variant
+ */
+export const CACHED_ACTIONS = [
+  'dashboard',
+  'analysis',
+  'comparison',
+  'forecast',
+  'insights',
+  'simulator',
+  'storm',
+] as const
+
+export type CachedAction = typeof CACHED_ACTIONS[number]
+
+/**
+ * Upstream data an action can be built from
+ */
+export type DataSource = 'nasa' | 'stock' | 'solar-indices'
+
+/**
+ * Symbols and sources a cache entry was built from
+ */
+export interface CacheTagOptions {
+  symbols?: string[]
+  sources?: DataSource[]
+}
+
+/**
+ * What to invalidate. Fields narrow each other where tags allow it:
+ * action and symbol together invalidate that action's entries for the
+ * symbol only; a source is invalidated in addition, across all actions.
+ * An empty target invalidates every action.
+ */
+export interface RefreshTarget {
+  action?: CachedAction
+  symbol?: string
+  source?: DataSource
+}
+
+/**
+ * Tag for every entry that read a symbol (e.g., "symbol:AAPL")
+ */
+export function symbolTag(symbol: string): string {
+  return `symbol:${normalizeSymbol(symbol)}`
+}
+
+/**
+ * Tag for every entry that read a data source (e.g., "source:nasa")
+ */
+export function sourceTag(source: DataSource): string {
+  return `source:${source}`
+}
+
+/**
+ * Tag for one action's entries for a symbol (e.g., "dashboard:AAPL")
+ */
+export function actionSymbolTag(action: CachedAction, symbol: string): string {
+  return `${action}:${normalizeSymbol(symbol)}`
+}
+
+/**
+ * Tags for one cache entry. The action and "<action>-data" tags are kept
+ * so existing revalidateTag('dashboard') calls still work.
+ *
+ * @param action - Action that owns the entry
+ * @param options - Symbols and sources the entry was built from
+ * @returns Tags to pass to unstable_cache
+ */
+export function getCacheTags(action: CachedAction, options: CacheTagOptions = {}): string[] {
+  const symbols = Array.from(new Set((options.symbols || []).map(normalizeSymbol))).filter(Boolean)
+  const sources = Array.from(new Set(options.sources || []))
+
+  return [
+    action,
+    `${action}-data`,
+    ...symbols.flatMap(symbol => [symbolTag(symbol), actionSymbolTag(action, symbol)]),
+    ...sources.map(sourceTag),
+  ]
+}
+
+/**
+ * Tags to revalidate for a refresh target
+ *
+ * @param target - Action, symbol and/or source to invalidate
+ * @returns Tags to pass to revalidateTag
+ */
+export function getRefreshTags(target: RefreshTarget = {}): string[] {
+  const tags: string[] = []
+  const symbol = target.symbol ? normalizeSymbol(target.symbol) : ''
+
+  if (target.action && symbol) {
+    tags.push(actionSymbolTag(target.action, symbol))
+  } else if (target.action) {
+    tags.push(target.action)
+  } else if (symbol) {
+    tags.push(symbolTag(symbol))
+  }
+
+  if (target.source) {
+    tags.push(sourceTag(target.source))
+  }
+
+  return tags.length > 0 ? tags : [...CACHED_ACTIONS]
+}
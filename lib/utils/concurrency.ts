@@ -0,0 +1,36 @@
+/**
+ * Maps items through an async function with at most `limit` calls in
+ * flight at once. Results keep the order of the input items.
+ * 
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Async mapper receiving the item and its index
+ * @returns Array of results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length)
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: workerCount }, () => worker()))
+
+  return results
+}
+
+/**
+ * Resolves after the given number of milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
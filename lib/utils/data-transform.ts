@@ -1,4 +1,17 @@
-import { FlareData, StockData, ComposedData } from '../api/types'
+import {
+  FlareData,
+  StockData,
+  ComposedData,
+  KpIndexData,
+  DailyFlareData,
+  FlareAggregate,
+  FlareAlignment,
+  SolarIndexData,
+} from '../api/types'
+import { fluxToIntensity, intensityToFlux } from './goes-flux'
+import { ExchangeCalendar } from './exchange-calendar'
+import { alignFlaresToTradingDays } from './flare-alignment'
+import { isLongDurationEvent } from './flare-timing'
 
 /**
  * Checks if a value is valid (not null, undefined, or NaN)
@@ -7,43 +20,144 @@ function isValidNumber(value: any): value is number {
   return typeof value === 'number' && !isNaN(value) && isFinite(value)
 }
 
+/**
+ * Options for mergeDatasets
+ */
+export interface MergeOptions {
+  kpData?: KpIndexData[]           // Daily max-Kp series from geomagnetic storms
+  flareAggregate?: FlareAggregate  // Daily aggregate feeding ComposedData.flare (default 'max')
+  solarIndices?: SolarIndexData[]  // Daily sunspot number and F10.7 flux
+  alignment?: FlareAlignment       // Flare-to-trading-day alignment (default 'strict')
+  maxGapDays?: number              // Maximum flare age for 'asof' alignment
+  calendar?: ExchangeCalendar      // Session closes for 'since-close' alignment
+}
+
+/**
+ * Aggregates every flare on each day into daily count, max, sum,
+ * flux-weighted energy, long-duration count and fluence. Flares with
+ * invalid intensity are skipped.
+ * 
+ * Energy is the log-scaled intensity of the summed peak flux, so one X2
+ * outweighs a dozen C1 flares while several M flares still add up.
+ * 
+ * @param flareData - Array of flare events with dates
+ * @returns Array of daily flare aggregates in chronological order
+ */
+export function aggregateFlaresByDay(flareData: FlareData[]): DailyFlareData[] {
+  if (!flareData || flareData.length === 0) {
+    return []
+  }
+
+  const dailyMap = new Map<string, DailyFlareData>()
+
+  for (const flare of flareData) {
+    if (
+      !flare ||
+      !flare.date ||
+      typeof flare.date !== 'string' ||
+      !isValidNumber(flare.flare)
+    ) {
+      continue
+    }
+
+    // Older records may not carry flux; derive it from the intensity
+    const flux = isValidNumber(flare.flux) ? flare.flux : intensityToFlux(flare.flare)
+    const day = dailyMap.get(flare.date)
+
+    if (!day) {
+      dailyMap.set(flare.date, {
+        date: flare.date,
+        count: 1,
+        max: flare.flare,
+        sum: flare.flare,
+        energy: 0,
+        maxFlux: flux,
+        totalFlux: flux,
+        peakClass: flare.class,
+        longDurationCount: isLongDurationEvent(flare) ? 1 : 0,
+        fluence: flare.fluence ?? 0,
+      })
+      continue
+    }
+
+    day.count++
+    day.sum += flare.flare
+    day.totalFlux += flux
+    day.longDurationCount += isLongDurationEvent(flare) ? 1 : 0
+    day.fluence += flare.fluence ?? 0
+
+    if (flare.flare > day.max) {
+      day.max = flare.flare
+      day.maxFlux = flux
+      day.peakClass = flare.class
+    }
+  }
+
+  const results = Array.from(dailyMap.values())
+  for (const day of results) {
+    day.energy = fluxToIntensity(day.totalFlux)
+  }
+
+  return results.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Selects the value of a daily aggregate that feeds ComposedData.flare
+ */
+function selectFlareAggregate(day: DailyFlareData, aggregate: FlareAggregate): number {
+  switch (aggregate) {
+    case 'count':
+      return day.count
+    case 'sum':
+      return day.sum
+    case 'energy':
+      return day.energy
+    case 'max':
+    default:
+      return day.max
+  }
+}
+
 /**
  * Merges NASA flare data and stock data by date, aligning time series data
  * to ensure accurate temporal relationships. Handles missing data gracefully.
  * 
+ * All flares on a day are aggregated (see aggregateFlaresByDay) and the
+ * selected aggregate becomes the row's flare value, so a quiet C1 early in
+ * the day cannot hide a later X2.
+ * 
+ * When a daily Kp series is supplied, each composed row also carries the
+ * day's max Kp index (left undefined on days without a storm reading).
+ * 
+ * Flares are matched to stock dates with the selected alignment; the
+ * default 'strict' match drops flares on weekends and holidays, the other
+ * strategies carry them onto a trading day first.
+ * 
  * @param flareData - Array of flare events with dates
  * @param stockData - Array of stock data with dates
+ * @param options - Optional Kp series, flare aggregate and alignment selection
  * @returns Array of composed data aligned by date in chronological order
  * 
  * Requirements: 4.1, 4.3, 4.5
  */
 export function mergeDatasets(
   flareData: FlareData[],
-  stockData: StockData[]
+  stockData: StockData[],
+  options?: MergeOptions
 ): ComposedData[] {
   // Handle empty or invalid inputs
   if (!flareData || !stockData || flareData.length === 0 || stockData.length === 0) {
     return []
   }
 
+  const aggregate = options?.flareAggregate || 'max'
+
   // Create maps for efficient lookup and prevent duplicates
-  const flareMap = new Map<string, FlareData>()
+  const flareMap = new Map<string, DailyFlareData>()
   const stockMap = new Map<string, StockData>()
 
-  // Populate maps, handling duplicates by keeping the first occurrence
+  // Populate stock map, handling duplicates by keeping the first occurrence
   // Also validate that required fields exist and are valid
-  for (const flare of flareData) {
-    if (
-      flare && 
-      flare.date && 
-      typeof flare.date === 'string' &&
-      isValidNumber(flare.flare) &&
-      !flareMap.has(flare.date)
-    ) {
-      flareMap.set(flare.date, flare)
-    }
-  }
-
   for (const stock of stockData) {
     if (
       stock && 
@@ -57,6 +171,26 @@ export function mergeDatasets(
     }
   }
 
+  // Re-date flares onto trading days with the selected alignment
+  const alignedFlares = alignFlaresToTradingDays(flareData, Array.from(stockMap.keys()), {
+    alignment: options?.alignment,
+    maxGapDays: options?.maxGapDays,
+    calendar: options?.calendar,
+  })
+
+  // Aggregate every valid flare per day
+  for (const day of aggregateFlaresByDay(alignedFlares)) {
+    flareMap.set(day.date, day)
+  }
+
+  // Only report flux for days where at least one flare carried a measured flux
+  const measuredFluxDates = new Set(
+    alignedFlares.filter(flare => isValidNumber(flare.flux)).map(flare => flare.date)
+  )
+
+  const kpMap = buildKpMap(options?.kpData)
+  const indexMap = buildSolarIndexMap(options?.solarIndices)
+
   // Find common dates (intersection)
   const commonDates = Array.from(flareMap.keys()).filter(date => 
     stockMap.has(date)
@@ -69,23 +203,191 @@ export function mergeDatasets(
   const composedData: ComposedData[] = []
   
   for (const date of commonDates) {
-    const flare = flareMap.get(date)!
+    const day = flareMap.get(date)!
     const stock = stockMap.get(date)!
+    const flare = selectFlareAggregate(day, aggregate)
 
     // Double-check values are still valid
     if (
-      isValidNumber(flare.flare) &&
+      isValidNumber(flare) &&
       isValidNumber(stock.volatility) &&
       isValidNumber(stock.volume)
     ) {
-      composedData.push({
+      const row: ComposedData = {
         date,
-        flare: flare.flare,
+        flare,
         volatility: stock.volatility,
-        trades: stock.volume
-      })
+        trades: stock.volume,
+        flareCount: day.count
+      }
+
+      // Energy rows carry the summed flux so flux and flare stay consistent
+      if (measuredFluxDates.has(date)) {
+        row.flux = aggregate === 'energy' ? day.totalFlux : day.maxFlux
+      }
+
+      // Timing is keyed by the aligned date like flareCount, so a weekend
+      // flare counts toward the session it was carried onto
+      if (day.longDurationCount > 0) {
+        row.longDurationCount = day.longDurationCount
+      }
+      if (day.fluence > 0) {
+        row.fluence = day.fluence
+      }
+
+      if (kpMap.has(date)) {
+        row.kp = kpMap.get(date)!
+      }
+
+      const indices = indexMap.get(date)
+      if (indices?.sunspotNumber !== undefined) {
+        row.sunspotNumber = indices.sunspotNumber
+      }
+      if (indices?.f107 !== undefined) {
+        row.f107 = indices.f107
+      }
+
+      composedData.push(row)
     }
   }
 
   return composedData
 }
+
+/**
+ * Merges a daily max-Kp series with stock data by date. Unlike mergeDatasets,
+ * this does not require a flare on the same day, so storm days are kept even
+ * when the flare feed is quiet.
+ * 
+ * @param kpData - Daily max-Kp series from geomagnetic storms
+ * @param stockData - Array of stock data with dates
+ * @returns Array of Kp/volatility rows for trading days with a Kp reading
+ */
+export function mergeKpWithStock(
+  kpData: KpIndexData[],
+  stockData: StockData[]
+): Array<{ date: string; kp: number; volatility: number; trades: number }> {
+  if (!kpData || !stockData || kpData.length === 0 || stockData.length === 0) {
+    return []
+  }
+
+  const kpMap = buildKpMap(kpData)
+  const seen = new Set<string>()
+  const rows: Array<{ date: string; kp: number; volatility: number; trades: number }> = []
+
+  for (const stock of stockData) {
+    if (
+      stock &&
+      stock.date &&
+      !seen.has(stock.date) &&
+      kpMap.has(stock.date) &&
+      isValidNumber(stock.volatility) &&
+      isValidNumber(stock.volume)
+    ) {
+      seen.add(stock.date)
+      rows.push({
+        date: stock.date,
+        kp: kpMap.get(stock.date)!,
+        volatility: stock.volatility,
+        trades: stock.volume,
+      })
+    }
+  }
+
+  return rows.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Merges daily solar indices with stock data by date. Like mergeKpWithStock,
+ * every trading day with an index reading is kept whether or not a flare
+ * occurred, since sunspot number and F10.7 are continuous daily series.
+ * 
+ * @param solarIndices - Daily sunspot number and F10.7 flux
+ * @param stockData - Array of stock data with dates
+ * @returns Array of index/volatility rows for trading days with an index reading
+ */
+export function mergeSolarIndicesWithStock(
+  solarIndices: SolarIndexData[],
+  stockData: StockData[]
+): Array<SolarIndexData & { volatility: number; trades: number }> {
+  if (!solarIndices || !stockData || solarIndices.length === 0 || stockData.length === 0) {
+    return []
+  }
+
+  const indexMap = buildSolarIndexMap(solarIndices)
+  const seen = new Set<string>()
+  const rows: Array<SolarIndexData & { volatility: number; trades: number }> = []
+
+  for (const stock of stockData) {
+    if (
+      stock &&
+      stock.date &&
+      !seen.has(stock.date) &&
+      indexMap.has(stock.date) &&
+      isValidNumber(stock.volatility) &&
+      isValidNumber(stock.volume)
+    ) {
+      seen.add(stock.date)
+      rows.push({
+        ...indexMap.get(stock.date)!,
+        date: stock.date,
+        volatility: stock.volatility,
+        trades: stock.volume,
+      })
+    }
+  }
+
+  return rows.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Builds a date -> solar indices lookup, keeping only valid values
+ */
+function buildSolarIndexMap(solarIndices?: SolarIndexData[]): Map<string, SolarIndexData> {
+  const indexMap = new Map<string, SolarIndexData>()
+
+  if (!solarIndices) {
+    return indexMap
+  }
+
+  for (const entry of solarIndices) {
+    if (!entry || !entry.date || typeof entry.date !== 'string') continue
+
+    const merged: SolarIndexData = { ...indexMap.get(entry.date), date: entry.date }
+    if (isValidNumber(entry.sunspotNumber)) merged.sunspotNumber = entry.sunspotNumber
+    if (isValidNumber(entry.f107)) merged.f107 = entry.f107
+
+    if (merged.sunspotNumber !== undefined || merged.f107 !== undefined) {
+      indexMap.set(entry.date, merged)
+    }
+  }
+
+  return indexMap
+}
+
+/**
+ * Builds a date -> max Kp lookup, keeping the highest valid reading per date
+ */
+function buildKpMap(kpData?: KpIndexData[]): Map<string, number> {
+  const kpMap = new Map<string, number>()
+
+  if (!kpData) {
+    return kpMap
+  }
+
+  for (const reading of kpData) {
+    if (
+      reading &&
+      reading.date &&
+      typeof reading.date === 'string' &&
+      isValidNumber(reading.kp)
+    ) {
+      const existing = kpMap.get(reading.date)
+      if (existing === undefined || reading.kp > existing) {
+        kpMap.set(reading.date, reading.kp)
+      }
+    }
+  }
+
+  return kpMap
+}
@@ -0,0 +1,203 @@
+/**
+ * Date range utilities: resolving relative ranges into explicit dates,
+ * splitting long YYYY-MM-DD ranges into bounded chunks for upstream APIs
+ * and tracking which ranges are already covered.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Inclusive date range in YYYY-MM-DD format
+ */
+export interface DateRange {
+  startDate: string
+  endDate: string
+}
+
+/**
+ * Parses a YYYY-MM-DD string as a UTC midnight timestamp
+ */
+function parseISODate(date: string): number {
+  const time = Date.parse(`${date}T00:00:00Z`)
+  if (isNaN(time)) {
+    throw new Error(`Invalid date: ${date}`)
+  }
+  return time
+}
+
+/**
+ * Formats a UTC timestamp as YYYY-MM-DD
+ */
+function formatISODate(time: number): string {
+  return new Date(time).toISOString().split('T')[0]
+}
+
+/**
+ * Splits an inclusive date range into consecutive, non-overlapping chunks
+ * of at most `chunkDays` days. The last chunk is truncated at `endDate`.
+ * 
+ * @param startDate - Start date in YYYY-MM-DD format
+ * @param endDate - End date in YYYY-MM-DD format (inclusive)
+ * @param chunkDays - Maximum number of days per chunk
+ * @returns Array of chunk ranges in chronological order, or [] if start > end
+ */
+export function splitDateRange(
+  startDate: string,
+  endDate: string,
+  chunkDays: number
+): DateRange[] {
+  const start = parseISODate(startDate)
+  const end = parseISODate(endDate)
+  const size = Math.max(1, Math.floor(chunkDays))
+
+  const chunks: DateRange[] = []
+
+  for (let chunkStart = start; chunkStart <= end; chunkStart += size * MS_PER_DAY) {
+    const chunkEnd = Math.min(chunkStart + (size - 1) * MS_PER_DAY, end)
+    chunks.push({
+      startDate: formatISODate(chunkStart),
+      endDate: formatISODate(chunkEnd),
+    })
+  }
+
+  return chunks
+}
+
+/**
+ * Relative range shorthand (e.g., "5d", "2wk", "1mo", "1y", "ytd", "max")
+ * or an explicit inclusive date range
+ */
+export type RangeInput = string | DateRange
+
+/**
+ * Resolves a relative range or explicit dates into an inclusive date range.
+ * Relative ranges end today (UTC) and count back from it.
+ * 
+ * @param range - Relative shorthand or explicit start/end dates
+ * @param now - Reference time for relative ranges, defaults to now
+ * @returns Inclusive date range in YYYY-MM-DD format
+ * @throws Error if the range is malformed or start is after end
+ */
+export function resolveDateRange(range: RangeInput, now: Date = new Date()): DateRange {
+  if (range && typeof range === 'object') {
+    const start = parseISODate(range.startDate)
+    const end = parseISODate(range.endDate)
+    if (start > end) {
+      throw new Error(`Start date ${range.startDate} is after end date ${range.endDate}`)
+    }
+    return { startDate: range.startDate, endDate: range.endDate }
+  }
+
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+  const endDate = formatISODate(today)
+  const shorthand = String(range || '').trim().toLowerCase()
+
+  if (shorthand === 'ytd') {
+    return { startDate: `${now.getUTCFullYear()}-01-01`, endDate }
+  }
+
+  if (shorthand === 'max') {
+    return { startDate: '1970-01-01', endDate }
+  }
+
+  const match = shorthand.match(/^(\d+)(d|wk|mo|y)$/)
+  if (!match) {
+    throw new Error(`Invalid range: ${range}`)
+  }
+
+  const amount = parseInt(match[1], 10)
+  const start = new Date(today)
+
+  switch (match[2]) {
+    case 'd':
+      start.setUTCDate(start.getUTCDate() - amount)
+      break
+    case 'wk':
+      start.setUTCDate(start.getUTCDate() - amount * 7)
+      break
+    case 'mo':
+      start.setUTCMonth(start.getUTCMonth() - amount)
+      break
+    case 'y':
+      start.setUTCFullYear(start.getUTCFullYear() - amount)
+      break
+  }
+
+  return { startDate: formatISODate(start.getTime()), endDate }
+}
+
+/**
+ * Converts an inclusive date range to Unix seconds, from the start of
+ * `startDate` to the end of `endDate` (UTC)
+ * 
+ * @param range - Inclusive date range
+ * @returns Start and end as Unix timestamps in seconds
+ */
+export function dateRangeToUnix(range: DateRange): { from: number; to: number } {
+  return {
+    from: Math.floor(parseISODate(range.startDate) / 1000),
+    to: Math.floor((parseISODate(range.endDate) + MS_PER_DAY) / 1000) - 1,
+  }
+}
+
+/**
+ * Sorts ranges and merges the ones that overlap or touch
+ * (2024-01-01..2024-01-05 and 2024-01-06..2024-01-09 become one range)
+ *
+ * @param ranges - Inclusive date ranges in any order
+ * @returns Disjoint ranges in chronological order
+ */
+export function mergeDateRanges(ranges: DateRange[]): DateRange[] {
+  const sorted = ranges
+    .map(range => ({ start: parseISODate(range.startDate), end: parseISODate(range.endDate) }))
+    .filter(range => range.start <= range.end)
+    .sort((a, b) => a.start - b.start)
+
+  const merged: Array<{ start: number; end: number }> = []
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end + MS_PER_DAY) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ ...range })
+    }
+  }
+
+  return merged.map(range => ({ startDate: formatISODate(range.start), endDate: formatISODate(range.end) }))
+}
+
+/**
+ * Parts of a range not covered by any of the given ranges
+ *
+ * @param range - Inclusive date range to check
+ * @param covered - Ranges already covered, in any order
+ * @returns Uncovered gaps in chronological order
+ */
+export function subtractDateRanges(range: DateRange, covered: DateRange[]): DateRange[] {
+  const end = parseISODate(range.endDate)
+  const gaps: DateRange[] = []
+  let cursor = parseISODate(range.startDate)
+
+  for (const block of mergeDateRanges(covered)) {
+    const blockStart = parseISODate(block.startDate)
+    const blockEnd = parseISODate(block.endDate)
+
+    if (blockEnd < cursor) {
+      continue
+    }
+    if (blockStart > end) {
+      break
+    }
+    if (blockStart > cursor) {
+      gaps.push({ startDate: formatISODate(cursor), endDate: formatISODate(blockStart - MS_PER_DAY) })
+    }
+    cursor = blockEnd + MS_PER_DAY
+  }
+
+  if (cursor <= end) {
+    gaps.push({ startDate: formatISODate(cursor), endDate: formatISODate(end) })
+  }
+
+  return gaps
+}
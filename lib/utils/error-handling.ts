@@ -9,6 +9,8 @@ import {
   ForecastData,
   StockQuote,
   NASAFlareEvent,
+  NASAGeomagneticStormEvent,
+  KpIndexData,
 } from '../api/types'
 
 /**
@@ -93,7 +95,11 @@ export function getEmptyDashboardData(): DashboardData {
       totalTrades: 0,
       correlation: 0,
       maxFlare: 0,
+      maxFlux: 0,
       maxVolatility: 0,
+      sunspotCorrelation: 0,
+      f107Correlation: 0,
+      volatilityEstimator: 'range-change',
     },
   }
 }
@@ -130,6 +136,22 @@ export function getEmptyNASAFlareEvents(): NASAFlareEvent[] {
   return []
 }
 
+/**
+ * Get empty NASA geomagnetic storm events array
+ * Used as fallback when NASA GST API fails
+ */
+export function getEmptyNASAGeomagneticStorms(): NASAGeomagneticStormEvent[] {
+  return []
+}
+
+/**
+ * Get empty Kp index data array
+ * Used as fallback when storm data is unavailable
+ */
+export function getEmptyKpIndexData(): KpIndexData[] {
+  return []
+}
+
 /**
  * Get empty composed data array
  * Used as fallback when data merging fails
@@ -165,7 +187,11 @@ export function getEmptyDashboardStats(): DashboardStats {
     totalTrades: 0,
     correlation: 0,
     maxFlare: 0,
+    maxFlux: 0,
     maxVolatility: 0,
+    sunspotCorrelation: 0,
+    f107Correlation: 0,
+    volatilityEstimator: 'range-change',
   }
 }
 
@@ -181,6 +207,7 @@ export function getEmptyForecastData(days: number = 7): ForecastData {
     confidence: 0,
     trend: 'stable',
     predictions: [],
+    volatilityEstimator: 'range-change',
   }
 }
 
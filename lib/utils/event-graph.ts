@@ -0,0 +1,283 @@
+/**
+ * Space-weather event graph built from DONKI linkedEvents.
+ *
+ * DONKI links related activities by activity ID, e.g. a flare
+ * ("2024-05-10T06:54:00-FLR-001") to the CME it launched, the CME to the
+ * interplanetary shock (IPS) it drove and the shock to the geomagnetic
+ * storm (GST) it triggered. Links are stored on both ends, so the graph is
+ * undirected and direction comes from the stage of each event type.
+ */
+
+import {
+  FlareData,
+  FlareImpact,
+  FlareLinkage,
+  NASACMEEvent,
+  NASAFlareEvent,
+  NASAGeomagneticStormEvent,
+  NASALinkedEvent,
+  SpaceWeatherEventNode,
+  SpaceWeatherEventType,
+} from '../api/types'
+
+/**
+ * Event types DONKI encodes in activity IDs
+ */
+const KNOWN_EVENT_TYPES: SpaceWeatherEventType[] = [
+  'FLR',
+  'CME',
+  'IPS',
+  'GST',
+  'SEP',
+  'MPC',
+  'RBE',
+  'HSS',
+]
+
+/**
+ * Position of each type on the Sun-to-Earth chain. Traversal only moves to
+ * a later stage so a flare never picks up a storm through an unrelated
+ * flare linked to the same CME.
+ */
+const CHAIN_STAGE: Partial<Record<SpaceWeatherEventType, number>> = {
+  FLR: 0,
+  CME: 1,
+  IPS: 2,
+  GST: 3,
+}
+
+/**
+ * Space-weather event graph with adjacency by activity ID
+ */
+export interface SpaceWeatherEventGraph {
+  nodes: Map<string, SpaceWeatherEventNode>
+  edges: Map<string, Set<string>>
+}
+
+/**
+ * Raw DONKI events used to build the graph
+ */
+export interface SpaceWeatherEvents {
+  flares?: GraphFlare[]
+  cmes?: NASACMEEvent[]
+  storms?: NASAGeomagneticStormEvent[]
+}
+
+/**
+ * The parts of a DONKI flare event the graph reads
+ */
+export type GraphFlare = Pick<NASAFlareEvent, 'flrID' | 'peakTime' | 'linkedEvents'>
+
+/**
+ * Turns stored flare records back into graph input. Flares without a DONKI
+ * ID (GOES fallback) cannot be linked and are left out.
+ *
+ * @param flares - Flare records, e.g. from the time-series store
+ * @returns Flares with their linked activity IDs
+ */
+export function toGraphFlares(flares: FlareData[]): GraphFlare[] {
+  return flares.flatMap(flare => flare.id
+    ? [{
+        flrID: flare.id,
+        peakTime: flare.peakTime,
+        linkedEvents: (flare.linkedEvents || []).map(activityID => ({ activityID })),
+      }]
+    : [])
+}
+
+/**
+ * Parses a DONKI activity ID into its event type and start time.
+ *
+ * @param activityID - Activity ID (e.g., "2024-05-10T16:36:00-CME-001")
+ * @returns Parsed node, or null if the ID is malformed
+ */
+export function parseActivityID(activityID: string): SpaceWeatherEventNode | null {
+  if (!activityID || typeof activityID !== 'string') {
+    return null
+  }
+
+  const match = activityID.trim().match(/^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})-([A-Z]+)-\d+$/)
+
+  if (!match) {
+    return null
+  }
+
+  const [, time, code] = match
+  const type = KNOWN_EVENT_TYPES.includes(code as SpaceWeatherEventType)
+    ? (code as SpaceWeatherEventType)
+    : 'UNKNOWN'
+
+  return { id: activityID.trim(), type, time: `${time}Z` }
+}
+
+/**
+ * Checks whether any WSA-Enlil run for a CME predicts an Earth impact
+ */
+function isEarthDirectedCME(event: NASACMEEvent): boolean {
+  return (event.cmeAnalyses ?? []).some(analysis =>
+    (analysis.enlilList ?? []).some(
+      run => run.isEarthGB === true || !!run.estimatedShockArrivalTime
+    )
+  )
+}
+
+/**
+ * Builds the event graph from raw DONKI events. Linked IDs that were not
+ * fetched (e.g., IPS events) still become nodes with their parsed type.
+ *
+ * @param events - Raw flare, CME and geomagnetic storm events
+ * @returns Event graph keyed by activity ID
+ */
+export function buildEventGraph(events: SpaceWeatherEvents): SpaceWeatherEventGraph {
+  const graph: SpaceWeatherEventGraph = {
+    nodes: new Map(),
+    edges: new Map(),
+  }
+
+  const addNode = (node: SpaceWeatherEventNode) => {
+    const existing = graph.nodes.get(node.id)
+    graph.nodes.set(node.id, { ...existing, ...node })
+    if (!graph.edges.has(node.id)) {
+      graph.edges.set(node.id, new Set())
+    }
+  }
+
+  const addLinks = (id: string, linkedEvents: NASALinkedEvent[] | null | undefined) => {
+    for (const linked of linkedEvents ?? []) {
+      const parsed = parseActivityID(linked?.activityID)
+      if (!parsed || parsed.id === id) {
+        continue
+      }
+
+      if (!graph.nodes.has(parsed.id)) {
+        addNode(parsed)
+      }
+
+      graph.edges.get(id)!.add(parsed.id)
+      graph.edges.get(parsed.id)!.add(id)
+    }
+  }
+
+  for (const flare of events.flares ?? []) {
+    if (!flare?.flrID) continue
+    addNode({ id: flare.flrID, type: 'FLR', time: flare.peakTime })
+    addLinks(flare.flrID, flare.linkedEvents)
+  }
+
+  for (const cme of events.cmes ?? []) {
+    if (!cme?.activityID) continue
+    addNode({
+      id: cme.activityID,
+      type: 'CME',
+      time: cme.startTime,
+      earthDirected: isEarthDirectedCME(cme),
+    })
+    addLinks(cme.activityID, cme.linkedEvents)
+  }
+
+  for (const storm of events.storms ?? []) {
+    if (!storm?.gstID) continue
+    const kpValues = (storm.allKpIndex ?? [])
+      .map(reading => Number(reading?.kpIndex))
+      .filter(kp => isFinite(kp))
+    addNode({
+      id: storm.gstID,
+      type: 'GST',
+      time: storm.startTime,
+      maxKp: kpValues.length > 0 ? Math.max(...kpValues) : undefined,
+    })
+    addLinks(storm.gstID, storm.linkedEvents)
+  }
+
+  return graph
+}
+
+/**
+ * Follows a flare down the FLR -> CME -> IPS -> GST chain. A CME counts as
+ * Earth-directed if Enlil predicts an Earth impact or if it is linked to a
+ * shock or storm that was observed.
+ *
+ * @param graph - Event graph from buildEventGraph
+ * @param flareId - DONKI flrID
+ * @returns Downstream CMEs, shocks and storms of the flare
+ */
+export function getFlareImpact(graph: SpaceWeatherEventGraph, flareId: string): FlareImpact {
+  const impact: FlareImpact = {
+    cmeIds: [],
+    earthDirectedCME: false,
+    shockIds: [],
+    stormIds: [],
+  }
+
+  if (!graph.nodes.has(flareId)) {
+    return impact
+  }
+
+  const visited = new Set<string>([flareId])
+  const queue: string[] = [flareId]
+
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    const stage = CHAIN_STAGE[graph.nodes.get(id)!.type] ?? -1
+
+    for (const nextId of graph.edges.get(id) ?? []) {
+      const next = graph.nodes.get(nextId)
+      const nextStage = next ? CHAIN_STAGE[next.type] : undefined
+      if (!next || visited.has(nextId) || nextStage === undefined || nextStage <= stage) {
+        continue
+      }
+
+      visited.add(nextId)
+      queue.push(nextId)
+
+      if (next.type === 'CME') {
+        impact.cmeIds.push(nextId)
+        if (next.earthDirected) impact.earthDirectedCME = true
+      } else if (next.type === 'IPS') {
+        impact.shockIds.push(nextId)
+      } else if (next.type === 'GST') {
+        impact.stormIds.push(nextId)
+        if (next.maxKp !== undefined) {
+          impact.maxKp = Math.max(impact.maxKp ?? 0, next.maxKp)
+        }
+      }
+    }
+  }
+
+  // A CME that reached Earth was Earth-directed whatever the model said
+  if (impact.cmeIds.length > 0 && (impact.shockIds.length > 0 || impact.stormIds.length > 0)) {
+    impact.earthDirectedCME = true
+  }
+
+  return impact
+}
+
+/**
+ * Keeps only flares whose event chain reached the requested linkage level.
+ * Flares without a DONKI ID cannot be traced and are dropped unless the
+ * linkage is 'all'.
+ *
+ * @param flareData - Transformed flare data (with `id` set)
+ * @param graph - Event graph from buildEventGraph
+ * @param linkage - 'all', 'earth-directed' (Earth-directed CME or storm) or 'storm'
+ * @returns Filtered flare data
+ */
+export function filterFlaresByLinkage(
+  flareData: FlareData[],
+  graph: SpaceWeatherEventGraph,
+  linkage: FlareLinkage = 'all'
+): FlareData[] {
+  if (linkage === 'all') {
+    return flareData
+  }
+
+  return flareData.filter(flare => {
+    if (!flare.id) return false
+
+    const impact = getFlareImpact(graph, flare.id)
+    if (linkage === 'storm') {
+      return impact.stormIds.length > 0
+    }
+    return impact.earthDirectedCME || impact.stormIds.length > 0
+  })
+}
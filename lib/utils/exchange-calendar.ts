@@ -0,0 +1,382 @@
+/**
+ * Exchange trading calendars: time zones, regular sessions, holidays and
+ * early closes for NYSE/NASDAQ, NSE and 24/7 crypto markets.
+ *
+ * US holidays follow the NYSE rules and are computed for any year. NSE
+ * holidays move with the lunar calendar and come from the published
+ * exchange circulars, so years without a list only close on weekends and
+ * log a warning the first time they are used.
+ */
+
+import { zonedDateTimeToUnix, getTimeZoneOffsetMinutes } from './timezone'
+import { logWarning } from './error-handling'
+
+export type ExchangeId = 'NYSE' | 'NASDAQ' | 'NSE' | 'CRYPTO'
+
+export interface ExchangeCalendar {
+  id: ExchangeId
+  name: string
+  timeZone: string             // IANA time zone of the session times
+  open: string                 // Regular session open, local HH:mm
+  close: string                // Regular session close, local HH:mm
+  earlyClose?: string          // Close on early-close days, local HH:mm
+  tradingWeekdays: number[]    // 0 = Sunday ... 6 = Saturday
+  holidays: (year: number) => string[]
+  earlyCloses: (year: number) => string[]
+  hasHolidayData?: (year: number) => boolean  // Omitted when holidays are computed for any year
+}
+
+/**
+ * A trading session as Unix seconds
+ */
+export interface TradingSession {
+  date: string   // Trading date, YYYY-MM-DD in exchange local time
+  open: number
+  close: number
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Crypto pairs use a quote-currency suffix (e.g., BTC-USD, ETH-USDT)
+ */
+const CRYPTO_SYMBOL_PATTERN = /^[A-Z0-9]+-(USD|USDT|USDC|EUR|GBP|BTC|ETH)$/
+
+/**
+ * NSE/BSE listings (RELIANCE.NS, TCS.BO) and Indian indices
+ */
+const NSE_SYMBOL_PATTERN = /(\.(NS|BO)$)|(^\^(NSEI|NSEBANK|BSESN|CNX[A-Z0-9]*|NIFTY[A-Z0-9]*)$)/
+
+/**
+ * NSE trading holidays (weekday closures) from the exchange circulars
+ */
+const NSE_HOLIDAYS: Record<number, string[]> = {
+  2024: [
+    '2024-01-22', '2024-01-26', '2024-03-08', '2024-03-25', '2024-03-29',
+    '2024-04-11', '2024-04-17', '2024-05-01', '2024-05-20', '2024-06-17',
+    '2024-07-17', '2024-08-15', '2024-10-02', '2024-11-01', '2024-11-15',
+    '2024-11-20', '2024-12-25',
+  ],
+  2025: [
+    '2025-02-26', '2025-03-14', '2025-03-31', '2025-04-10', '2025-04-14',
+    '2025-04-18', '2025-05-01', '2025-08-15', '2025-08-27', '2025-10-02',
+    '2025-10-21', '2025-10-22', '2025-11-05', '2025-12-25',
+  ],
+  2026: [
+    '2026-01-15', '2026-01-26', '2026-03-03', '2026-03-26', '2026-03-31',
+    '2026-04-03', '2026-04-14', '2026-05-01', '2026-05-28', '2026-06-26',
+    '2026-09-14', '2026-10-02', '2026-10-20', '2026-11-10', '2026-11-24',
+    '2026-12-25',
+  ],
+}
+
+/**
+ * One-off NYSE closures outside the regular holiday rules
+ */
+const NYSE_SPECIAL_CLOSURES = ['2012-10-29', '2012-10-30', '2018-12-05', '2025-01-09']
+
+function toISODate(time: number): string {
+  return new Date(time).toISOString().split('T')[0]
+}
+
+function utcDate(year: number, month: number, day: number): number {
+  return Date.UTC(year, month - 1, day)
+}
+
+function weekdayOf(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay()
+}
+
+/**
+ * The nth given weekday of a month (n = -1 for the last one)
+ */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+  if (n > 0) {
+    const first = new Date(utcDate(year, month, 1)).getUTCDay()
+    const day = 1 + ((weekday - first + 7) % 7) + (n - 1) * 7
+    return toISODate(utcDate(year, month, day))
+  }
+
+  const lastDay = new Date(utcDate(year, month + 1, 0))
+  const offset = (lastDay.getUTCDay() - weekday + 7) % 7
+  return toISODate(lastDay.getTime() - offset * MS_PER_DAY)
+}
+
+/**
+ * Easter Sunday (anonymous Gregorian algorithm)
+ */
+function easterSunday(year: number): number {
+  const a = year % 19
+  const b = Math.floor(year / 100)
+  const c = year % 100
+  const d = Math.floor(b / 4)
+  const e = b % 4
+  const f = Math.floor((b + 8) / 25)
+  const g = Math.floor((b - f + 1) / 3)
+  const h = (19 * a + b - d - g + 15) % 30
+  const i = Math.floor(c / 4)
+  const k = c % 4
+  const l = (32 + 2 * e + 2 * i - h - k) % 7
+  const m = Math.floor((a + 11 * h + 22 * l) / 451)
+  const month = Math.floor((h + l - 7 * m + 114) / 31)
+  const day = ((h + l - 7 * m + 114) % 31) + 1
+  return utcDate(year, month, day)
+}
+
+/**
+ * Fixed-date holiday moved off the weekend: Saturday to Friday, Sunday to Monday
+ */
+function observed(year: number, month: number, day: number): string {
+  const time = utcDate(year, month, day)
+  const weekday = new Date(time).getUTCDay()
+  if (weekday === 6) return toISODate(time - MS_PER_DAY)
+  if (weekday === 0) return toISODate(time + MS_PER_DAY)
+  return toISODate(time)
+}
+
+function nyseHolidays(year: number): string[] {
+  const holidays = [
+    nthWeekday(year, 1, 1, 3),                           // Martin Luther King Jr. Day
+    nthWeekday(year, 2, 1, 3),                           // Washington's Birthday
+    toISODate(easterSunday(year) - 2 * MS_PER_DAY),      // Good Friday
+    nthWeekday(year, 5, 1, -1),                          // Memorial Day
+    observed(year, 7, 4),                                // Independence Day
+    nthWeekday(year, 9, 1, 1),                           // Labor Day
+    nthWeekday(year, 11, 4, 4),                          // Thanksgiving Day
+    observed(year, 12, 25),                              // Christmas Day
+  ]
+
+  // New Year's Day on a Saturday is not moved back into the previous year
+  const newYear = toISODate(utcDate(year, 1, 1))
+  if (weekdayOf(newYear) !== 6) {
+    holidays.push(observed(year, 1, 1))
+  }
+
+  if (year >= 2022) {
+    holidays.push(observed(year, 6, 19))                 // Juneteenth
+  }
+
+  holidays.push(...NYSE_SPECIAL_CLOSURES.filter(date => date.startsWith(`${year}-`)))
+
+  return holidays.sort()
+}
+
+function nyseEarlyCloses(year: number): string[] {
+  const holidays = nyseHolidays(year)
+  const thanksgiving = new Date(`${nthWeekday(year, 11, 4, 4)}T00:00:00Z`).getTime()
+
+  // July 3 and Christmas Eve close early when they fall Monday to Thursday
+  const eves = [toISODate(utcDate(year, 7, 3)), toISODate(utcDate(year, 12, 24))].filter(date => {
+    const weekday = weekdayOf(date)
+    return weekday >= 1 && weekday <= 4 && !holidays.includes(date)
+  })
+
+  return [toISODate(thanksgiving + MS_PER_DAY), ...eves].sort()
+}
+
+const US_EQUITY_SESSION = {
+  timeZone: 'America/New_York',
+  open: '09:30',
+  close: '16:00',
+  earlyClose: '13:00',
+  tradingWeekdays: [1, 2, 3, 4, 5],
+  holidays: nyseHolidays,
+  earlyCloses: nyseEarlyCloses,
+}
+
+export const EXCHANGE_CALENDARS: Record<ExchangeId, ExchangeCalendar> = {
+  NYSE: { id: 'NYSE', name: 'New York Stock Exchange', ...US_EQUITY_SESSION },
+  NASDAQ: { id: 'NASDAQ', name: 'Nasdaq', ...US_EQUITY_SESSION },
+  NSE: {
+    id: 'NSE',
+    name: 'National Stock Exchange of India',
+    timeZone: 'Asia/Kolkata',
+    open: '09:15',
+    close: '15:30',
+    tradingWeekdays: [1, 2, 3, 4, 5],
+    holidays: year => NSE_HOLIDAYS[year] ?? [],
+    earlyCloses: () => [],
+    hasHolidayData: year => year in NSE_HOLIDAYS,
+  },
+  CRYPTO: {
+    id: 'CRYPTO',
+    name: 'Crypto (24/7)',
+    timeZone: 'UTC',
+    open: '00:00',
+    close: '24:00',
+    tradingWeekdays: [0, 1, 2, 3, 4, 5, 6],
+    holidays: () => [],
+    earlyCloses: () => [],
+  },
+}
+
+/**
+ * Checks whether a symbol looks like a crypto pair rather than an equity
+ * or index (e.g., "BTC-USD" vs "BRK-B")
+ */
+export function isCryptoSymbol(symbol: string): boolean {
+  return CRYPTO_SYMBOL_PATTERN.test((symbol || '').trim().toUpperCase())
+}
+
+/**
+ * Picks the exchange calendar for a symbol. Crypto pairs trade 24/7,
+ * .NS/.BO listings and Indian indices follow NSE, and everything else
+ * follows the US equity calendar.
+ *
+ * @param symbol - Stock, index or crypto symbol
+ * @returns Exchange calendar for the symbol
+ */
+export function getExchangeCalendar(symbol: string): ExchangeCalendar {
+  const normalized = (symbol || '').trim().toUpperCase()
+
+  if (isCryptoSymbol(normalized)) {
+    return EXCHANGE_CALENDARS.CRYPTO
+  }
+
+  if (NSE_SYMBOL_PATTERN.test(normalized)) {
+    return EXCHANGE_CALENDARS.NSE
+  }
+
+  return EXCHANGE_CALENDARS.NYSE
+}
+
+/**
+ * Converts a timestamp to the exchange's local trading date.
+ * Daily bars stamped at UTC midnight carry a date rather than a time
+ * (Alpha Vantage, Finnhub, CSV files), so they keep their UTC date.
+ *
+ * @param timestamp - Unix seconds
+ * @param calendar - Exchange calendar
+ * @param daily - Whether the timestamp belongs to a daily bar
+ * @returns Trading date in YYYY-MM-DD format
+ */
+export function getTradingDate(
+  timestamp: number,
+  calendar: ExchangeCalendar,
+  daily: boolean = false
+): string {
+  const instant = timestamp * 1000
+
+  if (daily && timestamp % 86400 === 0) {
+    return toISODate(instant)
+  }
+
+  return toISODate(instant + getTimeZoneOffsetMinutes(calendar.timeZone, instant) * 60000)
+}
+
+const holidayCache = new Map<string, Set<string>>()
+
+/**
+ * Holidays of a calendar year, computed once per exchange and year. A year
+ * without holiday data is warned about once and closes only on weekends.
+ */
+function getHolidaySet(calendar: ExchangeCalendar, year: number): Set<string> {
+  const key = `${calendar.id}:${year}`
+  let holidays = holidayCache.get(key)
+
+  if (!holidays) {
+    if (calendar.hasHolidayData && !calendar.hasHolidayData(year)) {
+      logWarning(`No ${calendar.id} holiday data for ${year}, treating every weekday as a trading day`, {
+        function: 'getHolidaySet',
+        exchange: calendar.id,
+        year,
+      })
+    }
+
+    holidays = new Set(calendar.holidays(year))
+    holidayCache.set(key, holidays)
+  }
+
+  return holidays
+}
+
+/**
+ * Checks whether the exchange holds a session on a date
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param calendar - Exchange calendar
+ */
+export function isTradingDay(date: string, calendar: ExchangeCalendar): boolean {
+  if (!calendar.tradingWeekdays.includes(weekdayOf(date))) {
+    return false
+  }
+
+  return !getHolidaySet(calendar, Number(date.slice(0, 4))).has(date)
+}
+
+/**
+ * Session open and close for a date, with early closes applied
+ *
+ * @param date - Date in YYYY-MM-DD format
+ * @param calendar - Exchange calendar
+ * @returns Session in Unix seconds, or null if the exchange is closed
+ */
+export function getTradingSession(date: string, calendar: ExchangeCalendar): TradingSession | null {
+  if (!isTradingDay(date, calendar)) {
+    return null
+  }
+
+  const early = calendar.earlyClose && calendar.earlyCloses(Number(date.slice(0, 4))).includes(date)
+  const close = early ? calendar.earlyClose! : calendar.close
+
+  return {
+    date,
+    open: zonedDateTimeToUnix(`${date} ${calendar.open}:00`, calendar.timeZone),
+    close: zonedDateTimeToUnix(`${date} ${close}:00`, calendar.timeZone),
+  }
+}
+
+function stepTradingDay(date: string, calendar: ExchangeCalendar, step: 1 | -1): string {
+  let time = new Date(`${date}T00:00:00Z`).getTime()
+
+  // Any calendar has a session within a few weeks
+  for (let i = 0; i < 30; i++) {
+    time += step * MS_PER_DAY
+    const candidate = toISODate(time)
+    if (isTradingDay(candidate, calendar)) {
+      return candidate
+    }
+  }
+
+  return toISODate(time)
+}
+
+/**
+ * First trading day strictly after a date
+ */
+export function nextTradingDay(date: string, calendar: ExchangeCalendar): string {
+  return stepTradingDay(date, calendar, 1)
+}
+
+/**
+ * Last trading day strictly before a date
+ */
+export function previousTradingDay(date: string, calendar: ExchangeCalendar): string {
+  return stepTradingDay(date, calendar, -1)
+}
+
+/**
+ * All trading days in an inclusive date range
+ *
+ * @param startDate - Start date in YYYY-MM-DD format
+ * @param endDate - End date in YYYY-MM-DD format
+ * @param calendar - Exchange calendar
+ * @returns Trading dates in ascending order
+ */
+export function getTradingDays(
+  startDate: string,
+  endDate: string,
+  calendar: ExchangeCalendar
+): string[] {
+  const days: string[] = []
+  const end = new Date(`${endDate}T00:00:00Z`).getTime()
+
+  for (let time = new Date(`${startDate}T00:00:00Z`).getTime(); time <= end; time += MS_PER_DAY) {
+    const date = toISODate(time)
+    if (isTradingDay(date, calendar)) {
+      days.push(date)
+    }
+  }
+
+  return days
+}
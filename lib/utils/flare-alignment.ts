@@ -0,0 +1,201 @@
+/**
+ * Flare-to-trading-day alignment.
+ *
+ * Flares happen every day but markets only trade on sessions, so a plain
+ * date join drops weekend and holiday flares. Each strategy re-dates flares
+ * onto trading dates before they are aggregated:
+ *
+ * - strict: keep flares whose date is a trading date, drop the rest
+ * - next-session: carry flares on non-trading dates forward to the next
+ *   trading date
+ * - since-close: every flare that peaked after the previous session's close
+ *   and before this session's close belongs to this session
+ * - asof: each trading date takes the most recent flare day on or before
+ *   it, up to a maximum gap in days
+ */
+
+import { FlareAlignment, FlareData } from '../api/types'
+import { ExchangeCalendar, getTradingDate, getTradingSession, previousTradingDay } from './exchange-calendar'
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+
+/**
+ * Default maximum gap for as-of joins; covers a weekend plus a holiday
+ */
+export const DEFAULT_ASOF_MAX_GAP_DAYS = 3
+
+export interface FlareAlignmentOptions {
+  alignment?: FlareAlignment
+  maxGapDays?: number           // As-of joins only
+  calendar?: ExchangeCalendar   // Session closes for since-close; UTC day ends without one
+}
+
+/**
+ * Flares to load for a range so its first session gets every flare the
+ * alignment carries onto it
+ */
+export interface FlareLookback {
+  startDate: string                          // First flare date to load
+  includes: (flare: FlareData) => boolean    // False for flares of an earlier session
+}
+
+/**
+ * Index of the first trading date strictly after a date, or -1
+ */
+function firstDateAfter(sortedDates: string[], date: string): number {
+  let low = 0
+  let high = sortedDates.length
+
+  while (low < high) {
+    const mid = (low + high) >> 1
+    if (sortedDates[mid] <= date) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+
+  return low < sortedDates.length ? low : -1
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / MS_PER_DAY)
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * MS_PER_DAY).toISOString().split('T')[0]
+}
+
+/**
+ * Trading date a flare belongs to when sessions end at their close
+ */
+function sessionDateSinceClose(
+  flare: FlareData,
+  tradingDates: Set<string>,
+  sortedDates: string[],
+  calendar?: ExchangeCalendar
+): string | null {
+  const peak = Date.parse(flare.peakTime)
+
+  if (!calendar || isNaN(peak)) {
+    return tradingDates.has(flare.date)
+      ? flare.date
+      : sortedDates[firstDateAfter(sortedDates, flare.date)] ?? null
+  }
+
+  const peakSeconds = Math.floor(peak / 1000)
+  const localDate = getTradingDate(peakSeconds, calendar)
+  const session = tradingDates.has(localDate) ? getTradingSession(localDate, calendar) : null
+
+  // Before the close counts for this session (including pre-market)
+  if (session && peakSeconds <= session.close) {
+    return localDate
+  }
+
+  return sortedDates[firstDateAfter(sortedDates, localDate)] ?? null
+}
+
+/**
+ * Reaches back before a range for flares that belong to its first session:
+ * next-session takes the days since the previous session, since-close the
+ * flares after the previous session's close and asof up to `maxGapDays`.
+ * Strict alignment, and next-session or since-close without a calendar,
+ * keep the range as is.
+ *
+ * @param startDate - First date of the range in YYYY-MM-DD format
+ * @param options - Strategy, as-of gap and exchange calendar
+ * @returns The date to load flares from and a filter for the loaded flares
+ */
+export function getFlareLookback(startDate: string, options: FlareAlignmentOptions = {}): FlareLookback {
+  const inRange = (flare: FlareData) => flare.date >= startDate
+  const calendar = options.calendar
+
+  switch (options.alignment) {
+    case 'next-session': {
+      if (!calendar) break
+      const lookbackStart = addDays(previousTradingDay(startDate, calendar), 1)
+      return { startDate: lookbackStart, includes: flare => flare.date >= lookbackStart }
+    }
+
+    case 'since-close': {
+      if (!calendar) break
+      const previous = previousTradingDay(startDate, calendar)
+      const close = getTradingSession(previous, calendar)?.close
+      return {
+        startDate: previous,
+        includes: flare => {
+          if (inRange(flare)) return true
+          const peak = Date.parse(flare.peakTime)
+          return isNaN(peak) || close === undefined ? flare.date > previous : Math.floor(peak / 1000) > close
+        },
+      }
+    }
+
+    case 'asof': {
+      const lookbackStart = addDays(startDate, -(options.maxGapDays ?? DEFAULT_ASOF_MAX_GAP_DAYS))
+      return { startDate: lookbackStart, includes: flare => flare.date >= lookbackStart }
+    }
+  }
+
+  return { startDate, includes: inRange }
+}
+
+/**
+ * Re-dates flares onto trading dates with the chosen strategy. The result
+ * can be aggregated per day like any flare list; as-of joins may copy one
+ * flare day onto several trading dates.
+ *
+ * @param flareData - Flares with UTC dates (and peak times for since-close)
+ * @param tradingDates - Dates with stock data
+ * @param options - Strategy, as-of gap and exchange calendar
+ * @returns Flares whose date is a trading date
+ */
+export function alignFlaresToTradingDays(
+  flareData: FlareData[],
+  tradingDates: string[],
+  options: FlareAlignmentOptions = {}
+): FlareData[] {
+  const alignment = options.alignment || 'strict'
+  const sortedDates = Array.from(new Set(tradingDates)).sort()
+  const dateSet = new Set(sortedDates)
+  const flares = (flareData || []).filter(flare => flare && typeof flare.date === 'string')
+
+  switch (alignment) {
+    case 'next-session':
+      return flares.flatMap(flare => {
+        const date = dateSet.has(flare.date)
+          ? flare.date
+          : sortedDates[firstDateAfter(sortedDates, flare.date)]
+        return date ? [{ ...flare, date }] : []
+      })
+
+    case 'since-close':
+      return flares.flatMap(flare => {
+        const date = sessionDateSinceClose(flare, dateSet, sortedDates, options.calendar)
+        return date ? [{ ...flare, date }] : []
+      })
+
+    case 'asof': {
+      const maxGap = options.maxGapDays ?? DEFAULT_ASOF_MAX_GAP_DAYS
+      const byDate = new Map<string, FlareData[]>()
+      for (const flare of flares) {
+        byDate.set(flare.date, [...(byDate.get(flare.date) ?? []), flare])
+      }
+      const flareDates = Array.from(byDate.keys()).sort()
+
+      return sortedDates.flatMap(date => {
+        // Latest flare day on or before the trading date
+        const next = firstDateAfter(flareDates, date)
+        const latest = flareDates[(next === -1 ? flareDates.length : next) - 1]
+        if (!latest || daysBetween(latest, date) > maxGap) {
+          return []
+        }
+        return byDate.get(latest)!.map(flare => ({ ...flare, date }))
+      })
+    }
+
+    case 'strict':
+    default:
+      return flares.filter(flare => dateSet.has(flare.date))
+  }
+}
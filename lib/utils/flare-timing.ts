@@ -0,0 +1,88 @@
+/**
+ * Flare timing and energy utilities.
+ *
+ * DONKI gives each flare a begin, peak and end time. From these we derive
+ * the impulsive rise, the gradual decay and an approximate fluence
+ * (time-integrated 1-8 Å X-ray flux) assuming a triangular light curve
+ * that rises linearly to the peak flux and decays linearly back.
+ */
+
+import { FlareData } from '../api/types'
+
+/**
+ * Flares lasting at least this many minutes count as long-duration events
+ * (LDEs), which are closely associated with CMEs
+ */
+export const LONG_DURATION_THRESHOLD_MINUTES = 60
+
+/**
+ * Timing metrics for a single flare
+ */
+export interface FlareTiming {
+  riseMinutes: number
+  decayMinutes?: number     // Unknown when DONKI has no end time
+  durationMinutes?: number
+  fluence?: number          // Approximate time-integrated flux in J/m²
+}
+
+function parseTime(value: string | null | undefined): number | null {
+  if (!value || typeof value !== 'string') {
+    return null
+  }
+
+  const time = Date.parse(value)
+  return isNaN(time) ? null : time
+}
+
+/**
+ * Computes rise time, decay time, duration and approximate fluence.
+ *
+ * @param beginTime - Flare begin time (ISO 8601)
+ * @param peakTime - Flare peak time (ISO 8601)
+ * @param endTime - Flare end time (ISO 8601), may be missing
+ * @param peakFlux - Peak X-ray flux in W/m², used for the fluence estimate
+ * @returns Timing metrics, or null if begin/peak are missing or out of order
+ */
+export function computeFlareTiming(
+  beginTime: string | null | undefined,
+  peakTime: string | null | undefined,
+  endTime: string | null | undefined,
+  peakFlux?: number
+): FlareTiming | null {
+  const begin = parseTime(beginTime)
+  const peak = parseTime(peakTime)
+
+  if (begin === null || peak === null || peak < begin) {
+    return null
+  }
+
+  const timing: FlareTiming = {
+    riseMinutes: (peak - begin) / 60000,
+  }
+
+  const end = parseTime(endTime)
+  if (end !== null && end >= peak) {
+    timing.decayMinutes = (end - peak) / 60000
+    timing.durationMinutes = (end - begin) / 60000
+
+    if (typeof peakFlux === 'number' && isFinite(peakFlux) && peakFlux > 0) {
+      // Area of a triangle with the peak flux as height and duration as base
+      timing.fluence = 0.5 * peakFlux * (end - begin) / 1000
+    }
+  }
+
+  return timing
+}
+
+/**
+ * Checks whether a flare is a long-duration event
+ *
+ * @param flare - Flare with timing metrics
+ * @returns True if the flare lasted at least LONG_DURATION_THRESHOLD_MINUTES
+ */
+export function isLongDurationEvent(flare: Pick<FlareData, 'durationMinutes'>): boolean {
+  return (
+    typeof flare.durationMinutes === 'number' &&
+    flare.durationMinutes >= LONG_DURATION_THRESHOLD_MINUTES
+  )
+}
@@ -0,0 +1,122 @@
+/**
+ * GOES X-ray flare classification utilities.
+ *
+ * A flare class is a letter giving the decade of the peak 1-8 Å X-ray flux
+ * and a magnitude multiplying that decade (e.g., "M2.5" = 2.5e-5 W/m²).
+ */
+
+/**
+ * Peak flux in W/m² for a magnitude of 1.0 in each GOES class
+ */
+export const GOES_CLASS_BASE_FLUX: Record<string, number> = {
+  A: 1e-8,
+  B: 1e-7,
+  C: 1e-6,
+  M: 1e-5,
+  X: 1e-4,
+}
+
+/**
+ * Reference flux for the log-scaled intensity. Chosen one decade below
+ * A1.0 so that A1.0 = 1, B1.0 = 2, C1.0 = 3, M1.0 = 4, X1.0 = 5 and X10 = 6.
+ */
+const INTENSITY_REFERENCE_FLUX = 1e-9
+
+/**
+ * Parsed GOES flare class
+ */
+export interface GOESFlareClass {
+  letter: string
+  magnitude: number
+  flux: number
+}
+
+/**
+ * Parses a GOES flare class string into its letter, magnitude and peak flux.
+ *
+ * @param classType - Flare class (e.g., "B7.1", "M2.5", "X1.0")
+ * @returns Parsed class with peak flux in W/m²
+ * @throws Error if the class string is malformed
+ */
+export function parseGOESClass(classType: string): GOESFlareClass {
+  if (!classType || typeof classType !== 'string') {
+    throw new Error('Invalid classType')
+  }
+
+  // Format: Letter followed by number (e.g., "M2.5")
+  const match = classType.trim().match(/^([ABCMX])(\d+\.?\d*)$/i)
+
+  if (!match) {
+    throw new Error(`Unable to parse flare class: ${classType}`)
+  }
+
+  const [, classLetter, magnitude] = match
+  const letter = classLetter.toUpperCase()
+  const numericMagnitude = parseFloat(magnitude)
+
+  if (isNaN(numericMagnitude) || numericMagnitude <= 0) {
+    throw new Error(`Invalid magnitude in flare class: ${classType}`)
+  }
+
+  return {
+    letter,
+    magnitude: numericMagnitude,
+    flux: numericMagnitude * GOES_CLASS_BASE_FLUX[letter],
+  }
+}
+
+/**
+ * Converts a peak flux in W/m² to the log-scaled flare intensity.
+ * Each GOES class spans exactly one unit, so C9.9 (≈3.996) sits just below
+ * M1.0 (4.0) instead of being scored the same.
+ *
+ * @param flux - Peak X-ray flux in W/m²
+ * @returns Log-scaled intensity, or 0 for non-positive/invalid flux
+ */
+export function fluxToIntensity(flux: number): number {
+  if (typeof flux !== 'number' || !isFinite(flux) || flux <= 0) {
+    return 0
+  }
+
+  return Math.max(0, Math.log10(flux / INTENSITY_REFERENCE_FLUX))
+}
+
+/**
+ * Converts a log-scaled flare intensity back to peak flux in W/m²
+ *
+ * @param intensity - Log-scaled intensity as produced by fluxToIntensity
+ * @returns Peak X-ray flux in W/m²
+ */
+export function intensityToFlux(intensity: number): number {
+  if (typeof intensity !== 'number' || !isFinite(intensity) || intensity <= 0) {
+    return 0
+  }
+
+  return INTENSITY_REFERENCE_FLUX * Math.pow(10, intensity)
+}
+
+/**
+ * Formats a peak flux in W/m² as a GOES class string (e.g., 2.5e-5 -> "M2.5").
+ * Fluxes above X9.9 keep the X letter (e.g., 2.8e-3 -> "X28.0").
+ *
+ * @param flux - Peak X-ray flux in W/m²
+ * @returns GOES class string, or "N/A" for non-positive/invalid flux
+ */
+export function fluxToClass(flux: number): string {
+  if (typeof flux !== 'number' || !isFinite(flux) || flux <= 0) {
+    return 'N/A'
+  }
+
+  const letters = ['A', 'B', 'C', 'M', 'X']
+  const decade = Math.floor(Math.log10(flux) + 1e-9)
+  let index = Math.min(Math.max(decade + 8, 0), letters.length - 1)
+  let mantissa = Math.round((flux / GOES_CLASS_BASE_FLUX[letters[index]]) * 10) / 10
+
+  // A flux just under a boundary rounds up into the next class (9.96e-6 -> "M1.0", not "C10.0")
+  if (mantissa >= 10 && index < letters.length - 1) {
+    index++
+    mantissa = Math.round((flux / GOES_CLASS_BASE_FLUX[letters[index]]) * 10) / 10
+  }
+
+  return `${letters[index]}${mantissa.toFixed(1)}`
+}
@@ -0,0 +1,95 @@
+/**
+ * Heliographic flare location utilities.
+ *
+ * DONKI reports flare positions as Stonyhurst heliographic coordinates in
+ * the form "N10W20": latitude north/south of the solar equator and
+ * longitude east/west of the central meridian as seen from Earth.
+ */
+
+import { FlareData, FlareLocationFilter } from '../api/types'
+
+/**
+ * Maximum angular distance from disk centre, in degrees, for a flare to
+ * count as near disk centre
+ */
+const DISK_CENTER_MAX_DISTANCE = 45
+
+/**
+ * Heliographic coordinates in degrees. Latitude is positive north,
+ * longitude is positive west of the central meridian.
+ */
+export interface HeliographicLocation {
+  latitude: number
+  longitude: number
+}
+
+/**
+ * Parses a DONKI source location into heliographic coordinates.
+ *
+ * @param sourceLocation - Location string (e.g., "N10W20", "S05E12")
+ * @returns Coordinates in degrees, or null if the location is missing or malformed
+ */
+export function parseSourceLocation(sourceLocation: string | null | undefined): HeliographicLocation | null {
+  if (!sourceLocation || typeof sourceLocation !== 'string') {
+    return null
+  }
+
+  const match = sourceLocation.trim().match(/^([NS])(\d{1,2})\s*([EW])(\d{1,3})$/i)
+
+  if (!match) {
+    return null
+  }
+
+  const [, latHemisphere, latDegrees, lonHemisphere, lonDegrees] = match
+  const latitude = parseInt(latDegrees, 10) * (latHemisphere.toUpperCase() === 'S' ? -1 : 1)
+  const longitude = parseInt(lonDegrees, 10) * (lonHemisphere.toUpperCase() === 'E' ? -1 : 1)
+
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null
+  }
+
+  return { latitude, longitude }
+}
+
+/**
+ * Angular distance of a location from the centre of the visible disk
+ *
+ * @param location - Heliographic coordinates in degrees
+ * @returns Distance in degrees (0 at disk centre, 90 at the limb)
+ */
+export function diskCenterDistance(location: HeliographicLocation): number {
+  const toRadians = Math.PI / 180
+  const cosDistance =
+    Math.cos(location.latitude * toRadians) * Math.cos(location.longitude * toRadians)
+
+  return Math.acos(Math.max(-1, Math.min(1, cosDistance))) / toRadians
+}
+
+/**
+ * Keeps only flares in the requested part of the solar disk. Flares without
+ * a parsed location are dropped unless the filter is 'all'.
+ *
+ * @param flareData - Transformed flare data (with latitude/longitude set)
+ * @param filter - 'all', 'disk-center' (within 45° of disk centre) or 'western' (W0-W90)
+ * @returns Filtered flare data
+ */
+export function filterFlaresByLocation(
+  flareData: FlareData[],
+  filter: FlareLocationFilter = 'all'
+): FlareData[] {
+  if (filter === 'all') {
+    return flareData
+  }
+
+  return flareData.filter(flare => {
+    if (flare.latitude === undefined || flare.longitude === undefined) {
+      return false
+    }
+
+    if (filter === 'western') {
+      return flare.longitude >= 0 && flare.longitude <= 90
+    }
+
+    return diskCenterDistance({ latitude: flare.latitude, longitude: flare.longitude }) <= DISK_CENTER_MAX_DISTANCE
+  })
+}
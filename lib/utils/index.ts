@@ -1,14 +1,154 @@
 // Data transformation utilities
-export { mergeDatasets } from './data-transform'
+export {
+  mergeDatasets,
+  mergeKpWithStock,
+  mergeSolarIndicesWithStock,
+  aggregateFlaresByDay,
+  type MergeOptions,
+} from './data-transform'
 
 // Statistical utilities
 export { 
   calculateAverage, 
   calculateMax, 
   calculateSum, 
-  categorizeIntensity 
+  categorizeIntensity,
+  categorizeStormLevel,
 } from './statistics'
 
+// GOES flare class utilities
+export {
+  GOES_CLASS_BASE_FLUX,
+  parseGOESClass,
+  fluxToIntensity,
+  intensityToFlux,
+  fluxToClass,
+  type GOESFlareClass,
+} from './goes-flux'
+
+// Space-weather event graph utilities
+export {
+  parseActivityID,
+  buildEventGraph,
+  getFlareImpact,
+  filterFlaresByLinkage,
+  toGraphFlares,
+  type GraphFlare,
+  type SpaceWeatherEventGraph,
+  type SpaceWeatherEvents,
+} from './event-graph'
+
+// Heliographic flare location utilities
+export {
+  parseSourceLocation,
+  diskCenterDistance,
+  filterFlaresByLocation,
+  type HeliographicLocation,
+} from './heliographic'
+
+// Flare timing utilities
+export {
+  LONG_DURATION_THRESHOLD_MINUTES,
+  computeFlareTiming,
+  isLongDurationEvent,
+  type FlareTiming,
+} from './flare-timing'
+
+// Solar activity index parsers
+export {
+  parseSILSOSunspots,
+  parseF107,
+  combineSolarIndices,
+} from './solar-indices'
+
+// Realized volatility utilities
+export {
+  realizedVolatility,
+  calculateRealizedVolatility,
+  type RealizedVolatilityPeriod,
+} from './realized-volatility'
+
+// Split/dividend price adjustment
+export {
+  withAdjustedClose,
+  adjustForCorporateActions,
+  toAdjustedQuotes,
+} from './adjusted-prices'
+
+// OHLCV CSV parsing
+export {
+  DEFAULT_OHLCV_COLUMNS,
+  parseCSVDate,
+  parseOHLCVCsv,
+  type CSVDateFormat,
+  type OHLCVColumnMapping,
+  type OHLCVParseOptions,
+} from './ohlcv-csv'
+
+// Exchange trading calendars
+export {
+  EXCHANGE_CALENDARS,
+  isCryptoSymbol,
+  getExchangeCalendar,
+  getTradingDate,
+  isTradingDay,
+  getTradingSession,
+  nextTradingDay,
+  previousTradingDay,
+  getTradingDays,
+  type ExchangeId,
+  type ExchangeCalendar,
+  type TradingSession,
+} from './exchange-calendar'
+
+// Flare-to-trading-day alignment
+export {
+  alignFlaresToTradingDays,
+  getFlareLookback,
+  DEFAULT_ASOF_MAX_GAP_DAYS,
+  type FlareAlignmentOptions,
+  type FlareLookback,
+} from './flare-alignment'
+
+// Volatility estimators
+export {
+  estimateVolatility,
+  DEFAULT_VOLATILITY_WINDOW,
+  TRADING_DAYS_PER_YEAR,
+  CALENDAR_DAYS_PER_YEAR,
+  type VolatilityOptions,
+} from './volatility-estimators'
+
+// Symbol directory
+export {
+  SYMBOL_DIRECTORY,
+  SYMBOL_PATTERN,
+  normalizeSymbol,
+  getSymbolListing,
+  searchSymbols,
+  type AssetClass,
+  type SymbolListing,
+  type SymbolSearchOptions,
+  type SymbolSearchResult,
+} from './symbol-directory'
+
+// Cache tags for the cached server actions
+export {
+  CACHED_ACTIONS,
+  symbolTag,
+  sourceTag,
+  actionSymbolTag,
+  getCacheTags,
+  getRefreshTags,
+  type CachedAction,
+  type DataSource,
+  type CacheTagOptions,
+  type RefreshTarget,
+} from './cache-tags'
+
+// Time zone utilities
+export { getTimeZoneOffsetMinutes, zonedDateTimeToUnix } from './timezone'
+
 // Correlation utilities
 export { calculateCorrelation } from './correlation'
 
@@ -22,6 +162,8 @@ export {
   getEmptyStockData,
   getEmptyStockQuotes,
   getEmptyNASAFlareEvents,
+  getEmptyNASAGeomagneticStorms,
+  getEmptyKpIndexData,
   getEmptyComposedData,
   getEmptyCorrelationData,
   getEmptyDistributionData,
@@ -0,0 +1,201 @@
+/**
+ * OHLCV CSV parsing for archived price files.
+ *
+ * Files have a header row; columns are matched to OHLCV fields by name
+ * (case-insensitive) through a configurable mapping, and dates are read
+ * with a configurable format. Dates without a time are taken as UTC
+ * midnight, like Alpha Vantage daily bars.
+ */
+
+import { StockQuote } from '../api/types'
+import { withAdjustedClose } from './adjusted-prices'
+
+/**
+ * Supported date formats for the date column
+ */
+export type CSVDateFormat =
+  | 'YYYY-MM-DD'   // ISO date, optionally followed by a time ("2024-01-02 15:30:00")
+  | 'YYYYMMDD'
+  | 'MM/DD/YYYY'
+  | 'DD/MM/YYYY'
+  | 'DD-MM-YYYY'
+  | 'unix'         // Seconds since epoch
+  | 'unix-ms'      // Milliseconds since epoch
+
+/**
+ * Header names of the OHLCV columns
+ */
+export interface OHLCVColumnMapping {
+  date: string
+  open: string
+  high: string
+  low: string
+  close: string
+  volume: string    // Optional in the file; missing volume is read as 0
+  adjClose: string  // Optional in the file; sets adjusted OHLC when present
+}
+
+export const DEFAULT_OHLCV_COLUMNS: OHLCVColumnMapping = {
+  date: 'Date',
+  open: 'Open',
+  high: 'High',
+  low: 'Low',
+  close: 'Close',
+  volume: 'Volume',
+  adjClose: 'Adj Close',
+}
+
+export interface OHLCVParseOptions {
+  columns?: Partial<OHLCVColumnMapping>
+  dateFormat?: CSVDateFormat
+  delimiter?: string
+}
+
+/**
+ * Splits one CSV line, honouring double-quoted fields
+ */
+function splitCSVLine(line: string, delimiter: string): string[] {
+  const fields: string[] = []
+  let current = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        quoted = !quoted
+      }
+    } else if (char === delimiter && !quoted) {
+      fields.push(current.trim())
+      current = ''
+    } else {
+      current += char
+    }
+  }
+
+  fields.push(current.trim())
+  return fields
+}
+
+/**
+ * Parses a date cell into Unix seconds
+ *
+ * @param value - Cell text
+ * @param format - Date format of the column
+ * @returns Unix timestamp in seconds, or NaN if the cell cannot be parsed
+ */
+export function parseCSVDate(value: string, format: CSVDateFormat = 'YYYY-MM-DD'): number {
+  const text = (value || '').trim()
+  let match: RegExpMatchArray | null
+
+  switch (format) {
+    case 'unix':
+      return /^\d+(\.\d+)?$/.test(text) ? Math.floor(Number(text)) : NaN
+    case 'unix-ms':
+      return /^\d+$/.test(text) ? Math.floor(Number(text) / 1000) : NaN
+    case 'YYYYMMDD':
+      match = text.match(/^(\d{4})(\d{2})(\d{2})$/)
+      return match ? toUnix(+match[1], +match[2], +match[3]) : NaN
+    case 'MM/DD/YYYY':
+      match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+      return match ? toUnix(+match[3], +match[1], +match[2]) : NaN
+    case 'DD/MM/YYYY':
+      match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+      return match ? toUnix(+match[3], +match[2], +match[1]) : NaN
+    case 'DD-MM-YYYY':
+      match = text.match(/^(\d{1,2})-(\d{1,2})-(\d{4})$/)
+      return match ? toUnix(+match[3], +match[2], +match[1]) : NaN
+    case 'YYYY-MM-DD':
+    default:
+      match = text.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?(?:Z)?$/)
+      return match
+        ? toUnix(+match[1], +match[2], +match[3], +(match[4] || 0), +(match[5] || 0), +(match[6] || 0))
+        : NaN
+  }
+}
+
+function toUnix(
+  year: number,
+  month: number,
+  day: number,
+  hour: number = 0,
+  minute: number = 0,
+  second: number = 0
+): number {
+  if (month < 1 || month > 12 || day < 1 || day > 31) {
+    return NaN
+  }
+  return Date.UTC(year, month - 1, day, hour, minute, second) / 1000
+}
+
+/**
+ * Parses an OHLCV CSV file into quotes sorted by timestamp.
+ * Rows with an unparseable date or price are skipped.
+ *
+ * @param text - CSV file contents including the header row
+ * @param options - Column mapping, date format and delimiter
+ * @returns Stock quotes in ascending time order
+ * @throws Error if the header lacks a mapped date, open, high, low or close column
+ */
+export function parseOHLCVCsv(text: string, options: OHLCVParseOptions = {}): StockQuote[] {
+  const columns = { ...DEFAULT_OHLCV_COLUMNS, ...options.columns }
+  const delimiter = options.delimiter || ','
+  const lines = (text || '').split(/\r?\n/).filter(line => line.trim() !== '')
+
+  if (lines.length === 0) {
+    return []
+  }
+
+  const header = splitCSVLine(lines[0], delimiter).map(name => name.toLowerCase())
+  const indexOf = (name: string) => header.indexOf(name.trim().toLowerCase())
+
+  const index = {
+    date: indexOf(columns.date),
+    open: indexOf(columns.open),
+    high: indexOf(columns.high),
+    low: indexOf(columns.low),
+    close: indexOf(columns.close),
+    volume: indexOf(columns.volume),
+    adjClose: indexOf(columns.adjClose),
+  }
+
+  for (const field of ['date', 'open', 'high', 'low', 'close'] as const) {
+    if (index[field] === -1) {
+      throw new Error(`CSV is missing the ${field} column "${columns[field]}"`)
+    }
+  }
+
+  const quotes: StockQuote[] = []
+
+  for (const line of lines.slice(1)) {
+    const cells = splitCSVLine(line, delimiter)
+    const timestamp = parseCSVDate(cells[index.date], options.dateFormat)
+    const open = parseFloat(cells[index.open])
+    const high = parseFloat(cells[index.high])
+    const low = parseFloat(cells[index.low])
+    const close = parseFloat(cells[index.close])
+    const volume = index.volume === -1 ? 0 : parseFloat(cells[index.volume])
+
+    if (![timestamp, open, high, low, close].every(isFinite)) {
+      continue
+    }
+
+    const quote: StockQuote = {
+      timestamp,
+      open,
+      high,
+      low,
+      close,
+      volume: isFinite(volume) ? volume : 0,
+    }
+
+    const adjClose = index.adjClose === -1 ? NaN : parseFloat(cells[index.adjClose])
+    quotes.push(isFinite(adjClose) ? withAdjustedClose(quote, adjClose) : quote)
+  }
+
+  return quotes.sort((a, b) => a.timestamp - b.timestamp)
+}
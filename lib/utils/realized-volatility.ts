@@ -0,0 +1,90 @@
+/**
+ * Realized volatility from intraday bars.
+ *
+ * Realized volatility over a period is the square root of the sum of
+ * squared log returns of the bars inside it, expressed as a percentage.
+ * The first bar contributes its open-to-close return so a period with a
+ * single bar still has a value.
+ */
+
+import { StockData, StockQuote } from '../api/types'
+import { getTimeZoneOffsetMinutes } from './timezone'
+
+/**
+ * Period that intraday bars are grouped into
+ */
+export type RealizedVolatilityPeriod = 'day' | 'hour'
+
+/**
+ * Computes realized volatility as a percentage from bars in time order
+ *
+ * @param bars - Intraday bars sorted by timestamp
+ * @returns Realized volatility in percent (not annualized)
+ */
+export function realizedVolatility(bars: StockQuote[]): number {
+  let sumSquares = 0
+
+  for (let i = 0; i < bars.length; i++) {
+    const previous = i === 0 ? bars[i].open : bars[i - 1].close
+    const current = bars[i].close
+
+    if (previous > 0 && current > 0) {
+      const logReturn = Math.log(current / previous)
+      sumSquares += logReturn * logReturn
+    }
+  }
+
+  return Math.sqrt(sumSquares) * 100
+}
+
+/**
+ * Groups intraday bars by day or hour in a time zone and computes realized
+ * volatility for each group. Daily rows can be merged with flare data like
+ * daily quotes; hourly rows share their date with other hours of the same
+ * day and are meant for intraday alignment against flare peak times.
+ *
+ * @param quotes - Intraday quotes (any order)
+ * @param period - 'day' or 'hour'
+ * @param timeZone - Time zone whose days and hours the bars are grouped by,
+ *   usually the exchange's, defaults to UTC
+ * @returns One StockData row per period, sorted by time
+ */
+export function calculateRealizedVolatility(
+  quotes: StockQuote[],
+  period: RealizedVolatilityPeriod = 'day',
+  timeZone: string = 'UTC'
+): StockData[] {
+  if (!quotes || quotes.length === 0) {
+    return []
+  }
+
+  const periodSeconds = period === 'hour' ? 3600 : 86400
+  const groups = new Map<number, StockQuote[]>()
+  const offsets = new Map<number, number>()
+
+  const sorted = quotes
+    .filter(quote => quote && isFinite(quote.timestamp) && quote.close > 0)
+    .sort((a, b) => a.timestamp - b.timestamp)
+
+  for (const quote of sorted) {
+    // Bucket on local wall-clock time, then shift the bucket start back to UTC
+    const offset = timeZone === 'UTC' ? 0 : getTimeZoneOffsetMinutes(timeZone, quote.timestamp * 1000) * 60
+    const start = Math.floor((quote.timestamp + offset) / periodSeconds) * periodSeconds - offset
+    const bars = groups.get(start) ?? []
+    bars.push(quote)
+    groups.set(start, bars)
+    offsets.set(start, offset)
+  }
+
+  return Array.from(groups.entries()).map(([start, bars]) => ({
+    date: new Date((start + (offsets.get(start) ?? 0)) * 1000).toISOString().split('T')[0],
+    timestamp: start,
+    close: bars[bars.length - 1].close,
+    volume: bars.reduce((sum, bar) => sum + (bar.volume || 0), 0),
+    volatility: realizedVolatility(bars),
+    high: Math.max(...bars.map(bar => bar.high)),
+    low: Math.min(...bars.map(bar => bar.low)),
+    open: bars[0].open,
+    bars: bars.length,
+  }))
+}
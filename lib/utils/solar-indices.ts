@@ -0,0 +1,163 @@
+/**
+ * Parsers for slow-moving solar activity indices.
+ *
+ * - SILSO daily total sunspot number (SN_d_tot_V2.0.csv / .txt): rows of
+ *   "year;month;day;decimal date;SN;std dev;observations;provisional",
+ *   semicolon-separated in the CSV and whitespace-separated in the text
+ *   file. A sunspot number of -1 marks a missing day.
+ * - F10.7 radio flux from the DRAO flux table (fluxtable.txt): columns
+ *   "fluxdate fluxtime fluxjulian fluxcarrington fluxobsflux fluxadjflux
+ *   fluxursi" with three measurements a day, or a plain CSV with a date
+ *   column and an f107/flux column.
+ */
+
+import { SolarIndexData } from '../api/types'
+
+/**
+ * DRAO measurement time used as the daily F10.7 value (local noon)
+ */
+const F107_REFERENCE_TIME = '200000'
+
+/**
+ * Checks if a value is valid (not null, undefined, or NaN)
+ */
+function isValidNumber(value: any): value is number {
+  return typeof value === 'number' && !isNaN(value) && isFinite(value)
+}
+
+function formatDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Parses SILSO daily total sunspot numbers from the CSV or text format.
+ * Missing days (-1) and lines that are not data rows are skipped.
+ *
+ * @param text - File contents
+ * @returns Daily sunspot numbers sorted by date
+ */
+export function parseSILSOSunspots(text: string): SolarIndexData[] {
+  const results = new Map<string, SolarIndexData>()
+
+  for (const line of (text || '').split(/\r?\n/)) {
+    const fields = line.trim().split(/[;\s]+/)
+    if (fields.length < 5) continue
+
+    const [year, month, day] = fields.slice(0, 3).map(field => parseInt(field, 10))
+    const sunspotNumber = parseFloat(fields[4])
+
+    if (
+      !isValidNumber(year) ||
+      !isValidNumber(month) ||
+      !isValidNumber(day) ||
+      month < 1 ||
+      month > 12 ||
+      day < 1 ||
+      day > 31 ||
+      !isValidNumber(sunspotNumber) ||
+      sunspotNumber < 0
+    ) {
+      continue
+    }
+
+    const date = formatDate(year, month, day)
+    results.set(date, { date, sunspotNumber })
+  }
+
+  return Array.from(results.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Parses daily F10.7 radio flux from the DRAO flux table or a CSV with a
+ * header row. Flux table days use the 20:00 UT measurement when present and
+ * the mean of the day's measurements otherwise.
+ *
+ * @param text - File contents
+ * @returns Daily F10.7 flux sorted by date
+ */
+export function parseF107(text: string): SolarIndexData[] {
+  const lines = (text || '').split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+
+  if (lines.length === 0) {
+    return []
+  }
+
+  return lines[0].toLowerCase().startsWith('fluxdate')
+    ? parseF107FluxTable(lines)
+    : parseF107CSV(lines)
+}
+
+function parseF107FluxTable(lines: string[]): SolarIndexData[] {
+  const byDate = new Map<string, { reference?: number; values: number[] }>()
+
+  for (const line of lines) {
+    const fields = line.split(/\s+/)
+    if (fields.length < 5 || !/^\d{8}$/.test(fields[0])) continue
+
+    const flux = parseFloat(fields[4])
+    if (!isValidNumber(flux) || flux <= 0) continue
+
+    const date = `${fields[0].slice(0, 4)}-${fields[0].slice(4, 6)}-${fields[0].slice(6, 8)}`
+    const day = byDate.get(date) ?? { values: [] }
+    day.values.push(flux)
+    if (fields[1] === F107_REFERENCE_TIME) {
+      day.reference = flux
+    }
+    byDate.set(date, day)
+  }
+
+  return Array.from(byDate.entries())
+    .map(([date, day]) => ({
+      date,
+      f107: day.reference ?? day.values.reduce((sum, value) => sum + value, 0) / day.values.length,
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date))
+}
+
+function parseF107CSV(lines: string[]): SolarIndexData[] {
+  const separator = lines[0].includes(';') ? ';' : ','
+  const header = lines[0].split(separator).map(column => column.trim().toLowerCase())
+  const dateIndex = header.findIndex(column => column === 'date' || column === 'time_tag')
+  const fluxIndex = header.findIndex(column =>
+    ['f107', 'f10.7', 'flux', 'obsflux', 'observed_flux'].includes(column)
+  )
+
+  if (dateIndex === -1 || fluxIndex === -1) {
+    return []
+  }
+
+  const results = new Map<string, SolarIndexData>()
+
+  for (const line of lines.slice(1)) {
+    const fields = line.split(separator).map(field => field.trim())
+    const date = (fields[dateIndex] || '').slice(0, 10)
+    const flux = parseFloat(fields[fluxIndex])
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !isValidNumber(flux) || flux <= 0) continue
+
+    results.set(date, { date, f107: flux })
+  }
+
+  return Array.from(results.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/**
+ * Combines sunspot and F10.7 series into one daily series keyed by date
+ *
+ * @param sunspots - Daily sunspot numbers
+ * @param f107 - Daily F10.7 flux
+ * @returns Daily solar indices sorted by date
+ */
+export function combineSolarIndices(
+  sunspots: SolarIndexData[],
+  f107: SolarIndexData[]
+): SolarIndexData[] {
+  const byDate = new Map<string, SolarIndexData>()
+
+  for (const entry of [...sunspots, ...f107]) {
+    if (!entry?.date) continue
+    byDate.set(entry.date, { ...byDate.get(entry.date), ...entry })
+  }
+
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date))
+}
@@ -86,11 +86,11 @@ export function calculateSum(values: number[]): number {
  * Categorizes a flare intensity value into a distribution range.
  * Every value maps to exactly one category.
  * 
- * Ranges:
- * - Low: 0 <= value < 2
- * - Medium: 2 <= value < 4
- * - High: 4 <= value < 6
- * - Extreme: value >= 6
+ * Ranges (log-scaled GOES intensity, see goes-flux.ts):
+ * - Low: 0 <= value < 2 (A class)
+ * - Medium: 2 <= value < 4 (B and C class)
+ * - High: 4 <= value < 6 (M class up to X9.9)
+ * - Extreme: value >= 6 (X10 and above)
  * 
  * @param intensity - Flare intensity value
  * @returns Category string: "Low", "Medium", "High", or "Extreme"
@@ -113,3 +113,37 @@ export function categorizeIntensity(intensity: number): string {
     return 'Extreme'
   }
 }
+
+/**
+ * Categorizes a Kp index value into a NOAA geomagnetic storm level.
+ * Every value maps to exactly one level.
+ * 
+ * Levels:
+ * - None: value < 5
+ * - G1 (Minor): 5 <= value < 6
+ * - G2 (Moderate): 6 <= value < 7
+ * - G3 (Strong): 7 <= value < 8
+ * - G4 (Severe): 8 <= value < 9
+ * - G5 (Extreme): value >= 9
+ * 
+ * @param kp - Kp index value (0-9)
+ * @returns Storm level string: "None", "G1", "G2", "G3", "G4", or "G5"
+ */
+export function categorizeStormLevel(kp: number): string {
+  // Handle invalid values by treating them as no storm
+  if (!isValidNumber(kp) || kp < 5) {
+    return 'None'
+  }
+
+  if (kp < 6) {
+    return 'G1'
+  } else if (kp < 7) {
+    return 'G2'
+  } else if (kp < 8) {
+    return 'G3'
+  } else if (kp < 9) {
+    return 'G4'
+  } else {
+    return 'G5'
+  }
+}
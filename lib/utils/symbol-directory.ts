@@ -0,0 +1,159 @@
+/**
+ * Symbol directory backed by the bundled listing file (lib/data/symbols.json).
+ *
+ * Listings carry exchange, currency and asset class so the UI can describe
+ * symbols it has never fetched. Search is fuzzy: exact and prefix symbol
+ * matches rank first, then name word prefixes, substrings, in-order
+ * character matches and one-typo symbol matches.
+ */
+
+import listings from '../data/symbols.json'
+
+export type AssetClass = 'equity' | 'etf' | 'index' | 'crypto' | 'fx' | 'commodity'
+
+export interface SymbolListing {
+  symbol: string      // Yahoo-style ticker (e.g., RELIANCE.NS, BRK-B, GC=F)
+  name: string
+  exchange: string
+  currency: string    // ISO 4217 quote currency
+  assetClass: AssetClass
+}
+
+export interface SymbolSearchOptions {
+  limit?: number            // Maximum results, defaults to 10
+  assetClass?: AssetClass
+  exchange?: string
+  currency?: string
+}
+
+export interface SymbolSearchResult extends SymbolListing {
+  score: number  // Higher is a better match
+}
+
+export const SYMBOL_DIRECTORY: SymbolListing[] = listings as SymbolListing[]
+
+/**
+ * Ticker format accepted by StockClient.validateStockSymbol
+ */
+export const SYMBOL_PATTERN = /^[A-Z0-9^.=\-]{1,20}$/
+
+const bySymbol = new Map(SYMBOL_DIRECTORY.map(listing => [listing.symbol, listing]))
+
+/**
+ * Normalizes user input to a ticker: trims whitespace and upper-cases
+ *
+ * @param symbol - Raw symbol text (e.g., " reliance.ns ")
+ * @returns Normalized symbol (e.g., "RELIANCE.NS")
+ */
+export function normalizeSymbol(symbol: string): string {
+  return (symbol || '').trim().toUpperCase()
+}
+
+/**
+ * Looks up a listing by symbol (case-insensitive)
+ */
+export function getSymbolListing(symbol: string): SymbolListing | undefined {
+  return bySymbol.get(normalizeSymbol(symbol))
+}
+
+/**
+ * Ticker without its exchange suffix or quote currency
+ * (RELIANCE.NS → RELIANCE, BTC-USD → BTC, GC=F → GC)
+ */
+function baseSymbol(symbol: string): string {
+  return symbol.replace(/^\^/, '').split(/[.=]/)[0].replace(/-(USD|USDT|USDC|EUR|GBP|BTC|ETH)$/, '')
+}
+
+/**
+ * True when every character of the query appears in order in the text
+ */
+function isSubsequence(query: string, text: string): boolean {
+  let i = 0
+  for (let j = 0; j < text.length && i < query.length; j++) {
+    if (text[j] === query[i]) {
+      i++
+    }
+  }
+  return i === query.length
+}
+
+/**
+ * True when the strings differ by at most one insertion, deletion or substitution
+ */
+function isOneEditAway(a: string, b: string): boolean {
+  if (Math.abs(a.length - b.length) > 1) {
+    return false
+  }
+
+  let i = 0
+  let j = 0
+  let edits = 0
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      i++
+      j++
+      continue
+    }
+    if (++edits > 1) {
+      return false
+    }
+    if (a.length > b.length) {
+      i++
+    } else if (a.length < b.length) {
+      j++
+    } else {
+      i++
+      j++
+    }
+  }
+
+  return edits + (a.length - i) + (b.length - j) <= 1
+}
+
+function scoreListing(listing: SymbolListing, query: string): number {
+  const symbol = listing.symbol
+  const base = baseSymbol(symbol)
+  const bare = query.replace(/^\^/, '')
+  const name = listing.name.toUpperCase()
+
+  if (symbol === query) return 100
+  if (base === bare) return 90
+  if (symbol.startsWith(query) || base.startsWith(bare)) return 80 - Math.min(10, symbol.length - query.length)
+  if (name.split(/[\s.,&/-]+/).some(word => word.startsWith(query))) return 60
+  if (symbol.includes(bare)) return 50
+  if (name.includes(query)) return 40
+  if (bare.length >= 3 && isOneEditAway(base, bare)) return 30
+  if (isSubsequence(bare, symbol)) return 20
+  if (query.length >= 3 && isSubsequence(query, name)) return 10
+  return 0
+}
+
+/**
+ * Fuzzy-searches the symbol directory by ticker and company name
+ *
+ * @param query - Search text (case-insensitive)
+ * @param options - Result limit and exchange/currency/asset-class filters
+ * @returns Matching listings, best match first
+ */
+export function searchSymbols(query: string, options: SymbolSearchOptions = {}): SymbolSearchResult[] {
+  const normalized = normalizeSymbol(query)
+  if (!normalized) {
+    return []
+  }
+
+  const exchange = options.exchange?.toUpperCase()
+  const currency = options.currency?.toUpperCase()
+
+  return SYMBOL_DIRECTORY
+    .filter(listing =>
+      (!options.assetClass || listing.assetClass === options.assetClass) &&
+      (!exchange || listing.exchange.toUpperCase() === exchange) &&
+      (!currency || listing.currency === currency)
+    )
+    .map(listing => ({ ...listing, score: scoreListing(listing, normalized) }))
+    .filter(result => result.score > 0)
+    // Ties keep directory order, which lists the primary listing first
+    .sort((a, b) => b.score - a.score || a.symbol.length - b.symbol.length)
+    .slice(0, options.limit ?? 10)
+}
@@ -0,0 +1,61 @@
+/**
+ * Time zone helpers built on Intl, without a time zone database dependency.
+ */
+
+/**
+ * Offset of a time zone from UTC at a given instant, in minutes
+ *
+ * @param timeZone - IANA time zone (e.g., "America/New_York")
+ * @param instant - UTC milliseconds
+ * @returns Offset in minutes (e.g., -240 for EDT)
+ */
+export function getTimeZoneOffsetMinutes(timeZone: string, instant: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant))
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value)
+  const asUTC = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second')
+  )
+
+  return Math.round((asUTC - Math.floor(instant / 1000) * 1000) / 60000)
+}
+
+/**
+ * Converts a wall-clock date/time in a time zone to Unix seconds
+ *
+ * @param localDateTime - "YYYY-MM-DD HH:mm:ss" or "YYYY-MM-DDTHH:mm[:ss]"
+ * @param timeZone - IANA time zone (e.g., "US/Eastern")
+ * @returns Unix timestamp in seconds, or NaN if the input cannot be parsed
+ */
+export function zonedDateTimeToUnix(localDateTime: string, timeZone: string): number {
+  const match = (localDateTime || '')
+    .trim()
+    .match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/)
+
+  if (!match) {
+    return NaN
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match
+  const wallClockAsUTC = Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)
+
+  // Apply the offset twice so times next to a DST change land on the right side
+  let instant = wallClockAsUTC - getTimeZoneOffsetMinutes(timeZone, wallClockAsUTC) * 60000
+  instant = wallClockAsUTC - getTimeZoneOffsetMinutes(timeZone, instant) * 60000
+
+  return Math.floor(instant / 1000)
+}
@@ -0,0 +1,166 @@
+/**
+ * Daily volatility estimators.
+ *
+ * Every estimator except 'range-change' works on a rolling window of bars
+ * and returns one value per bar in percent of price. Until the window
+ * fills, each bar uses the bars seen so far; a bar with too little history
+ * (e.g., the first bar for return-based estimators) gets 0.
+ *
+ * - range-change: max(high-low range %, |close-to-close change| %) per bar
+ * - close-to-close: sample standard deviation of log returns
+ * - parkinson: high-low range estimator
+ * - garman-klass: open-high-low-close estimator
+ * - rogers-satchell: drift-independent OHLC estimator
+ * - yang-zhang: overnight, open-to-close and Rogers-Satchell combined
+ * - atr: average true range as a percentage of the close
+ */
+
+import { StockQuote, VolatilityEstimator } from '../api/types'
+
+/**
+ * Default rolling window, about one trading month
+ */
+export const DEFAULT_VOLATILITY_WINDOW = 20
+
+/**
+ * Bars per year used for annualization
+ */
+export const TRADING_DAYS_PER_YEAR = 252
+export const CALENDAR_DAYS_PER_YEAR = 365
+
+export interface VolatilityOptions {
+  estimator?: VolatilityEstimator  // Defaults to 'range-change'
+  window?: number                  // Rolling window in bars, defaults to 20
+  annualize?: boolean              // Scale by sqrt(periodsPerYear), defaults to false
+  periodsPerYear?: number          // Defaults to 252 trading days
+}
+
+const LN2 = Math.log(2)
+
+function isValidBar(quote: StockQuote): boolean {
+  return quote.open > 0 && quote.high > 0 && quote.low > 0 && quote.close > 0
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function sampleVariance(values: number[]): number {
+  const avg = mean(values)
+  return values.reduce((sum, value) => sum + (value - avg) ** 2, 0) / (values.length - 1)
+}
+
+/**
+ * Variance of one window, or NaN when the window has too few bars.
+ * `previous` holds the close before each bar (undefined for the first bar).
+ */
+function windowVariance(
+  estimator: Exclude<VolatilityEstimator, 'range-change' | 'atr'>,
+  bars: StockQuote[],
+  previous: Array<number | undefined>
+): number {
+  switch (estimator) {
+    case 'close-to-close': {
+      const returns = bars
+        .map((bar, i) => (previous[i] ? Math.log(bar.close / previous[i]!) : NaN))
+        .filter(isFinite)
+      return returns.length >= 2 ? sampleVariance(returns) : NaN
+    }
+
+    case 'parkinson':
+      return mean(bars.map(bar => Math.log(bar.high / bar.low) ** 2)) / (4 * LN2)
+
+    case 'garman-klass':
+      return mean(bars.map(bar =>
+        0.5 * Math.log(bar.high / bar.low) ** 2 - (2 * LN2 - 1) * Math.log(bar.close / bar.open) ** 2
+      ))
+
+    case 'rogers-satchell':
+      return mean(bars.map(rogersSatchellTerm))
+
+    case 'yang-zhang': {
+      const withPrevious = bars.filter((_, i) => previous[i])
+      const n = withPrevious.length
+      if (n < 2) {
+        return NaN
+      }
+      const overnight = bars
+        .map((bar, i) => (previous[i] ? Math.log(bar.open / previous[i]!) : NaN))
+        .filter(isFinite)
+      const openToClose = withPrevious.map(bar => Math.log(bar.close / bar.open))
+      const k = 0.34 / (1.34 + (n + 1) / (n - 1))
+      return (
+        sampleVariance(overnight) +
+        k * sampleVariance(openToClose) +
+        (1 - k) * mean(withPrevious.map(rogersSatchellTerm))
+      )
+    }
+  }
+}
+
+function rogersSatchellTerm(bar: StockQuote): number {
+  return (
+    Math.log(bar.high / bar.close) * Math.log(bar.high / bar.open) +
+    Math.log(bar.low / bar.close) * Math.log(bar.low / bar.open)
+  )
+}
+
+function trueRange(bar: StockQuote, previousClose: number | undefined): number {
+  if (!previousClose) {
+    return bar.high - bar.low
+  }
+  return Math.max(
+    bar.high - bar.low,
+    Math.abs(bar.high - previousClose),
+    Math.abs(bar.low - previousClose)
+  )
+}
+
+/**
+ * Estimates volatility for each daily bar
+ *
+ * @param quotes - Daily bars in time order
+ * @param options - Estimator, rolling window and annualization
+ * @returns Volatility in percent for each quote (same order and length)
+ */
+export function estimateVolatility(quotes: StockQuote[], options: VolatilityOptions = {}): number[] {
+  if (!quotes || quotes.length === 0) {
+    return []
+  }
+
+  const estimator = options.estimator || 'range-change'
+  const window = Math.max(1, Math.floor(options.window || DEFAULT_VOLATILITY_WINDOW))
+  const scale = options.annualize
+    ? Math.sqrt(options.periodsPerYear || TRADING_DAYS_PER_YEAR)
+    : 1
+
+  const previous = quotes.map((_, i) => (i > 0 && quotes[i - 1].close > 0 ? quotes[i - 1].close : undefined))
+
+  return quotes.map((quote, i) => {
+    let value: number
+
+    if (estimator === 'range-change') {
+      const range = quote.close > 0 ? Math.abs((quote.high - quote.low) / quote.close) * 100 : 0
+      const change = previous[i] ? Math.abs((quote.close - previous[i]!) / previous[i]!) * 100 : 0
+      value = Math.max(range, change)
+    } else {
+      const start = Math.max(0, i - window + 1)
+      const indices = Array.from({ length: i - start + 1 }, (_, j) => start + j)
+        .filter(index => isValidBar(quotes[index]))
+      const bars = indices.map(index => quotes[index])
+      const prevCloses = indices.map(index => previous[index])
+
+      if (bars.length === 0) {
+        value = NaN
+      } else if (estimator === 'atr') {
+        const atr = mean(bars.map((bar, j) => trueRange(bar, prevCloses[j])))
+        value = quote.close > 0 ? (atr / quote.close) * 100 : NaN
+      } else {
+        // Small negative Garman-Klass or Rogers-Satchell sums are noise
+        value = Math.sqrt(Math.max(0, windowVariance(estimator, bars, prevCloses))) * 100
+      }
+    }
+
+    return isFinite(value) ? Math.max(0, value) * scale : 0
+  })
+}